@@ -0,0 +1,50 @@
+// Local stand-in for the production cron job: calls the
+// publish-scheduled-articles edge function every minute.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... pnpm scheduler
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... pnpm scheduler --once   (for crontab)
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const intervalMs = Number(process.env.SCHEDULER_INTERVAL_MS || 60_000);
+const runOnce = process.argv.includes('--once');
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+async function tick() {
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/publish-scheduled-articles`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${serviceRoleKey}`,
+      },
+    });
+
+    const body = await response.json();
+
+    if (!response.ok) {
+      console.error(`[${new Date().toISOString()}] Scheduler failed:`, body.error?.message || response.statusText);
+      return false;
+    }
+
+    for (const article of body.published) {
+      console.log(`[${body.ranAt}] Published "${article.title}" (${article.slug})`);
+    }
+    return true;
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Scheduler request failed:`, error.message);
+    return false;
+  }
+}
+
+if (runOnce) {
+  process.exit((await tick()) ? 0 : 1);
+}
+
+console.log(`Publishing due articles every ${intervalMs / 1000}s. Press Ctrl+C to stop.`);
+await tick();
+setInterval(tick, intervalMs);
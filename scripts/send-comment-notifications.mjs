@@ -0,0 +1,53 @@
+// Local stand-in for the production cron job: calls the
+// send-comment-notifications edge function every minute.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... pnpm notifier
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... pnpm notifier --once   (for crontab)
+//
+// Where the mail ends up depends on the function's MAIL_TRANSPORT (see
+// supabase/functions/_shared/mail.ts).
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const intervalMs = Number(process.env.NOTIFIER_INTERVAL_MS || 60_000);
+const runOnce = process.argv.includes('--once');
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+async function tick() {
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/send-comment-notifications`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${serviceRoleKey}`,
+      },
+    });
+
+    const body = await response.json();
+
+    if (!response.ok) {
+      console.error(`[${new Date().toISOString()}] Notifier failed:`, body.error?.message || response.statusText);
+      return false;
+    }
+
+    if (body.sent || body.skipped || body.failed) {
+      console.log(`[${body.ranAt}] Sent ${body.sent}, skipped ${body.skipped}, failed ${body.failed} (${body.transport})`);
+    }
+    return body.failed === 0;
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Notifier request failed:`, error.message);
+    return false;
+  }
+}
+
+if (runOnce) {
+  process.exit((await tick()) ? 0 : 1);
+}
+
+console.log(`Sending comment notifications every ${intervalMs / 1000}s. Press Ctrl+C to stop.`);
+await tick();
+setInterval(tick, intervalMs);
@@ -5,6 +5,7 @@ import { LanguageProvider } from './contexts/LanguageContext';
 import { Header } from './components/Header';
 import { Footer } from './components/Footer';
 import { CookieConsent } from './components/CookieConsent';
+import { RequirePermission } from './components/RequirePermission';
 import { HomePage } from './pages/HomePage';
 import { SearchPage } from './pages/SearchPage';
 import { CategoryPage } from './pages/CategoryPage';
@@ -15,11 +16,14 @@ import { LoginPage } from './pages/LoginPage';
 import { RegisterPage } from './pages/RegisterPage';
 import { AboutPage } from './pages/AboutPage';
 import { ContactPage } from './pages/ContactPage';
+import { UnsubscribePage } from './pages/UnsubscribePage';
 import { AdminPage } from './pages/AdminPage';
 import { ArticlesManagementPage } from './pages/ArticlesManagementPage';
 import { CreateArticlePage } from './pages/CreateArticlePage';
 import { EditArticlePage } from './pages/EditArticlePage';
+import { ScheduledArticlesPage } from './pages/ScheduledArticlesPage';
 import { AdvertisementManagementPage } from './pages/AdvertisementManagementPage';
+import { AdvertisementReportsPage } from './pages/AdvertisementReportsPage';
 import { CreateAdvertisementPage } from './pages/CreateAdvertisementPage';
 import { EditAdvertisementPage } from './pages/EditAdvertisementPage';
 import { UsersManagementPage } from './pages/UsersManagementPage';
@@ -50,25 +54,28 @@ function App() {
                 <Route path="/latest" element={<LatestPage />} />
                 <Route path="/about" element={<AboutPage />} />
                 <Route path="/contact" element={<ContactPage />} />
+                <Route path="/unsubscribe" element={<UnsubscribePage />} />
                 <Route path="/login" element={<LoginPage />} />
                 <Route path="/register" element={<RegisterPage />} />
-                <Route path="/admin" element={<AdminPage />} />
-                <Route path="/admin/articles" element={<ArticlesManagementPage />} />
-                <Route path="/admin/articles/create" element={<CreateArticlePage />} />
-                <Route path="/admin/articles/edit/:id" element={<EditArticlePage />} />
-                <Route path="/admin/ads" element={<AdvertisementManagementPage />} />
-                <Route path="/admin/ads/create" element={<CreateAdvertisementPage />} />
-                <Route path="/admin/ads/:id" element={<EditAdvertisementPage />} />
-                <Route path="/admin/users" element={<UsersManagementPage />} />
-                <Route path="/admin/users/create" element={<CreateUserPage />} />
-                <Route path="/admin/users/:id" element={<EditUserPage />} />
-                <Route path="/admin/categories" element={<CategoriesManagementPage />} />
-                <Route path="/admin/categories/create" element={<CreateCategoryPage />} />
-                <Route path="/admin/categories/:id" element={<EditCategoryPage />} />
-                <Route path="/admin/breaking-news" element={<BreakingNewsPage />} />
-                <Route path="/admin/comments" element={<CommentsManagementPage />} />
-                <Route path="/admin/analytics" element={<AnalyticsPage />} />
-                <Route path="/admin/content" element={<SiteContentManagementPage />} />
+                <Route path="/admin" element={<RequirePermission permission="dashboard.view"><AdminPage /></RequirePermission>} />
+                <Route path="/admin/articles" element={<RequirePermission permission="articles.write"><ArticlesManagementPage /></RequirePermission>} />
+                <Route path="/admin/articles/create" element={<RequirePermission permission="articles.write"><CreateArticlePage /></RequirePermission>} />
+                <Route path="/admin/articles/edit/:id" element={<RequirePermission permission="articles.write"><EditArticlePage /></RequirePermission>} />
+                <Route path="/admin/articles/scheduled" element={<RequirePermission permission="articles.write"><ScheduledArticlesPage /></RequirePermission>} />
+                <Route path="/admin/ads" element={<RequirePermission permission="ads.manage"><AdvertisementManagementPage /></RequirePermission>} />
+                <Route path="/admin/ads/create" element={<RequirePermission permission="ads.manage"><CreateAdvertisementPage /></RequirePermission>} />
+                <Route path="/admin/ads/reports" element={<RequirePermission permission="ads.manage"><AdvertisementReportsPage /></RequirePermission>} />
+                <Route path="/admin/ads/:id" element={<RequirePermission permission="ads.manage"><EditAdvertisementPage /></RequirePermission>} />
+                <Route path="/admin/users" element={<RequirePermission permission="users.manage"><UsersManagementPage /></RequirePermission>} />
+                <Route path="/admin/users/create" element={<RequirePermission permission="users.manage"><CreateUserPage /></RequirePermission>} />
+                <Route path="/admin/users/:id" element={<RequirePermission permission="users.manage"><EditUserPage /></RequirePermission>} />
+                <Route path="/admin/categories" element={<RequirePermission permission="categories.manage"><CategoriesManagementPage /></RequirePermission>} />
+                <Route path="/admin/categories/create" element={<RequirePermission permission="categories.manage"><CreateCategoryPage /></RequirePermission>} />
+                <Route path="/admin/categories/:id" element={<RequirePermission permission="categories.manage"><EditCategoryPage /></RequirePermission>} />
+                <Route path="/admin/breaking-news" element={<RequirePermission permission="breaking_news.manage"><BreakingNewsPage /></RequirePermission>} />
+                <Route path="/admin/comments" element={<RequirePermission permission="comments.moderate"><CommentsManagementPage /></RequirePermission>} />
+                <Route path="/admin/analytics" element={<RequirePermission permission="analytics.view"><AnalyticsPage /></RequirePermission>} />
+                <Route path="/admin/content" element={<RequirePermission permission="site_content.manage"><SiteContentManagementPage /></RequirePermission>} />
               </Routes>
             </main>
             <Footer />
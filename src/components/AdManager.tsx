@@ -1,5 +1,14 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
 import { useAdvertisements } from '../hooks/useAdvertisements';
+import {
+  AD_VIEWABLE_MS,
+  AD_VIEWABLE_THRESHOLD,
+  getAdClickUrl,
+  recordAdImpression,
+  requestAdViews,
+  trackAdImpression
+} from '../lib/ads';
 import { ExternalLink, Clock } from 'lucide-react';
 
 interface AdManagerProps {
@@ -9,12 +18,10 @@ interface AdManagerProps {
   showLabel?: boolean;
   lazyLoad?: boolean;
   responsive?: boolean;
-}
-
-interface AdMetrics {
-  impressions: number;
-  clicks: number;
-  displayTime: number;
+  // Targeting context of the page the ads appear on
+  category?: string | null;
+  tags?: string[] | null;
+  language?: string | null;
 }
 
 export function AdManager({ 
@@ -23,106 +30,93 @@ export function AdManager({
   maxAds = 3,
   showLabel = true,
   lazyLoad = true,
-  responsive = true
+  responsive = true,
+  category,
+  tags,
+  language
 }: AdManagerProps) {
-  const { getAdsByPlacement, loading } = useAdvertisements();
+  const { selectAds, loading } = useAdvertisements();
+  const { pathname } = useLocation();
   const [visibleAds, setVisibleAds] = useState<any[]>([]);
-  const [adMetrics, setAdMetrics] = useState<{ [key: string]: AdMetrics }>({});
-  const [observedElements, setObservedElements] = useState<{ [key: string]: IntersectionObserver }>({});
+  // Signed view tokens from the ad-event function, by ad id
+  const [views, setViews] = useState<Record<string, string>>({});
+  const containerRef = useRef<HTMLDivElement>(null);
+  const seenAds = useRef<Set<string>>(new Set());
 
+  // Pages like ArticlePage stay mounted from one article to the next, so every new
+  // path or targeting context is a new page view with fresh tokens
   useEffect(() => {
-    if (!loading) {
-      const ads = getAdsByPlacement(placement).slice(0, maxAds);
-      setVisibleAds(ads);
-    }
-  }, [placement, maxAds, loading, getAdsByPlacement]);
+    if (loading) return;
+
+    const ads = selectAds(placement, maxAds, {
+      category,
+      tags,
+      // Articles carry their own language; elsewhere the reader's UI language applies
+      language: language === 'sr' || language === 'en' ? language : undefined
+    });
+    seenAds.current = new Set();
+    setVisibleAds(ads);
+    setViews({});
+
+    let cancelled = false;
+    requestAdViews(ads.map(ad => ad.id)).then(issued => {
+      if (!cancelled) setViews(issued);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [placement, maxAds, loading, selectAds, category, tags, language, pathname]);
 
-  // Intersection Observer for lazy loading and impression tracking
+  const trackImpression = useCallback((adId: string, view: string, visibleMs: number) => {
+    // Counts towards the ad's per-visitor frequency cap
+    recordAdImpression(adId);
+    trackAdImpression(adId, view, visibleMs);
+  }, []);
+
+  // An impression is counted once an ad has stayed at least half visible for a
+  // second, and only once per ad per page view. Ads are watched once their view
+  // token has arrived.
   useEffect(() => {
-    if (!lazyLoad) return;
+    if (!containerRef.current || !visibleAds.length) return;
+
+    const timers = new Map<string, number>();
 
     const observer = new IntersectionObserver(
       (entries) => {
         entries.forEach((entry) => {
           const adId = entry.target.getAttribute('data-ad-id');
-          if (!adId) return;
-
-          if (entry.isIntersecting) {
-            // Track impression
-            trackImpression(adId);
-            
-            // Start timing for view duration
-            setAdMetrics(prev => ({
-              ...prev,
-              [adId]: {
-                ...prev[adId],
-                displayTime: Date.now()
-              }
-            }));
-          } else {
-            // Stop timing and calculate view duration
-            if (adMetrics[adId]?.displayTime) {
-              const viewDuration = Date.now() - adMetrics[adId].displayTime;
-              setAdMetrics(prev => ({
-                ...prev,
-                [adId]: {
-                  ...prev[adId],
-                  displayTime: 0,
-                  impressions: (prev[adId]?.impressions || 0) + 1
-                }
-              }));
-            }
+          if (!adId || !views[adId] || seenAds.current.has(adId)) return;
+
+          if (entry.isIntersecting && entry.intersectionRatio >= AD_VIEWABLE_THRESHOLD) {
+            if (timers.has(adId)) return;
+
+            const visibleSince = Date.now();
+            timers.set(adId, window.setTimeout(() => {
+              timers.delete(adId);
+              // A background tab is not a view
+              if (document.visibilityState !== 'visible') return;
+
+              seenAds.current.add(adId);
+              observer.unobserve(entry.target);
+              trackImpression(adId, views[adId], Date.now() - visibleSince);
+            }, AD_VIEWABLE_MS));
+          } else if (timers.has(adId)) {
+            window.clearTimeout(timers.get(adId));
+            timers.delete(adId);
           }
         });
       },
-      {
-        threshold: 0.5, // Ad must be 50% visible to count
-        rootMargin: '50px'
-      }
+      { threshold: AD_VIEWABLE_THRESHOLD }
     );
 
-    setObservedElements({ [placement]: observer });
+    containerRef.current.querySelectorAll('[data-ad-id]').forEach(element => observer.observe(element));
 
     return () => {
       observer.disconnect();
+      timers.forEach(timer => window.clearTimeout(timer));
     };
-  }, [visibleAds, lazyLoad, placement, adMetrics]);
-
-  const trackImpression = useCallback(async (adId: string) => {
-    try {
-      // Here you would typically send analytics data to your backend
-      console.log(`Ad impression tracked: ${adId}`);
-      
-      // For now, we'll just update local state
-      setAdMetrics(prev => ({
-        ...prev,
-        [adId]: {
-          ...prev[adId],
-          impressions: (prev[adId]?.impressions || 0) + 1
-        }
-      }));
-    } catch (error) {
-      console.error('Error tracking impression:', error);
-    }
-  }, []);
-
-  const trackClick = useCallback(async (adId: string, linkUrl: string) => {
-    try {
-      // Track click
-      setAdMetrics(prev => ({
-        ...prev,
-        [adId]: {
-          ...prev[adId],
-          clicks: (prev[adId]?.clicks || 0) + 1
-        }
-      }));
-      
-      // Open link
-      window.open(linkUrl, '_blank', 'noopener,noreferrer');
-    } catch (error) {
-      console.error('Error tracking click:', error);
-    }
-  }, []);
+  }, [visibleAds, views, trackImpression]);
 
   const getResponsiveAdSize = () => {
     if (!responsive) return '';
@@ -167,7 +161,7 @@ export function AdManager({
         </div>
       )}
       
-      <div className="space-y-4">
+      <div ref={containerRef} className="space-y-4">
         {visibleAds.map((ad) => (
           <div 
             key={ad.id}
@@ -177,33 +171,40 @@ export function AdManager({
               data-ad-id={ad.id}
               className="w-full h-full relative overflow-hidden rounded-lg shadow-sm hover:shadow-md transition-shadow"
             >
-              <button
-                onClick={() => trackClick(ad.id, ad.link_url)}
-                className="w-full h-full focus:outline-none focus:ring-2 focus:ring-blue-500"
-                aria-label={`View advertisement: ${ad.name}`}
-              >
+              {ad.link_url ? (
+                // Clicks go through the tracking URL, which redirects to the advertiser
+                <a
+                  href={getAdClickUrl(ad.id, views[ad.id])}
+                  target="_blank"
+                  rel="noopener noreferrer sponsored"
+                  className="block w-full h-full focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label={`View advertisement: ${ad.name}`}
+                >
+                  <img
+                    src={ad.image_url}
+                    alt={ad.name}
+                    className="w-full h-full object-cover transition-transform group-hover:scale-105"
+                    loading={lazyLoad ? "lazy" : "eager"}
+                  />
+
+                  {/* Overlay on hover */}
+                  <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 transition-all flex items-center justify-center opacity-0 group-hover:opacity-100">
+                    <div className="bg-white dark:bg-gray-800 rounded-lg p-3 transform translate-y-4 group-hover:translate-y-0 transition-transform">
+                      <div className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+                        <ExternalLink size={16} />
+                        <span>Visit Sponsor</span>
+                      </div>
+                    </div>
+                  </div>
+                </a>
+              ) : (
                 <img
                   src={ad.image_url}
                   alt={ad.name}
-                  className="w-full h-full object-cover transition-transform group-hover:scale-105"
+                  className="w-full h-full object-cover"
                   loading={lazyLoad ? "lazy" : "eager"}
                 />
-                
-                {/* Overlay with ad info on hover */}
-                <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 transition-all flex items-center justify-center opacity-0 group-hover:opacity-100">
-                  <div className="bg-white dark:bg-gray-800 rounded-lg p-3 transform translate-y-4 group-hover:translate-y-0 transition-transform">
-                    <div className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100">
-                      <ExternalLink size={16} />
-                      <span>Visit Sponsor</span>
-                    </div>
-                    {adMetrics[ad.id] && (
-                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                        {adMetrics[ad.id].impressions} views • {adMetrics[ad.id].clicks} clicks
-                      </div>
-                    )}
-                  </div>
-                </div>
-              </button>
+              )}
             </div>
 
             {/* Ad expiry indicator */}
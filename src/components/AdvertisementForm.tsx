@@ -1,7 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { Upload, X, Eye } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { supabase, Category, AdDevice, AdLanguage } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import {
+  MIN_AD_WEIGHT,
+  MAX_AD_WEIGHT,
+  AD_LANGUAGE_LABELS,
+  AD_DEVICE_LABELS,
+  AD_PLACEMENT_OPTIONS,
+  getAdPlacementLabel
+} from '../lib/ads';
+import { escapeHtml, openPrintWindow } from '../lib/printWindow';
 
 interface AdvertisementFormData {
   name: string;
@@ -9,6 +18,14 @@ interface AdvertisementFormData {
   link_url: string;
   placement: string;
   is_active: boolean;
+  weight: number;
+  frequency_cap: number | null;
+  impression_goal: number | null;
+  is_house_ad: boolean;
+  target_categories: string[];
+  target_tags: string[];
+  target_languages: AdLanguage[];
+  target_devices: AdDevice[];
   start_date: string;
   end_date: string;
 }
@@ -21,13 +38,7 @@ interface AdvertisementFormProps {
   onSubmit?: (data: AdvertisementFormData) => Promise<void>;
 }
 
-const PLACEMENT_OPTIONS = [
-  { value: 'header_banner', label: 'Header Banner' },
-  { value: 'sidebar_rectangle', label: 'Sidebar Rectangle' },
-  { value: 'footer_banner', label: 'Footer Banner' },
-  { value: 'in_content', label: 'In Content' },
-  { value: 'mobile_banner', label: 'Mobile Banner' }
-];
+type TargetListField = 'target_categories' | 'target_languages' | 'target_devices';
 
 export function AdvertisementForm({ mode, initialData, onSuccess, onCancel, onSubmit }: AdvertisementFormProps) {
   const { user } = useAuth();
@@ -44,10 +55,40 @@ export function AdvertisementForm({ mode, initialData, onSuccess, onCancel, onSu
     link_url: '',
     placement: 'sidebar_rectangle',
     is_active: true,
+    weight: 1,
+    frequency_cap: null,
+    impression_goal: null,
+    is_house_ad: false,
+    target_categories: [],
+    target_tags: [],
+    target_languages: [],
+    target_devices: [],
     start_date: '',
     end_date: '',
     ...initialData
   });
+  const [categories, setCategories] = useState<Category[]>([]);
+  // Edited as comma-separated text, like article tags
+  const [targetTagsInput, setTargetTagsInput] = useState((initialData?.target_tags || []).join(', '));
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    }
+  };
 
   useEffect(() => {
     if (initialData?.image_url) {
@@ -64,6 +105,11 @@ export function AdvertisementForm({ mode, initialData, onSuccess, onCancel, onSu
         ...prev,
         [name]: checked
       }));
+    } else if (type === 'number') {
+      setFormData(prev => ({
+        ...prev,
+        [name]: value === '' ? null : Number(value)
+      }));
     } else {
       setFormData(prev => ({
         ...prev,
@@ -72,6 +118,16 @@ export function AdvertisementForm({ mode, initialData, onSuccess, onCancel, onSu
     }
   };
 
+  const toggleTarget = (field: TargetListField, value: string) => {
+    setFormData(prev => {
+      const current = prev[field] as string[];
+      return {
+        ...prev,
+        [field]: current.includes(value) ? current.filter(item => item !== value) : [...current, value]
+      };
+    });
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -149,63 +205,51 @@ export function AdvertisementForm({ mode, initialData, onSuccess, onCancel, onSu
       return;
     }
     
-    const previewWindow = window.open('', '_blank', 'width=800,height=600');
-    if (previewWindow) {
-      previewWindow.document.write(`
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <title>Advertisement Preview</title>
-          <style>
-            body { 
-              font-family: Arial, sans-serif; 
-              padding: 20px; 
-              background: #f5f5f5;
-            }
-            .ad-container { 
-              max-width: 100%; 
-              border: 2px solid #ddd; 
-              border-radius: 8px;
-              overflow: hidden;
-              background: white;
-              box-shadow: 0 4px 6px rgba(0,0,0,0.1);
-            }
-            .ad-image { 
-              width: 100%; 
-              height: auto; 
-              display: block;
-            }
-            .ad-info { 
-              padding: 15px; 
-              background: #f9f9f9;
-            }
-            .ad-name { 
-              font-size: 18px; 
-              font-weight: bold; 
-              margin: 0 0 5px 0;
-              color: #333;
-            }
-            .ad-placement { 
-              color: #666; 
-              margin: 0;
-              font-size: 14px;
-            }
-          </style>
-        </head>
-        <body>
-          <h1>Advertisement Preview</h1>
-          <div class="ad-container">
-            <img src="${formData.image_url}" alt="${formData.name}" class="ad-image" />
-            <div class="ad-info">
-              <h3 class="ad-name">${formData.name || 'Advertisement Name'}</h3>
-              <p class="ad-placement">Placement: ${PLACEMENT_OPTIONS.find(p => p.value === formData.placement)?.label || formData.placement}</p>
-            </div>
-          </div>
-          ${formData.link_url ? `<p style="margin-top: 20px; color: #666;">Clicking the image will redirect to: ${formData.link_url}</p>` : ''}
-        </body>
-        </html>
-      `);
-    }
+    openPrintWindow('Advertisement Preview', `
+      <h1>Advertisement Preview</h1>
+      <div class="ad-container">
+        <img src="${escapeHtml(formData.image_url)}" alt="${escapeHtml(formData.name)}" class="ad-image" />
+        <div class="ad-info">
+          <h3 class="ad-name">${escapeHtml(formData.name || 'Advertisement Name')}</h3>
+          <p class="ad-placement">Placement: ${escapeHtml(getAdPlacementLabel(formData.placement))}</p>
+        </div>
+      </div>
+      ${formData.link_url ? `<p style="margin-top: 20px; color: #666;">Clicking the image will redirect to: ${escapeHtml(formData.link_url)}</p>` : ''}
+    `, {
+      styles: `
+        body {
+          background: #f5f5f5;
+        }
+        .ad-container { 
+          max-width: 100%; 
+          border: 2px solid #ddd; 
+          border-radius: 8px;
+          overflow: hidden;
+          background: white;
+          box-shadow: 0 4px 6px rgba(0,0,0,0.1);
+        }
+        .ad-image { 
+          width: 100%; 
+          height: auto; 
+          display: block;
+        }
+        .ad-info { 
+          padding: 15px; 
+          background: #f9f9f9;
+        }
+        .ad-name { 
+          font-size: 18px; 
+          font-weight: bold; 
+          margin: 0 0 5px 0;
+          color: #333;
+        }
+        .ad-placement { 
+          color: #666; 
+          margin: 0;
+          font-size: 14px;
+        }
+      `
+    });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -236,12 +280,37 @@ export function AdvertisementForm({ mode, initialData, onSuccess, onCancel, onSu
         }
       }
 
+      if (!formData.weight || formData.weight < MIN_AD_WEIGHT || formData.weight > MAX_AD_WEIGHT) {
+        throw new Error(`Weight must be between ${MIN_AD_WEIGHT} and ${MAX_AD_WEIGHT}`);
+      }
+
+      if (formData.frequency_cap !== null && formData.frequency_cap < 1) {
+        throw new Error('Frequency cap must be at least 1 impression per day');
+      }
+
+      if (formData.impression_goal !== null) {
+        if (formData.impression_goal < 1) {
+          throw new Error('Impression goal must be at least 1');
+        }
+        if (!formData.start_date || !formData.end_date) {
+          throw new Error('An impression goal needs both a start and an end date to pace delivery');
+        }
+      }
+
       const advertisementData = {
         name: formData.name.trim(),
         image_url: formData.image_url.trim(),
         link_url: formData.link_url.trim() || null,
         placement: formData.placement,
         is_active: formData.is_active,
+        weight: formData.weight,
+        frequency_cap: formData.frequency_cap,
+        impression_goal: formData.impression_goal,
+        is_house_ad: formData.is_house_ad,
+        target_categories: formData.target_categories,
+        target_tags: targetTagsInput.split(',').map(tag => tag.trim()).filter(Boolean),
+        target_languages: formData.target_languages,
+        target_devices: formData.target_devices,
         start_date: formData.start_date || null,
         end_date: formData.end_date || null
       };
@@ -314,7 +383,7 @@ export function AdvertisementForm({ mode, initialData, onSuccess, onCancel, onSu
             style={{ minHeight: '44px' }}
             required
           >
-            {PLACEMENT_OPTIONS.map(option => (
+            {AD_PLACEMENT_OPTIONS.map(option => (
               <option key={option.value} value={option.value}>
                 {option.label}
               </option>
@@ -484,6 +553,187 @@ export function AdvertisementForm({ mode, initialData, onSuccess, onCancel, onSu
           </div>
         </div>
 
+        {/* Rotation */}
+        <div className="space-y-4">
+          <div className="border-b border-gray-200 dark:border-gray-700 pb-2">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Rotation
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Control how often this advertisement is picked when several share a placement
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label htmlFor="weight" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Weight *
+              </label>
+              <input
+                id="weight"
+                name="weight"
+                type="number"
+                min={MIN_AD_WEIGHT}
+                max={MAX_AD_WEIGHT}
+                value={formData.weight ?? ''}
+                onChange={handleChange}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white"
+                style={{ minHeight: '44px' }}
+                required
+              />
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                An ad with weight 2 is shown twice as often as one with weight 1
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="frequency_cap" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Frequency Cap
+              </label>
+              <input
+                id="frequency_cap"
+                name="frequency_cap"
+                type="number"
+                min={1}
+                value={formData.frequency_cap ?? ''}
+                onChange={handleChange}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white"
+                style={{ minHeight: '44px' }}
+                placeholder="Unlimited"
+              />
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Optional: Maximum impressions per visitor per day
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="impression_goal" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Impression Goal
+              </label>
+              <input
+                id="impression_goal"
+                name="impression_goal"
+                type="number"
+                min={1}
+                value={formData.impression_goal ?? ''}
+                onChange={handleChange}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white"
+                style={{ minHeight: '44px' }}
+                placeholder="No goal"
+              />
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                Optional: Spread this many impressions evenly between the start and end dates
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center">
+            <input
+              id="is_house_ad"
+              name="is_house_ad"
+              type="checkbox"
+              checked={formData.is_house_ad}
+              onChange={handleChange}
+              className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+            />
+            <label htmlFor="is_house_ad" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+              House ad (only shown when no paid advertisement is eligible for the placement)
+            </label>
+          </div>
+        </div>
+
+        {/* Targeting */}
+        <div className="space-y-4">
+          <div className="border-b border-gray-200 dark:border-gray-700 pb-2">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Targeting
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Leave a group empty to show the advertisement everywhere for it
+            </p>
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Categories
+            </legend>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {categories.map(category => (
+                <label key={category.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={formData.target_categories.includes(category.slug)}
+                    onChange={() => toggleTarget('target_categories', category.slug)}
+                    className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                  />
+                  {category.name}
+                </label>
+              ))}
+            </div>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Only show on articles and section pages in these categories
+            </p>
+          </fieldset>
+
+          <div>
+            <label htmlFor="target_tags" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Article Tags
+            </label>
+            <input
+              id="target_tags"
+              type="text"
+              value={targetTagsInput}
+              onChange={(e) => setTargetTagsInput(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white"
+              style={{ minHeight: '44px' }}
+              placeholder="elections, football"
+            />
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Optional: Only show on articles with at least one of these tags. Separate tags with commas
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Languages
+              </legend>
+              <div className="flex flex-wrap gap-4">
+                {(Object.keys(AD_LANGUAGE_LABELS) as AdLanguage[]).map(language => (
+                  <label key={language} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={formData.target_languages.includes(language)}
+                      onChange={() => toggleTarget('target_languages', language)}
+                      className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                    />
+                    {AD_LANGUAGE_LABELS[language]}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Devices
+              </legend>
+              <div className="flex flex-wrap gap-4">
+                {(Object.keys(AD_DEVICE_LABELS) as AdDevice[]).map(device => (
+                  <label key={device} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={formData.target_devices.includes(device)}
+                      onChange={() => toggleTarget('target_devices', device)}
+                      className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                    />
+                    {AD_DEVICE_LABELS[device]}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          </div>
+        </div>
+
         {/* Active Status */}
         <div className="flex items-center">
           <input
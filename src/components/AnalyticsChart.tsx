@@ -47,6 +47,10 @@ export function AnalyticsChart({
   const minValue = Math.min(...data.map(d => d.value));
   const range = maxValue - minValue || 1;
 
+  // Spread at most six labels evenly across the range, always keeping the last point
+  const labelStep = Math.max(1, Math.ceil((data.length - 1) / 5));
+  const axisLabels = data.filter((_, index) => index % labelStep === 0 || index === data.length - 1);
+
   const renderLineChart = () => {
     const points = data.map((item, index) => {
       const x = (index / (data.length - 1)) * 100;
@@ -190,7 +194,7 @@ export function AnalyticsChart({
       
       {/* X-axis labels */}
       <div className="flex justify-between mt-2 px-1">
-        {data.slice(0, Math.min(6, data.length)).map((item, index) => (
+        {axisLabels.map((item, index) => (
           <span
             key={index}
             className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-16"
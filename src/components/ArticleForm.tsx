@@ -1,8 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Upload, X } from 'lucide-react';
+import {
+  WorkflowStatus,
+  WORKFLOW_LABELS,
+  WORKFLOW_BADGE_CLASSES,
+  getAllowedTransitions,
+  findTransition,
+  transitionArticle
+} from '../lib/workflow';
+import { RichTextEditor } from './RichTextEditor';
+import { isEmptyHtml } from '../lib/richText';
+import { sanitizeArticleHtml, describeSanitizeReport } from '../lib/sanitize';
+import { rolesWith } from '../lib/permissions';
+import { Upload, X, MessageSquare } from 'lucide-react';
 
 interface ArticleFormData {
   title: string;
@@ -18,8 +30,12 @@ interface ArticleFormData {
   language: string;
   meta_title: string;
   meta_description: string;
-  publish_action: 'draft' | 'publish_now' | 'schedule';
+  workflow_status: WorkflowStatus;
+  next_status: WorkflowStatus | '';
   scheduled_date: string;
+  reviewer_id: string;
+  review_comment: string;
+  transition_comment: string;
 }
 
 interface ArticleFormProps {
@@ -31,14 +47,23 @@ interface ArticleFormProps {
 
 export function ArticleForm({ mode, articleId, initialData, onSuccess }: ArticleFormProps) {
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  // Set once a new article is saved, so that submitting again after the workflow
+  // step failed updates that article instead of inserting a duplicate
+  const [createdArticleId, setCreatedArticleId] = useState<string | null>(null);
+  const location = useLocation();
+  // A new article with stripped markup continues on its edit page, which shows the report
+  const [strippedContent, setStrippedContent] = useState<string[]>(
+    (location.state as { strippedContent?: string[] } | null)?.strippedContent || []
+  );
   const [uploading, setUploading] = useState(false);
   const [uploadedImageUrl, setUploadedImageUrl] = useState('');
   const [imagePreview, setImagePreview] = useState('');
   const [categories, setCategories] = useState<any[]>([]);
+  const [reviewers, setReviewers] = useState<Array<{ id: string; full_name: string | null; email: string }>>([]);
   
   const [formData, setFormData] = useState<ArticleFormData>({
     title: '',
@@ -54,18 +79,50 @@ export function ArticleForm({ mode, articleId, initialData, onSuccess }: Article
     language: 'sr',
     meta_title: '',
     meta_description: '',
-    publish_action: 'draft',
+    workflow_status: 'draft',
+    next_status: '',
     scheduled_date: '',
+    reviewer_id: '',
+    review_comment: '',
+    transition_comment: '',
     ...initialData
   });
 
+  const allowedTransitions = getAllowedTransitions(formData.workflow_status, profile?.role);
+  const selectedTransition = formData.next_status
+    ? findTransition(formData.workflow_status, formData.next_status)
+    : undefined;
+
   useEffect(() => {
     if (initialData?.featured_image_url) {
       setImagePreview(initialData.featured_image_url);
     }
     fetchCategories();
+    fetchReviewers();
   }, [initialData]);
 
+  useEffect(() => {
+    // Show the hand-off report once; a reload or remount should not repeat it
+    if (location.state) {
+      navigate(location.pathname, { replace: true });
+    }
+  }, [location.state, location.pathname, navigate]);
+
+  const fetchReviewers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .in('role', rolesWith('articles.review'))
+        .order('full_name', { ascending: true });
+
+      if (error) throw error;
+      setReviewers(data || []);
+    } catch (error) {
+      console.error('Error fetching reviewers:', error);
+    }
+  };
+
   const fetchCategories = async () => {
     try {
       const { data, error } = await supabase
@@ -99,28 +156,20 @@ export function ArticleForm({ mode, articleId, initialData, onSuccess }: Article
     }
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
+  const uploadImage = (file: File): Promise<string> => {
     // Validate file type
     const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
     if (!validTypes.includes(file.type)) {
-      setError('Please upload a valid image file (JPEG, PNG, or WebP)');
-      return;
+      return Promise.reject(new Error('Please upload a valid image file (JPEG, PNG, or WebP)'));
     }
 
     // Validate file size (5MB limit)
     const maxSize = 5 * 1024 * 1024;
     if (file.size > maxSize) {
-      setError('Image size must be less than 5MB');
-      return;
+      return Promise.reject(new Error('Image size must be less than 5MB'));
     }
 
-    setError('');
-    setUploading(true);
-
-    try {
+    return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.onloadend = async () => {
         try {
@@ -136,27 +185,36 @@ export function ArticleForm({ mode, articleId, initialData, onSuccess }: Article
           if (uploadError) throw uploadError;
           if (data.error) throw new Error(data.error);
 
-          setUploadedImageUrl(data.publicUrl);
-          setImagePreview(data.publicUrl);
-          setFormData(prev => ({
-            ...prev,
-            featured_image_url: data.publicUrl
-          }));
-          setSuccess('Image uploaded successfully');
-          setTimeout(() => setSuccess(''), 3000);
+          resolve(data.publicUrl);
         } catch (err: any) {
-          setError(err.message || 'Failed to upload image');
-        } finally {
-          setUploading(false);
+          reject(new Error(err.message || 'Failed to upload image'));
         }
       };
-      reader.onerror = () => {
-        setError('Failed to read file');
-        setUploading(false);
-      };
+      reader.onerror = () => reject(new Error('Failed to read file'));
       reader.readAsDataURL(file);
+    });
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    setUploading(true);
+
+    try {
+      const publicUrl = await uploadImage(file);
+      setUploadedImageUrl(publicUrl);
+      setImagePreview(publicUrl);
+      setFormData(prev => ({
+        ...prev,
+        featured_image_url: publicUrl
+      }));
+      setSuccess('Image uploaded successfully');
+      setTimeout(() => setSuccess(''), 3000);
     } catch (err: any) {
       setError(err.message || 'Failed to upload image');
+    } finally {
       setUploading(false);
     }
   };
@@ -174,6 +232,7 @@ export function ArticleForm({ mode, articleId, initialData, onSuccess }: Article
     e.preventDefault();
     setError('');
     setSuccess('');
+    setStrippedContent([]);
     setLoading(true);
 
     try {
@@ -185,68 +244,105 @@ export function ArticleForm({ mode, articleId, initialData, onSuccess }: Article
         throw new Error('Author name is required');
       }
 
+      if (!formData.content.trim()) {
+        throw new Error('Content is required');
+      }
+
+      const sanitized = sanitizeArticleHtml(formData.content);
+      if (isEmptyHtml(sanitized.html)) {
+        throw new Error('Content is required');
+      }
+
       const tagsArray = formData.tags
         ? formData.tags.split(',').map(tag => tag.trim()).filter(Boolean)
         : [];
 
-      let finalStatus = 'draft';
-      let publishedAt = null;
-      let scheduledPublishDate = null;
-
-      // Determine final status and publication date based on publish_action
-      if (formData.publish_action === 'publish_now') {
-        finalStatus = 'published';
-        publishedAt = new Date().toISOString();
-      } else if (formData.publish_action === 'schedule' && formData.scheduled_date) {
-        finalStatus = 'scheduled';
-        scheduledPublishDate = new Date(formData.scheduled_date).toISOString();
-      } else {
-        finalStatus = 'draft';
+      if (selectedTransition?.requiresSchedule && !formData.scheduled_date) {
+        throw new Error('Choose a publication date and time');
+      }
+
+      if (selectedTransition?.requiresComment && !formData.transition_comment.trim()) {
+        throw new Error('Add a comment explaining what needs to change');
       }
 
+      // Status, publication and schedule fields are owned by the workflow transition below
       const articleData = {
         title: formData.title,
         slug: formData.slug,
-        content: formData.content,
+        content: sanitized.html,
         excerpt: formData.excerpt || null,
         author_name: formData.author_name,
         category: formData.category,
         featured_image_url: formData.featured_image_url || null,
         tags: tagsArray,
         reading_time: parseInt(formData.reading_time.toString()) || 1,
-        status: finalStatus,
         language: formData.language,
         meta_title: formData.meta_title || formData.title,
         meta_description: formData.meta_description || formData.excerpt || null,
-        scheduled_publish_date: scheduledPublishDate,
-        workflow_status: mode === 'create' ? 'draft' : 'published',
       };
 
-      if (mode === 'create') {
-        const { error: insertError } = await supabase
+      let savedArticleId = articleId || createdArticleId;
+
+      if (!savedArticleId) {
+        const { data: inserted, error: insertError } = await supabase
           .from('articles')
           .insert([{
             ...articleData,
-            author_id: user.id,
-            published_at: publishedAt
-          }]);
+            author_id: user.id
+          }])
+          .select('id')
+          .single();
 
         if (insertError) throw insertError;
-        setSuccess('Article created successfully!');
+        savedArticleId = inserted.id;
+        setCreatedArticleId(inserted.id);
       } else {
-        const { error: updateError } = await supabase
+        const { data: updated, error: updateError } = await supabase
           .from('articles')
-          .update({
-            ...articleData,
-            published_at: publishedAt
-          })
-          .eq('id', articleId);
+          .update(articleData)
+          .eq('id', savedArticleId)
+          .select('id');
 
         if (updateError) throw updateError;
-        setSuccess('Article updated successfully!');
+        // Row-level security skips the row rather than failing: authors may only edit drafts
+        if (!updated || updated.length === 0) {
+          throw new Error('Only editors can change an article once it has left the draft stage');
+        }
+      }
+
+      if (formData.next_status && savedArticleId) {
+        await transitionArticle(savedArticleId, formData.next_status, {
+          comment: formData.transition_comment,
+          scheduledAt: selectedTransition?.requiresSchedule ? new Date(formData.scheduled_date).toISOString() : null,
+          reviewerId: formData.reviewer_id || null
+        });
       }
 
-      if (onSuccess) {
+      const outcome = formData.next_status ? ` Status: ${WORKFLOW_LABELS[formData.next_status]}.` : '';
+      setSuccess(`${mode === 'create' ? 'Article created' : 'Article updated'} successfully!${outcome}`);
+
+      if (sanitized.removed.length > 0) {
+        // Keep the author on the form so they can see what was dropped
+        const report = describeSanitizeReport(sanitized.removed);
+        if (mode === 'create') {
+          navigate(`/admin/articles/edit/${savedArticleId}`, { state: { strippedContent: report } });
+        } else {
+          // The form stays open, so it has to reflect the transition that just ran;
+          // otherwise the next save would try it again from the new status
+          const nextStatus = formData.next_status;
+          setFormData(prev => ({
+            ...prev,
+            content: sanitized.html,
+            ...(nextStatus && {
+              workflow_status: nextStatus,
+              next_status: '',
+              transition_comment: '',
+              scheduled_date: ''
+            })
+          }));
+          setStrippedContent(report);
+        }
+      } else if (onSuccess) {
         onSuccess();
       } else {
         setTimeout(() => {
@@ -278,6 +374,17 @@ export function ArticleForm({ mode, articleId, initialData, onSuccess }: Article
         </div>
       )}
 
+      {strippedContent.length > 0 && (
+        <div className="mb-4 p-3 bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded-lg">
+          <p className="font-medium">Some markup was removed from the content because it is not allowed in articles:</p>
+          <ul className="mt-1 ml-5 list-disc text-sm">
+            {strippedContent.map(item => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         {/* Title */}
         <div>
@@ -375,18 +482,18 @@ export function ArticleForm({ mode, articleId, initialData, onSuccess }: Article
 
         {/* Content */}
         <div>
-          <label htmlFor="content" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
             Content *
           </label>
-          <textarea
-            id="content"
-            name="content"
+          <RichTextEditor
             value={formData.content}
-            onChange={handleChange}
-            rows={10}
-            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white resize-none"
-            required
+            onChange={(content) => setFormData(prev => ({ ...prev, content }))}
+            onImageUpload={uploadImage}
+            placeholder="Write the article..."
           />
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Pasting from Word or Google Docs keeps headings, lists, links and tables and drops the formatting.
+          </p>
         </div>
 
         {/* Featured Image - URL or Upload */}
@@ -572,57 +679,78 @@ export function ArticleForm({ mode, articleId, initialData, onSuccess }: Article
           />
         </div>
 
-        {/* Publishing Options */}
+        {/* Workflow */}
         <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-            Publishing Options
-          </h3>
-          
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Workflow
+            </h3>
+            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${WORKFLOW_BADGE_CLASSES[formData.workflow_status]}`}>
+              {WORKFLOW_LABELS[formData.workflow_status]}
+            </span>
+          </div>
+
           <div className="space-y-4">
-            {/* Publish Action Radio Buttons */}
+            {/* Feedback from the last rejection */}
+            {formData.review_comment && formData.workflow_status === 'draft' && (
+              <div className="flex gap-3 p-3 bg-orange-50 dark:bg-orange-900 text-orange-800 dark:text-orange-200 rounded-lg text-sm">
+                <MessageSquare className="h-5 w-5 flex-shrink-0" />
+                <div>
+                  <p className="font-medium">Editor feedback</p>
+                  <p className="whitespace-pre-line">{formData.review_comment}</p>
+                </div>
+              </div>
+            )}
+
             <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
-                Publication Action
+              <label htmlFor="next_status" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Next Step
               </label>
-              <div className="space-y-2">
-                <label className="flex items-center">
-                  <input
-                    type="radio"
-                    name="publish_action"
-                    value="draft"
-                    checked={formData.publish_action === 'draft'}
-                    onChange={handleChange}
-                    className="mr-3"
-                  />
-                  <span className="text-gray-700 dark:text-gray-300">Save as draft</span>
-                </label>
-                <label className="flex items-center">
-                  <input
-                    type="radio"
-                    name="publish_action"
-                    value="publish_now"
-                    checked={formData.publish_action === 'publish_now'}
-                    onChange={handleChange}
-                    className="mr-3"
-                  />
-                  <span className="text-gray-700 dark:text-gray-300">Publish now</span>
-                </label>
-                <label className="flex items-center">
-                  <input
-                    type="radio"
-                    name="publish_action"
-                    value="schedule"
-                    checked={formData.publish_action === 'schedule'}
-                    onChange={handleChange}
-                    className="mr-3"
-                  />
-                  <span className="text-gray-700 dark:text-gray-300">Schedule publication</span>
+              <select
+                id="next_status"
+                name="next_status"
+                value={formData.next_status}
+                onChange={handleChange}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white"
+                style={{ minHeight: '44px' }}
+              >
+                <option value="">
+                  {mode === 'create' ? 'Save as draft' : `Save and keep as ${WORKFLOW_LABELS[formData.workflow_status].toLowerCase()}`}
+                </option>
+                {allowedTransitions.map(transition => (
+                  <option key={`${transition.from}-${transition.to}`} value={transition.to}>
+                    {transition.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Reviewer */}
+            {formData.next_status === 'in_review' && (
+              <div>
+                <label htmlFor="reviewer_id" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Reviewer
                 </label>
+                <select
+                  id="reviewer_id"
+                  name="reviewer_id"
+                  value={formData.reviewer_id}
+                  onChange={handleChange}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white"
+                  style={{ minHeight: '44px' }}
+                >
+                  <option value="">Any editor</option>
+                  {reviewers.map(reviewer => (
+                    <option key={reviewer.id} value={reviewer.id}>
+                      {reviewer.full_name || reviewer.email}
+                    </option>
+                  ))}
+                </select>
               </div>
-            </div>
+            )}
 
             {/* Schedule Date */}
-            {formData.publish_action === 'schedule' && (
+            {selectedTransition?.requiresSchedule && (
               <div>
                 <label htmlFor="scheduled_date" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Scheduled Publication Date & Time
@@ -636,6 +764,7 @@ export function ArticleForm({ mode, articleId, initialData, onSuccess }: Article
                   className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white"
                   style={{ minHeight: '44px' }}
                   min={new Date().toISOString().slice(0, 16)}
+                  required
                 />
                 <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
                   The article will be automatically published at the selected time.
@@ -643,17 +772,52 @@ export function ArticleForm({ mode, articleId, initialData, onSuccess }: Article
               </div>
             )}
 
+            {/* Rejection Comment */}
+            {selectedTransition?.requiresComment && (
+              <div>
+                <label htmlFor="transition_comment" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Comment for the author *
+                </label>
+                <textarea
+                  id="transition_comment"
+                  name="transition_comment"
+                  value={formData.transition_comment}
+                  onChange={handleChange}
+                  rows={3}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white resize-none"
+                  placeholder="Explain what needs to change before this can be approved"
+                  required
+                />
+              </div>
+            )}
+
             {/* Preview Message */}
             <div className="p-3 bg-blue-50 dark:bg-blue-900 text-blue-700 dark:text-blue-200 rounded-lg text-sm">
-              {formData.publish_action === 'draft' && (
-                "The article will be saved as a draft and won't be visible to readers."
+              {!formData.next_status && (
+                formData.workflow_status === 'published'
+                  ? 'Your changes will be visible to readers immediately.'
+                  : "Your changes will be saved and the article's status will not change."
+              )}
+              {formData.next_status === 'in_review' && (
+                'The article will be sent to the editors for review.'
+              )}
+              {formData.next_status === 'approved' && (
+                'The article will be marked as approved and ready to publish or schedule.'
               )}
-              {formData.publish_action === 'publish_now' && (
-                "The article will be immediately visible to all readers on the site."
+              {formData.next_status === 'published' && (
+                'The article will be immediately visible to all readers on the site.'
               )}
-              {formData.publish_action === 'schedule' && (
+              {formData.next_status === 'scheduled' && (
                 `The article will be published on ${formData.scheduled_date ? new Date(formData.scheduled_date).toLocaleString() : 'the selected date'}.`
               )}
+              {formData.next_status === 'draft' && (
+                selectedTransition?.requiresComment
+                  ? 'The article will go back to its author as a draft together with your comment.'
+                  : "The article will be taken off the site and saved as a draft."
+              )}
+              {formData.next_status === 'archived' && (
+                'The article will be removed from the site and kept in the archive.'
+              )}
             </div>
           </div>
         </div>
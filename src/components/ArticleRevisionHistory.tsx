@@ -0,0 +1,299 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase, ArticleRevision } from '../lib/supabase';
+import { DiffPart, diffTokens, htmlToText, tokenizeHtml, tokenizeText } from '../lib/diff';
+import { History, RotateCcw, User, Clock } from 'lucide-react';
+
+interface ArticleRevisionHistoryProps {
+  articleId: string;
+  onRestored?: () => void;
+}
+
+const METADATA_FIELDS: Array<{ key: keyof ArticleRevision; label: string }> = [
+  { key: 'slug', label: 'Slug' },
+  { key: 'excerpt', label: 'Excerpt' },
+  { key: 'author_name', label: 'Author' },
+  { key: 'category', label: 'Category' },
+  { key: 'featured_image_url', label: 'Featured image' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'reading_time', label: 'Reading time' },
+  { key: 'language', label: 'Language' },
+  { key: 'meta_title', label: 'Meta title' },
+  { key: 'meta_description', label: 'Meta description' }
+];
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.join(', ');
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+}
+
+function DiffPane({ parts, side }: { parts: DiffPart[]; side: 'before' | 'after' }) {
+  const hidden = side === 'before' ? 'added' : 'removed';
+  const highlight = side === 'before'
+    ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+    : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-900 rounded-lg text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-words font-mono max-h-[32rem] overflow-y-auto">
+      {parts.filter(part => part.type !== hidden).map((part, index) => (
+        <span key={index} className={part.type === 'equal' ? '' : highlight}>
+          {part.value}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export function ArticleRevisionHistory({ articleId, onRestored }: ArticleRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<ArticleRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState<'previous' | 'latest'>('previous');
+  const [mode, setMode] = useState<'text' | 'html'>('text');
+  const [restoring, setRestoring] = useState(false);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setError('');
+      const { data, error } = await supabase
+        .from('article_revisions')
+        .select('*')
+        .eq('article_id', articleId)
+        .order('revision_number', { ascending: false });
+
+      if (error) throw error;
+      setRevisions(data || []);
+      setSelectedId(prev => prev && data?.some(r => r.id === prev) ? prev : data?.[0]?.id || null);
+    } catch (error: any) {
+      console.error('Error fetching revisions:', error);
+      setError(error.message || 'Failed to load revision history');
+    } finally {
+      setLoading(false);
+    }
+  }, [articleId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const handleRestore = async (revision: ArticleRevision) => {
+    const confirmed = confirm(`Restore revision #${revision.revision_number}?\n\nThe current version stays in the history, so this can be undone.`);
+    if (!confirmed) return;
+
+    try {
+      setRestoring(true);
+      setError('');
+      setSuccess('');
+
+      const { error } = await supabase
+        .from('articles')
+        .update({
+          title: revision.title,
+          slug: revision.slug,
+          content: revision.content,
+          excerpt: revision.excerpt,
+          author_name: revision.author_name,
+          category: revision.category,
+          featured_image_url: revision.featured_image_url,
+          tags: revision.tags,
+          reading_time: revision.reading_time,
+          language: revision.language,
+          meta_title: revision.meta_title,
+          meta_description: revision.meta_description
+        })
+        .eq('id', articleId);
+
+      if (error) throw error;
+
+      setSuccess(`Revision #${revision.revision_number} restored`);
+      setTimeout(() => setSuccess(''), 3000);
+      await fetchRevisions();
+      onRestored?.();
+    } catch (error: any) {
+      console.error('Error restoring revision:', error);
+      setError(error.message || 'Failed to restore revision');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  // Revisions are newest first: "previous" is the next entry, "latest" the first
+  const baseline = compareWith === 'previous' ? revisions[selectedIndex + 1] : revisions[0];
+  const [before, after] = compareWith === 'previous' ? [baseline, selected] : [selected, baseline];
+
+  // Diffing a long article is slow; the pair only changes when another revision is
+  // picked, the comparison or view mode changes, or the list is refetched
+  const contentParts = useMemo(() => (before && after
+    ? mode === 'text'
+      ? diffTokens(tokenizeText(htmlToText(before.content)), tokenizeText(htmlToText(after.content)))
+      : diffTokens(tokenizeHtml(before.content), tokenizeHtml(after.content))
+    : []), [before, after, mode]);
+  const titleParts = useMemo(() => (before && after && before.title !== after.title
+    ? diffTokens(tokenizeText(before.title), tokenizeText(after.title))
+    : []), [before, after]);
+  const changedFields = before && after
+    ? METADATA_FIELDS.filter(({ key }) => formatValue(before[key]) !== formatValue(after[key]))
+    : [];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 md:p-8 mt-6">
+      <h2 className="text-2xl font-bold mb-4 text-gray-900 dark:text-white flex items-center gap-2">
+        <History className="h-6 w-6" />
+        Revision History
+      </h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-200 rounded-lg">
+          {success}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="animate-pulse h-10 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          ))}
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-4">No revisions recorded yet</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Revision List */}
+          <ul className="space-y-2 lg:max-h-[40rem] lg:overflow-y-auto">
+            {revisions.map((revision, index) => (
+              <li key={revision.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    revision.id === selectedId
+                      ? 'border-red-600 bg-red-50 dark:bg-red-900/30'
+                      : 'border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-gray-900 dark:text-white">#{revision.revision_number}</span>
+                    {index === 0 && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                        Current
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 mt-1">
+                    <User className="h-3 w-3" />
+                    {revision.editor_name || 'Unknown'}
+                  </div>
+                  <div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                    <Clock className="h-3 w-3" />
+                    {new Date(revision.created_at).toLocaleString()}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Diff */}
+          <div className="lg:col-span-3 space-y-4">
+            {selected && (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="flex flex-wrap gap-2">
+                    <select
+                      value={compareWith}
+                      onChange={(e) => setCompareWith(e.target.value as 'previous' | 'latest')}
+                      className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+                    >
+                      <option value="previous">Changes made in this revision</option>
+                      <option value="latest">Compare with current version</option>
+                    </select>
+                    <div className="flex space-x-1 bg-gray-100 dark:bg-gray-700 p-1 rounded-lg">
+                      {(['text', 'html'] as const).map(option => (
+                        <button
+                          key={option}
+                          type="button"
+                          onClick={() => setMode(option)}
+                          className={`px-3 py-1 rounded-md text-sm font-medium ${
+                            mode === option
+                              ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow'
+                              : 'text-gray-600 dark:text-gray-400'
+                          }`}
+                        >
+                          {option === 'text' ? 'Text' : 'HTML'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {selectedIndex > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(selected)}
+                      disabled={restoring}
+                      className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 font-medium"
+                      style={{ minHeight: '44px' }}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      {restoring ? 'Restoring...' : `Restore #${selected.revision_number}`}
+                    </button>
+                  )}
+                </div>
+
+                {!before || !after || before.id === after.id ? (
+                  <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+                    {compareWith === 'previous'
+                      ? 'This is the first recorded revision.'
+                      : 'This is the current version.'}
+                  </p>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 gap-4 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                      <span>Revision #{before.revision_number}</span>
+                      <span>Revision #{after.revision_number}</span>
+                    </div>
+
+                    {titleParts.length > 0 && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <DiffPane parts={titleParts} side="before" />
+                        <DiffPane parts={titleParts} side="after" />
+                      </div>
+                    )}
+
+                    {changedFields.length > 0 && (
+                      <div className="border border-gray-200 dark:border-gray-600 rounded-lg divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+                        {changedFields.map(({ key, label }) => (
+                          <div key={key} className="grid grid-cols-[8rem_1fr_1fr] gap-4 p-2">
+                            <span className="font-medium text-gray-700 dark:text-gray-300">{label}</span>
+                            <span className="text-red-700 dark:text-red-300 break-words">{formatValue(before[key])}</span>
+                            <span className="text-green-700 dark:text-green-300 break-words">{formatValue(after[key])}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {contentParts.some(part => part.type !== 'equal') ? (
+                      <div className="grid grid-cols-2 gap-4">
+                        <DiffPane parts={contentParts} side="before" />
+                        <DiffPane parts={contentParts} side="after" />
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">Content is unchanged.</p>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+import React, { useState, useMemo } from 'react';
+import { Save, X, Eye } from 'lucide-react';
+import { supabase, BreakingNews } from '../lib/supabase';
+import { toDateTimeLocal } from '../lib/dates';
+import {
+  BREAKING_NEWS_BADGE_CLASSES,
+  BREAKING_NEWS_STATUS_LABELS,
+  MAX_PRIORITY,
+  MIN_PRIORITY,
+  getBreakingNewsStatus
+} from '../lib/breakingNews';
+import { BreakingNewsTicker } from './EnhancedBreakingNewsBanner';
+
+interface BreakingNewsFormData {
+  title: string;
+  content: string;
+  link_url: string;
+  priority: number;
+  is_active: boolean;
+  starts_at: string;
+  expires_at: string;
+}
+
+interface BreakingNewsFormProps {
+  mode: 'create' | 'edit';
+  item?: BreakingNews;
+  onSaved: (message: string) => void;
+  onCancel: () => void;
+}
+
+const LINK_PATTERN = /^(?:https?:\/\/|\/)/i;
+
+const EXPIRY_PRESETS = [
+  { label: '1 hour', hours: 1 },
+  { label: '6 hours', hours: 6 },
+  { label: '24 hours', hours: 24 }
+];
+
+export function BreakingNewsForm({ mode, item, onSaved, onCancel }: BreakingNewsFormProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [formData, setFormData] = useState<BreakingNewsFormData>({
+    title: item?.title || '',
+    content: item?.content || '',
+    link_url: item?.link_url || '',
+    priority: item?.priority || MIN_PRIORITY,
+    is_active: item ? item.is_active : true,
+    starts_at: toDateTimeLocal(item?.starts_at || null),
+    expires_at: toDateTimeLocal(item?.expires_at || null)
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: type === 'checkbox'
+        ? (e.target as HTMLInputElement).checked
+        : name === 'priority' ? parseInt(value) || MIN_PRIORITY : value
+    }));
+  };
+
+  const setExpiryIn = (hours: number) => {
+    const from = formData.starts_at ? new Date(formData.starts_at).getTime() : Date.now();
+    setFormData(prev => ({ ...prev, expires_at: toDateTimeLocal(new Date(from + hours * 3600000)) }));
+  };
+
+  // What the saved row would look like, so the preview and status badge match the banner
+  const previewItem = useMemo<BreakingNews>(() => ({
+    id: item?.id || 'preview',
+    title: formData.title.trim() || 'Breaking news headline',
+    content: formData.content.trim() || null,
+    link_url: formData.link_url.trim() || null,
+    is_active: formData.is_active,
+    priority: formData.priority,
+    starts_at: formData.starts_at ? new Date(formData.starts_at).toISOString() : null,
+    expires_at: formData.expires_at ? new Date(formData.expires_at).toISOString() : null,
+    killed_at: null,
+    created_at: item?.created_at || new Date().toISOString(),
+    updated_at: new Date().toISOString()
+  }), [formData, item]);
+
+  const previewStatus = getBreakingNewsStatus(previewItem);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!formData.title.trim()) {
+      setError('Headline is required');
+      return;
+    }
+
+    if (formData.link_url.trim() && !LINK_PATTERN.test(formData.link_url.trim())) {
+      setError('Link must be an http(s) URL or a site path starting with /');
+      return;
+    }
+
+    if (formData.starts_at && formData.expires_at && new Date(formData.starts_at) >= new Date(formData.expires_at)) {
+      setError('Expiry must be after the start time');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const breakingNewsData = {
+        title: formData.title.trim(),
+        content: formData.content.trim() || null,
+        link_url: formData.link_url.trim() || null,
+        priority: Math.min(MAX_PRIORITY, Math.max(MIN_PRIORITY, formData.priority)),
+        is_active: formData.is_active,
+        starts_at: previewItem.starts_at,
+        expires_at: previewItem.expires_at,
+        // Switching a killed item back on clears the kill
+        ...(formData.is_active ? { killed_at: null } : {})
+      };
+
+      if (mode === 'create') {
+        const { error } = await supabase.from('breaking_news').insert([breakingNewsData]);
+        if (error) throw error;
+        onSaved('Breaking news created successfully!');
+      } else {
+        const { error } = await supabase.from('breaking_news').update(breakingNewsData).eq('id', item!.id);
+        if (error) throw error;
+        onSaved('Breaking news updated successfully!');
+      }
+    } catch (err: any) {
+      console.error('Error saving breaking news:', err);
+      setError(err.message || 'Failed to save breaking news');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+          {mode === 'create' ? 'New Breaking News' : 'Edit Breaking News'}
+        </h2>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded-lg"
+          style={{ minHeight: '44px', minWidth: '44px' }}
+          aria-label="Close form"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {/* Live Preview */}
+      <div className="mb-6">
+        <div className="flex items-center gap-2 mb-2 text-sm text-gray-600 dark:text-gray-400">
+          <Eye className="h-4 w-4" />
+          <span>Banner preview</span>
+          <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${BREAKING_NEWS_BADGE_CLASSES[previewStatus]}`}>
+            {BREAKING_NEWS_STATUS_LABELS[previewStatus]} on save
+          </span>
+        </div>
+        <div className="rounded-lg overflow-hidden">
+          <BreakingNewsTicker breakingNews={[previewItem]} showTicker={false} />
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="title" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Headline *
+          </label>
+          <input
+            id="title"
+            name="title"
+            type="text"
+            value={formData.title}
+            onChange={handleChange}
+            className={inputClass}
+            style={{ minHeight: '44px' }}
+            maxLength={200}
+            required
+            placeholder="What is happening right now?"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="content" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Details
+          </label>
+          <textarea
+            id="content"
+            name="content"
+            value={formData.content}
+            onChange={handleChange}
+            rows={2}
+            className={inputClass}
+            placeholder="Optional short summary"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="link_url" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Link
+            </label>
+            <input
+              id="link_url"
+              name="link_url"
+              type="text"
+              value={formData.link_url}
+              onChange={handleChange}
+              className={inputClass}
+              style={{ minHeight: '44px' }}
+              placeholder="https://... or /article/slug"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="priority" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Priority
+            </label>
+            <input
+              id="priority"
+              name="priority"
+              type="number"
+              min={MIN_PRIORITY}
+              max={MAX_PRIORITY}
+              value={formData.priority}
+              onChange={handleChange}
+              className={inputClass}
+              style={{ minHeight: '44px' }}
+            />
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Higher priority items are shown first
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="starts_at" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Start
+            </label>
+            <input
+              id="starts_at"
+              name="starts_at"
+              type="datetime-local"
+              value={formData.starts_at}
+              onChange={handleChange}
+              className={inputClass}
+              style={{ minHeight: '44px' }}
+            />
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Leave empty to go live as soon as it is saved
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="expires_at" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Expires
+            </label>
+            <input
+              id="expires_at"
+              name="expires_at"
+              type="datetime-local"
+              value={formData.expires_at}
+              onChange={handleChange}
+              className={inputClass}
+              style={{ minHeight: '44px' }}
+            />
+            <div className="mt-1 flex flex-wrap gap-2 text-sm">
+              {EXPIRY_PRESETS.map(preset => (
+                <button
+                  key={preset.hours}
+                  type="button"
+                  onClick={() => setExpiryIn(preset.hours)}
+                  className="text-red-600 hover:text-red-700 dark:text-red-400"
+                >
+                  +{preset.label}
+                </button>
+              ))}
+              {formData.expires_at && (
+                <button
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, expires_at: '' }))}
+                  className="text-gray-500 hover:text-gray-700 dark:text-gray-400"
+                >
+                  No expiry
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center">
+          <input
+            id="is_active"
+            name="is_active"
+            type="checkbox"
+            checked={formData.is_active}
+            onChange={handleChange}
+            className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+          />
+          <label htmlFor="is_active" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+            Active
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-6 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+            style={{ minHeight: '44px' }}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-2 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white rounded-lg transition-colors flex items-center gap-2"
+            style={{ minHeight: '44px' }}
+          >
+            <Save className="h-4 w-4" />
+            {saving ? 'Saving...' : mode === 'create' ? 'Create' : 'Save Changes'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
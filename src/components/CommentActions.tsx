@@ -5,6 +5,7 @@ import {
   X as RejectIcon, 
   Trash2, 
   Flag,
+  Ban,
   MoreHorizontal
 } from 'lucide-react';
 import {
@@ -23,6 +24,7 @@ interface CommentActionsProps {
   onReject: (commentId: string) => void;
   onMarkSpam: (commentId: string) => void;
   onDelete: (commentId: string) => void;
+  onBan?: (commentId: string) => void;
   size?: 'sm' | 'default' | 'lg';
   variant?: 'default' | 'destructive' | 'outline' | 'secondary' | 'ghost';
 }
@@ -35,6 +37,7 @@ export function CommentActions({
   onReject,
   onMarkSpam,
   onDelete,
+  onBan,
   size = 'default',
   variant = 'outline'
 }: CommentActionsProps) {
@@ -79,6 +82,16 @@ export function CommentActions({
             Mark as Spam
           </DropdownMenuItem>
         )}
+
+        {onBan && (
+          <DropdownMenuItem
+            onClick={() => handleAction(() => onBan(commentId))}
+            className="gap-2"
+          >
+            <Ban className="h-4 w-4" />
+            Ban Commenter...
+          </DropdownMenuItem>
+        )}
         
         <DropdownMenuSeparator />
         
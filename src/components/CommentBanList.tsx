@@ -0,0 +1,144 @@
+import React from 'react';
+import { CommentBan } from '../lib/supabase';
+import { COMMENT_BAN_KIND_LABELS, isCommentBanActive } from '../lib/comments';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from './ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+import { Ban, Plus } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+interface CommentBanListProps {
+  bans: CommentBan[];
+  loading: boolean;
+  onAdd: () => void;
+  onLift: (banId: string) => void;
+}
+
+// Single IPs are stored as /32 networks; show them the way they were entered
+function banTarget(ban: CommentBan): string {
+  if (ban.kind === 'email') return ban.email || '';
+  if (ban.kind === 'ip') return (ban.ip_range || '').replace(/\/(32|128)$/, '');
+  return ban.ip_range || '';
+}
+
+export function CommentBanList({ bans, loading, onAdd, onLift }: CommentBanListProps) {
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Ban className="h-5 w-5" />
+            Banned Commenters ({bans.filter(isCommentBanActive).length})
+          </CardTitle>
+          <Button onClick={onAdd} variant="outline" size="sm" className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Ban
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+          </div>
+        ) : bans.length === 0 ? (
+          <p className="text-center py-8 text-gray-600 dark:text-gray-400">No commenters are banned</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Banned</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead className="w-20">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bans.map((ban) => {
+                const active = isCommentBanActive(ban);
+                return (
+                  <TableRow key={ban.id} className={active ? '' : 'opacity-60'}>
+                    <TableCell>
+                      <p className="font-medium text-gray-900 dark:text-white break-all">
+                        {banTarget(ban)}
+                      </p>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {COMMENT_BAN_KIND_LABELS[ban.kind]}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <p className="text-sm text-gray-900 dark:text-white">
+                        {ban.reason || '—'}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      {!active ? (
+                        <Badge variant="secondary">Expired</Badge>
+                      ) : ban.expires_at ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400" title={format(new Date(ban.expires_at), 'PPpp')}>
+                          {formatDistanceToNow(new Date(ban.expires_at), { addSuffix: true })}
+                        </p>
+                      ) : (
+                        <Badge variant="destructive">Permanent</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {formatDistanceToNow(new Date(ban.created_at), { addSuffix: true })}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            {active ? 'Lift' : 'Remove'}
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>{active ? 'Lift Ban' : 'Remove Ban'}</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {active
+                                ? `${banTarget(ban)} will be able to comment again straight away.`
+                                : `Remove the expired ban on ${banTarget(ban)} from the list?`}
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => onLift(ban.id)}>
+                              {active ? 'Lift Ban' : 'Remove'}
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
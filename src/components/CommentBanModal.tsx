@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { Comment, CommentBan, CommentBanKind } from '../lib/supabase';
+import {
+  COMMENT_BAN_DURATIONS,
+  COMMENT_BAN_KIND_LABELS,
+  createCommentBan,
+  ipv4Range
+} from '../lib/comments';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { X, Ban } from 'lucide-react';
+
+interface CommentBanModalProps {
+  // The comment the ban is issued from; without one the form starts empty
+  comment: Comment | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onBanned: (ban: CommentBan) => void;
+}
+
+// What each kind of ban should be prefilled with for a given comment
+function defaultValue(kind: CommentBanKind, comment: Comment | null): string {
+  if (!comment) return '';
+  if (kind === 'email') return comment.author_email;
+  if (comment.author_ip === 'unknown') return '';
+  return kind === 'ip' ? comment.author_ip : ipv4Range(comment.author_ip) || '';
+}
+
+export function CommentBanModal({
+  comment,
+  isOpen,
+  onClose,
+  onBanned,
+}: CommentBanModalProps) {
+  const [kind, setKind] = useState<CommentBanKind>('email');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+  const [duration, setDuration] = useState('1');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setKind('email');
+    setValue(defaultValue('email', comment));
+    setReason('');
+    setDuration('1');
+    setError(null);
+  }, [isOpen, comment]);
+
+  if (!isOpen) return null;
+
+  const handleKindChange = (next: string) => {
+    const nextKind = next as CommentBanKind;
+    setKind(nextKind);
+    setValue(defaultValue(nextKind, comment));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!value.trim()) {
+      setError(`${COMMENT_BAN_KIND_LABELS[kind]} is required`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const ban = await createCommentBan({
+        kind,
+        value,
+        reason,
+        days: COMMENT_BAN_DURATIONS[Number(duration)].days,
+        commentId: comment?.id
+      });
+      onBanned(ban);
+      onClose();
+    } catch (err: any) {
+      console.error('Error creating comment ban:', err);
+      setError(err.message || 'Failed to create ban');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            {comment ? `Ban ${comment.author_name}` : 'Add Ban'}
+          </h2>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onClose}
+            className="h-8 w-8"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="ban-kind">Ban by</Label>
+            <Select value={kind} onValueChange={handleKindChange}>
+              <SelectTrigger id="ban-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(COMMENT_BAN_KIND_LABELS) as CommentBanKind[]).map(option => (
+                  <SelectItem key={option} value={option}>
+                    {COMMENT_BAN_KIND_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ban-value">{COMMENT_BAN_KIND_LABELS[kind]}</Label>
+            <Input
+              id="ban-value"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={kind === 'email' ? 'name@example.com' : kind === 'ip' ? '203.0.113.7' : '203.0.113.0/24'}
+            />
+            {comment && kind !== 'email' && comment.author_ip === 'unknown' && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No IP address was recorded for this comment.
+              </p>
+            )}
+            {kind === 'ip_range' && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Blocks every address in the network. Shared networks can catch other readers too.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ban-duration">Duration</Label>
+            <Select value={duration} onValueChange={setDuration}>
+              <SelectTrigger id="ban-duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COMMENT_BAN_DURATIONS.map((option, index) => (
+                  <SelectItem key={option.label} value={String(index)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ban-reason">Reason</Label>
+            <Textarea
+              id="ban-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Visible to moderators only"
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={saving} className="gap-2">
+              <Ban className="h-4 w-4" />
+              {saving ? 'Banning...' : 'Ban'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
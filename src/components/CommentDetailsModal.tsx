@@ -1,5 +1,6 @@
 import React from 'react';
 import { Comment } from '../lib/supabase';
+import { isRejectedComment, SPAM_REASON_LABELS } from '../lib/comments';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
@@ -13,7 +14,8 @@ import {
   User,
   Mail,
   Calendar,
-  MessageSquare
+  MessageSquare,
+  ShieldAlert
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -48,11 +50,22 @@ export function CommentDetailsModal({
       return <Badge variant="destructive">Spam</Badge>;
     } else if (comment.is_approved) {
       return <Badge variant="default">Approved</Badge>;
+    } else if (isRejectedComment(comment)) {
+      return <Badge variant="outline">Rejected</Badge>;
+    } else if (comment.held_for_review) {
+      return <Badge variant="outline">Held</Badge>;
     } else {
       return <Badge variant="secondary">Pending</Badge>;
     }
   };
 
+  const spamReasons = comment.spam_reasons || [];
+  const scoreColor = comment.spam_score >= 10
+    ? 'text-red-600 dark:text-red-400'
+    : comment.spam_score >= 4
+      ? 'text-yellow-600 dark:text-yellow-400'
+      : 'text-green-600 dark:text-green-400';
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white dark:bg-gray-800 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
@@ -95,6 +108,44 @@ export function CommentDetailsModal({
             </CardContent>
           </Card>
 
+          {/* Spam Check */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5" />
+                  Spam Check
+                </CardTitle>
+                <span className={`text-2xl font-bold ${scoreColor}`}>
+                  {comment.spam_score ?? 0}
+                </span>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {spamReasons.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  No spam signals were found when this comment was submitted.
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {spamReasons.map((reason, index) => (
+                    <li key={index} className="flex items-start justify-between gap-4 text-sm">
+                      <div>
+                        <p className="font-medium text-gray-900 dark:text-white">
+                          {SPAM_REASON_LABELS[reason.code] || reason.code}
+                        </p>
+                        <p className="text-gray-500 dark:text-gray-400">{reason.message}</p>
+                      </div>
+                      <span className="font-semibold text-gray-700 dark:text-gray-300 flex-shrink-0">
+                        +{reason.points}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Author Information */}
           <Card>
             <CardHeader>
@@ -0,0 +1,119 @@
+import React from 'react';
+import { Comment, CommentReportReason } from '../lib/supabase';
+import { COMMENT_REPORT_REASONS, ReportedComment } from '../lib/comments';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { AlertTriangle, Check, EyeOff, ThumbsUp } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface CommentReportQueueProps {
+  queue: ReportedComment[];
+  loading: boolean;
+  onView: (comment: Comment) => void;
+  onDismiss: (commentId: string) => void;
+  onHide: (commentId: string) => void;
+}
+
+function priorityVariant(priority: number): 'destructive' | 'default' | 'secondary' {
+  if (priority >= 6) return 'destructive';
+  if (priority >= 3) return 'default';
+  return 'secondary';
+}
+
+// Reason -> number of reports, most common first
+function reasonCounts(entry: ReportedComment): [CommentReportReason, number][] {
+  const counts = new Map<CommentReportReason, number>();
+  entry.reports.forEach(report => counts.set(report.reason, (counts.get(report.reason) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+}
+
+export function CommentReportQueue({ queue, loading, onView, onDismiss, onHide }: CommentReportQueueProps) {
+  if (!loading && queue.length === 0) return null;
+
+  return (
+    <Card className="mb-6 border-orange-300 dark:border-orange-700">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-orange-500" />
+          Reported by Readers ({queue.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {queue.map((entry) => {
+              const { comment, reports, priority } = entry;
+              const withDetails = reports.filter(report => report.details);
+
+              return (
+                <li key={comment.id} className="py-4 flex flex-col lg:flex-row lg:items-start gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      <Badge variant={priorityVariant(priority)} title="Weighted by report reason">
+                        Priority {priority}
+                      </Badge>
+                      {reasonCounts(entry).map(([reason, count]) => (
+                        <Badge key={reason} variant="outline">
+                          {COMMENT_REPORT_REASONS[reason]?.label || reason}{count > 1 ? ` ×${count}` : ''}
+                        </Badge>
+                      ))}
+                      {!comment.is_approved && <Badge variant="secondary">Hidden</Badge>}
+                    </div>
+
+                    <button
+                      onClick={() => onView(comment)}
+                      className="text-left font-medium text-gray-900 dark:text-white hover:underline"
+                    >
+                      {comment.content.length > 160
+                        ? `${comment.content.substring(0, 160)}...`
+                        : comment.content}
+                    </button>
+
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 flex flex-wrap items-center gap-x-2">
+                      <span>{comment.author_name}</span>
+                      <span>·</span>
+                      <span>{comment.article?.title || 'Unknown Article'}</span>
+                      <span>·</span>
+                      <span className="inline-flex items-center gap-1">
+                        <ThumbsUp className="h-3 w-3" />
+                        {comment.upvotes}
+                      </span>
+                      <span>·</span>
+                      <span>last reported {formatDistanceToNow(new Date(reports[0].created_at), { addSuffix: true })}</span>
+                    </p>
+
+                    {withDetails.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {withDetails.slice(0, 3).map(report => (
+                          <li key={report.id} className="text-sm text-gray-700 dark:text-gray-300 italic">
+                            "{report.details}"
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button onClick={() => onDismiss(comment.id)} variant="outline" size="sm" className="gap-2">
+                      <Check className="h-4 w-4" />
+                      Keep
+                    </Button>
+                    <Button onClick={() => onHide(comment.id)} variant="destructive" size="sm" className="gap-2">
+                      <EyeOff className="h-4 w-4" />
+                      Hide
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
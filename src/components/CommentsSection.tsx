@@ -1,6 +1,19 @@
-import React, { useState, useEffect } from 'react';
-import { MessageCircle, Send, User } from 'lucide-react';
-import { supabase, Comment } from '../lib/supabase';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ArrowUp, ChevronDown, ChevronRight, Clock, Flag, MessageCircle, Send, ThumbsUp, User } from 'lucide-react';
+import { supabase, Comment, CommentReportReason } from '../lib/supabase';
+import {
+  buildCommentThreads,
+  COMMENT_REPORT_REASONS,
+  CommentSort,
+  CommentThread,
+  getReportedComments,
+  getVotedComments,
+  PUBLIC_COMMENT_COLUMNS,
+  PublicComment,
+  reportComment,
+  submitComment,
+  voteComment
+} from '../lib/comments';
 import { useLanguage } from '../contexts/LanguageContext';
 
 interface CommentsSectionProps {
@@ -11,66 +24,203 @@ interface CommentFormData {
   author_name: string;
   author_email: string;
   content: string;
+  // Honeypot, see HoneypotField
+  website: string;
+}
+
+const EMPTY_FORM: CommentFormData = { author_name: '', author_email: '', content: '', website: '' };
+
+const THREADS_PER_PAGE = 10;
+const REPLIES_PER_PAGE = 5;
+// Subthreads start collapsed from this depth, and stop indenting further past it
+const COLLAPSE_DEPTH = 4;
+
+// Comments the reader just sent that are waiting for a moderator. Only the sender
+// sees them; they turn into regular comments once realtime reports the approval.
+interface OwnComment extends Pick<Comment, 'id' | 'parent_id' | 'author_name' | 'content' | 'created_at'> {
+  pending: true;
+}
+
+type DisplayedComment = CommentThread | OwnComment;
+
+function isOwnPending(comment: DisplayedComment): comment is OwnComment {
+  return 'pending' in comment;
 }
 
 export function CommentsSection({ articleId }: CommentsSectionProps) {
-  const [comments, setComments] = useState<Comment[]>([]);
+  const [comments, setComments] = useState<PublicComment[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
-  const [formData, setFormData] = useState<CommentFormData>({
-    author_name: '',
-    author_email: '',
-    content: ''
-  });
+  const [formData, setFormData] = useState<CommentFormData>(EMPTY_FORM);
   const [errors, setErrors] = useState<Partial<CommentFormData>>({});
   const [showReplyForm, setShowReplyForm] = useState<string | null>(null);
-  const [replyFormData, setReplyFormData] = useState<CommentFormData>({
-    author_name: '',
-    author_email: '',
-    content: ''
-  });
+  const [replyFormData, setReplyFormData] = useState<CommentFormData>(EMPTY_FORM);
+  // Approved comments that arrived over realtime but are not shown yet
+  const [incomingIds, setIncomingIds] = useState<string[]>([]);
+  const [ownPending, setOwnPending] = useState<OwnComment[]>([]);
+  const [visibleThreads, setVisibleThreads] = useState(THREADS_PER_PAGE);
+  const [visibleReplies, setVisibleReplies] = useState<Record<string, number>>({});
+  // Subthreads the reader opened or closed, flipping the depth-based default
+  const [toggledThreads, setToggledThreads] = useState<Set<string>>(new Set());
+  const [sortBy, setSortBy] = useState<CommentSort>('newest');
+  const [votedIds, setVotedIds] = useState<Set<string>>(getVotedComments);
+  const [reportedIds, setReportedIds] = useState<Set<string>>(getReportedComments);
+  const [reportingId, setReportingId] = useState<string | null>(null);
   const { t } = useLanguage();
 
+  const threads = useMemo(() => buildCommentThreads(comments, sortBy), [comments, sortBy]);
+  const commentCount = threads.reduce((total, thread) => total + 1 + thread.replyCount, 0);
+
+  // Realtime callbacks outlive renders, so they read the latest state through refs
+  const displayedIds = useRef<Set<string>>(new Set());
+  const ownPendingRef = useRef<OwnComment[]>([]);
+  const currentArticle = useRef(articleId);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    displayedIds.current = new Set(comments.map(comment => comment.id));
+  }, [comments]);
+
   useEffect(() => {
+    ownPendingRef.current = ownPending;
+  }, [ownPending]);
+
+  useEffect(() => {
+    currentArticle.current = articleId;
+    setLoading(true);
+    setComments([]);
+    setIncomingIds([]);
+    setOwnPending([]);
+    setShowReplyForm(null);
+    setVisibleThreads(THREADS_PER_PAGE);
+    setVisibleReplies({});
+    setToggledThreads(new Set());
     fetchComments();
+
+    // The comments table itself is closed to readers. A trigger broadcasts the id of
+    // every public comment that is added, changed, hidden or deleted, and the page reads
+    // it back through public_comments, so a forged message can only cause a refetch.
+    const channel = supabase
+      .channel(`article-comments:${articleId}`)
+      .on('broadcast', { event: 'comment_changed' }, ({ payload }) => {
+        if (typeof payload?.id === 'string') handleChanged(payload.id);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [articleId]);
 
+  const handleChanged = async (commentId: string) => {
+    const requestedArticle = articleId;
+    const { data: comment, error } = await supabase
+      .from('public_comments')
+      .select(PUBLIC_COMMENT_COLUMNS)
+      .eq('id', commentId)
+      .eq('article_id', articleId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching comment:', error);
+      return;
+    }
+    if (currentArticle.current !== requestedArticle) return;
+
+    // Gone from the view: rejected, marked as spam or deleted
+    if (!comment) {
+      handleRemoved(commentId);
+      return;
+    }
+    // Already shown: keep the vote count and any edit live
+    if (displayedIds.current.has(comment.id)) {
+      setComments(prev => prev.map(existing => existing.id === comment.id ? comment : existing));
+      return;
+    }
+
+    // The reader's own comment was approved: show it in place without the pill
+    const own = ownPendingRef.current.find(pending => pending.id === comment.id);
+    if (own) {
+      setOwnPending(prev => prev.filter(pending => pending.id !== comment.id));
+      fetchComments();
+      return;
+    }
+
+    setIncomingIds(prev => prev.includes(comment.id) ? prev : [...prev, comment.id]);
+  };
+
+  const handleRemoved = (commentId: string) => {
+    setIncomingIds(prev => prev.filter(id => id !== commentId));
+    setComments(prev => prev.filter(comment => comment.id !== commentId));
+  };
+
+  const showIncoming = async () => {
+    await fetchComments();
+    setIncomingIds([]);
+    listRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
   const fetchComments = async () => {
+    const requestedArticle = articleId;
     try {
+      // One query for the whole article; the reply tree is built client-side
       const { data, error } = await supabase
-        .from('comments')
-        .select('*')
+        .from('public_comments')
+        .select(PUBLIC_COMMENT_COLUMNS)
         .eq('article_id', articleId)
-        .eq('is_approved', true)
-        .eq('is_spam', false)
-        .is('parent_id', null)
-        .order('created_at', { ascending: false });
+        .order('created_at', { ascending: true });
 
       if (error) throw error;
 
-      // Fetch replies for each comment
-      const commentsWithReplies = await Promise.all(
-        data.map(async (comment) => {
-          const { data: replies } = await supabase
-            .from('comments')
-            .select('*')
-            .eq('parent_id', comment.id)
-            .eq('is_approved', true)
-            .eq('is_spam', false)
-            .order('created_at', { ascending: true });
-
-          return { ...comment, replies: replies || [] };
-        })
-      );
-
-      setComments(commentsWithReplies);
+      // The reader may have moved on to another article while this was loading
+      if (currentArticle.current !== requestedArticle) return;
+      setComments(data || []);
+      // Anything the "new comments" pill was holding back is on screen now
+      const fetchedIds = new Set((data || []).map(comment => comment.id));
+      setIncomingIds(prev => prev.filter(id => !fetchedIds.has(id)));
     } catch (error) {
       console.error('Error fetching comments:', error);
     } finally {
-      setLoading(false);
+      if (currentArticle.current === requestedArticle) setLoading(false);
+    }
+  };
+
+  const handleVote = async (comment: CommentThread) => {
+    const upvote = !votedIds.has(comment.id);
+    try {
+      const upvotes = await voteComment(comment.id, upvote);
+      setComments(prev => prev.map(existing =>
+        existing.id === comment.id ? { ...existing, upvotes } : existing
+      ));
+      setVotedIds(getVotedComments());
+    } catch (error: any) {
+      console.error('Error voting on comment:', error);
+      alert(error.message || 'Failed to record your vote. Please try again.');
     }
   };
 
+  const handleReport = async (commentId: string, reason: CommentReportReason, details: string) => {
+    try {
+      await reportComment(commentId, reason, details);
+      setReportedIds(getReportedComments());
+      setReportingId(null);
+    } catch (error: any) {
+      console.error('Error reporting comment:', error);
+      alert(error.message || 'Failed to send your report. Please try again.');
+    }
+  };
+
+  const addOwnPending = (id: string, parentId: string | null, data: CommentFormData) => {
+    setOwnPending(prev => [...prev, {
+      id,
+      parent_id: parentId,
+      author_name: data.author_name.trim(),
+      content: data.content.trim(),
+      created_at: new Date().toISOString(),
+      pending: true
+    }]);
+  };
+
   const validateForm = (data: CommentFormData): Partial<CommentFormData> => {
     const newErrors: Partial<CommentFormData> = {};
 
@@ -105,30 +255,24 @@ export function CommentsSection({ articleId }: CommentsSectionProps) {
     }
 
     try {
-      // Get client IP
-      const response = await fetch('https://api.ipify.org?format=json');
-      const { ip } = await response.json();
-
-      const { error } = await supabase
-        .from('comments')
-        .insert([
-          {
-            ...formData,
-            article_id: articleId,
-            author_ip: ip,
-            is_approved: false, // Require moderation
-            is_spam: false
-          }
-        ]);
-
-      if (error) throw error;
-
-      setFormData({ author_name: '', author_email: '', content: '' });
+      const { id, status } = await submitComment({
+        articleId,
+        authorName: formData.author_name,
+        authorEmail: formData.author_email,
+        content: formData.content,
+        website: formData.website
+      });
+
+      if (status === 'published') {
+        fetchComments();
+      } else {
+        addOwnPending(id, null, formData);
+      }
+      setFormData(EMPTY_FORM);
       setErrors({});
-      alert('Comment submitted successfully! It will be visible after moderation.');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error submitting comment:', error);
-      alert('Failed to submit comment. Please try again.');
+      alert(error.message || 'Failed to submit comment. Please try again.');
     } finally {
       setSubmitting(false);
     }
@@ -144,31 +288,26 @@ export function CommentsSection({ articleId }: CommentsSectionProps) {
     setSubmitting(true);
 
     try {
-      const response = await fetch('https://api.ipify.org?format=json');
-      const { ip } = await response.json();
-
-      const { error } = await supabase
-        .from('comments')
-        .insert([
-          {
-            ...replyFormData,
-            article_id: articleId,
-            author_ip: ip,
-            parent_id: parentId,
-            is_approved: false,
-            is_spam: false
-          }
-        ]);
-
-      if (error) throw error;
-
-      setReplyFormData({ author_name: '', author_email: '', content: '' });
+      const { id, status } = await submitComment({
+        articleId,
+        parentId,
+        authorName: replyFormData.author_name,
+        authorEmail: replyFormData.author_email,
+        content: replyFormData.content,
+        website: replyFormData.website
+      });
+
+      if (status === 'published') {
+        fetchComments();
+      } else {
+        addOwnPending(id, parentId, replyFormData);
+      }
+      setReplyFormData(EMPTY_FORM);
       setShowReplyForm(null);
       setErrors({});
-      alert('Reply submitted successfully! It will be visible after moderation.');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error submitting reply:', error);
-      alert('Failed to submit reply. Please try again.');
+      alert(error.message || 'Failed to submit reply. Please try again.');
     } finally {
       setSubmitting(false);
     }
@@ -185,51 +324,149 @@ export function CommentsSection({ articleId }: CommentsSectionProps) {
     });
   };
 
-  const CommentItem = ({ comment, isReply = false }: { comment: Comment; isReply?: boolean }) => (
-    <div className={`${isReply ? 'ml-8 border-l-2 border-gray-200 pl-4' : ''} mb-6`}>
-      <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
-        <div className="flex items-center gap-3 mb-3">
-          <div className="w-10 h-10 bg-blue-100 dark:bg-blue-900 rounded-full flex items-center justify-center">
-            <User className="h-5 w-5 text-blue-600 dark:text-blue-400" />
-          </div>
-          <div>
-            <h4 className="font-semibold text-gray-900 dark:text-white">{comment.author_name}</h4>
-            <p className="text-sm text-gray-500 dark:text-gray-400">{formatDate(comment.created_at)}</p>
+  const isCollapsed = (commentId: string, depth: number) =>
+    (depth >= COLLAPSE_DEPTH) !== toggledThreads.has(commentId);
+
+  const toggleThread = (commentId: string) => {
+    setToggledThreads(prev => {
+      const next = new Set(prev);
+      if (next.has(commentId)) {
+        next.delete(commentId);
+      } else {
+        next.add(commentId);
+      }
+      return next;
+    });
+  };
+
+  const showMoreReplies = (commentId: string) => {
+    setVisibleReplies(prev => ({
+      ...prev,
+      [commentId]: (prev[commentId] || REPLIES_PER_PAGE) + REPLIES_PER_PAGE
+    }));
+  };
+
+  // A plain render function rather than a nested component, so open reply forms keep
+  // their focus when the list re-renders
+  const renderComment = (comment: DisplayedComment, depth = 0): React.ReactNode => {
+    const pending = isOwnPending(comment);
+    const replies = pending ? [] : comment.replies;
+    const ownReplies = ownPending.filter(own => own.parent_id === comment.id);
+    const replyLimit = visibleReplies[comment.id] || REPLIES_PER_PAGE;
+    const hiddenReplies = replies.length - replyLimit;
+    const collapsed = !pending && isCollapsed(comment.id, depth);
+    const hasReplies = replies.length + ownReplies.length > 0;
+
+    return (
+      <div key={comment.id} className={`${depth > 0 ? `${depth <= COLLAPSE_DEPTH ? 'ml-8' : ''} border-l-2 border-gray-200 pl-4` : ''} mb-6`}>
+        <div className={`bg-gray-50 dark:bg-gray-800 rounded-lg p-4 ${pending ? 'border border-dashed border-yellow-400 dark:border-yellow-600' : ''}`}>
+          <div className="flex items-center gap-3 mb-3">
+            <div className="w-10 h-10 bg-blue-100 dark:bg-blue-900 rounded-full flex items-center justify-center">
+              <User className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+            </div>
+            <div className="flex-1">
+              <h4 className="font-semibold text-gray-900 dark:text-white">{comment.author_name}</h4>
+              <p className="text-sm text-gray-500 dark:text-gray-400">{formatDate(comment.created_at)}</p>
+            </div>
+            {pending && (
+              <span className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300 rounded-full">
+                <Clock className="h-3 w-3" />
+                Awaiting moderation
+              </span>
+            )}
           </div>
+          <p className="text-gray-800 dark:text-gray-200 mb-4">{comment.content}</p>
+          {pending ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Only you can see this comment until a moderator approves it.
+            </p>
+          ) : (
+            <div className="flex flex-wrap items-center gap-4">
+              <button
+                onClick={() => handleVote(comment)}
+                aria-pressed={votedIds.has(comment.id)}
+                aria-label={votedIds.has(comment.id) ? 'Remove upvote' : 'Upvote'}
+                className={`inline-flex items-center gap-1 text-sm ${
+                  votedIds.has(comment.id)
+                    ? 'text-blue-600 dark:text-blue-400 font-semibold'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400'
+                }`}
+              >
+                <ThumbsUp className={`h-4 w-4 ${votedIds.has(comment.id) ? 'fill-current' : ''}`} />
+                {comment.upvotes || 0}
+              </button>
+              <button
+                onClick={() => setShowReplyForm(showReplyForm === comment.id ? null : comment.id)}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Reply
+              </button>
+              {hasReplies && (
+                <button
+                  onClick={() => toggleThread(comment.id)}
+                  aria-expanded={!collapsed}
+                  className="inline-flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:underline"
+                >
+                  {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  {collapsed
+                    ? `Show ${comment.replyCount + ownReplies.length} ${comment.replyCount + ownReplies.length === 1 ? 'reply' : 'replies'}`
+                    : 'Hide replies'}
+                </button>
+              )}
+              {reportedIds.has(comment.id) ? (
+                <span className="ml-auto text-sm text-gray-500 dark:text-gray-400">Reported</span>
+              ) : (
+                <button
+                  onClick={() => setReportingId(reportingId === comment.id ? null : comment.id)}
+                  className="ml-auto inline-flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                >
+                  <Flag className="h-4 w-4" />
+                  Report
+                </button>
+              )}
+            </div>
+          )}
         </div>
-        <p className="text-gray-800 dark:text-gray-200 mb-4">{comment.content}</p>
-        {!isReply && (
-          <button
-            onClick={() => setShowReplyForm(showReplyForm === comment.id ? null : comment.id)}
-            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
-          >
-            Reply
-          </button>
+
+        {reportingId === comment.id && (
+          <div className="mt-4 ml-8">
+            <ReportForm
+              onSubmit={(reason, details) => handleReport(comment.id, reason, details)}
+              onCancel={() => setReportingId(null)}
+            />
+          </div>
         )}
-      </div>
 
-      {showReplyForm === comment.id && (
-        <div className="mt-4 ml-8">
-          <ReplyForm
-            onSubmit={() => handleReplySubmit(comment.id)}
-            onCancel={() => setShowReplyForm(null)}
-            formData={replyFormData}
-            setFormData={setReplyFormData}
-            errors={errors}
-            submitting={submitting}
-          />
-        </div>
-      )}
+        {showReplyForm === comment.id && (
+          <div className="mt-4 ml-8">
+            <ReplyForm
+              onSubmit={() => handleReplySubmit(comment.id)}
+              onCancel={() => setShowReplyForm(null)}
+              formData={replyFormData}
+              setFormData={setReplyFormData}
+              errors={errors}
+              submitting={submitting}
+            />
+          </div>
+        )}
 
-      {comment.replies && comment.replies.length > 0 && (
-        <div className="mt-4">
-          {comment.replies.map(reply => (
-            <CommentItem key={reply.id} comment={reply} isReply={true} />
-          ))}
-        </div>
-      )}
-    </div>
-  );
+        {hasReplies && !collapsed && (
+          <div className="mt-4">
+            {replies.slice(0, replyLimit).map(reply => renderComment(reply, depth + 1))}
+            {hiddenReplies > 0 && (
+              <button
+                onClick={() => showMoreReplies(comment.id)}
+                className="ml-8 mb-6 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Show more replies ({hiddenReplies})
+              </button>
+            )}
+            {ownReplies.map(reply => renderComment(reply, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
 
   if (loading) {
     return (
@@ -240,11 +477,11 @@ export function CommentsSection({ articleId }: CommentsSectionProps) {
   }
 
   return (
-    <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg">
+    <div id="comments" className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg scroll-mt-24">
       <div className="flex items-center gap-3 mb-6">
         <MessageCircle className="h-6 w-6 text-gray-600 dark:text-gray-400" />
         <h3 className="text-xl font-bold text-gray-900 dark:text-white">
-          Comments ({comments.reduce((total, comment) => total + 1 + (comment.replies?.length || 0), 0)})
+          Comments ({commentCount})
         </h3>
       </div>
 
@@ -260,16 +497,59 @@ export function CommentsSection({ articleId }: CommentsSectionProps) {
         />
       </div>
 
+      {threads.length > 1 && (
+        <div className="flex justify-end items-center gap-2 mb-4">
+          <label htmlFor="comment-sort" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Sort by
+          </label>
+          <select
+            id="comment-sort"
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as CommentSort)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white"
+          >
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+            <option value="top">Top comments</option>
+          </select>
+        </div>
+      )}
+
       {/* Comments List */}
-      <div className="space-y-6">
-        {comments.length === 0 ? (
+      <div ref={listRef} className="space-y-6 scroll-mt-24">
+        {incomingIds.length > 0 && (
+          <div className="sticky top-4 z-10 flex justify-center">
+            <button
+              onClick={showIncoming}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-full shadow-lg hover:bg-blue-700 transition-colors"
+              style={{ minHeight: '44px' }}
+            >
+              <ArrowUp className="h-4 w-4" />
+              {incomingIds.length === 1 ? '1 new comment' : `${incomingIds.length} new comments`}
+            </button>
+          </div>
+        )}
+
+        {ownPending.filter(own => !own.parent_id).reverse().map(own => renderComment(own))}
+
+        {threads.length === 0 && ownPending.length === 0 ? (
           <p className="text-gray-500 dark:text-gray-400 text-center py-8">
             No comments yet. Be the first to comment!
           </p>
         ) : (
-          comments.map(comment => (
-            <CommentItem key={comment.id} comment={comment} />
-          ))
+          threads.slice(0, visibleThreads).map(thread => renderComment(thread))
+        )}
+
+        {threads.length > visibleThreads && (
+          <div className="text-center">
+            <button
+              onClick={() => setVisibleThreads(prev => prev + THREADS_PER_PAGE)}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              style={{ minHeight: '44px' }}
+            >
+              Load more comments ({threads.length - visibleThreads} more)
+            </button>
+          </div>
         )}
       </div>
     </div>
@@ -291,6 +571,7 @@ function CommentForm({
 }) {
   return (
     <form onSubmit={onSubmit} className="space-y-4">
+      <HoneypotField value={formData.website} onChange={(website) => setFormData({ ...formData, website })} />
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -321,6 +602,9 @@ function CommentForm({
             placeholder="your@email.com"
           />
           {errors.author_email && <p className="text-red-500 text-sm mt-1">{errors.author_email}</p>}
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Not published. We'll email you when your comment is approved or gets a reply.
+          </p>
         </div>
       </div>
       <div>
@@ -369,6 +653,7 @@ function ReplyForm({
     <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4">
       <h5 className="font-semibold text-gray-900 dark:text-white mb-3">Reply</h5>
       <div className="space-y-3">
+        <HoneypotField value={formData.website} onChange={(website) => setFormData({ ...formData, website })} />
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
           <input
             type="text"
@@ -410,4 +695,90 @@ function ReplyForm({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function ReportForm({
+  onSubmit,
+  onCancel
+}: {
+  onSubmit: (reason: CommentReportReason, details: string) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [reason, setReason] = useState<CommentReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) return;
+
+    setSending(true);
+    await onSubmit(reason, details);
+    setSending(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4">
+      <h5 className="font-semibold text-gray-900 dark:text-white mb-3">Report comment</h5>
+      <fieldset className="space-y-2 mb-3">
+        <legend className="text-sm text-gray-600 dark:text-gray-400 mb-2">What's wrong with this comment?</legend>
+        {(Object.keys(COMMENT_REPORT_REASONS) as CommentReportReason[]).map(option => (
+          <label key={option} className="flex items-center gap-2 text-sm text-gray-800 dark:text-gray-200">
+            <input
+              type="radio"
+              name="report-reason"
+              value={option}
+              checked={reason === option}
+              onChange={() => setReason(option)}
+            />
+            {COMMENT_REPORT_REASONS[option].label}
+          </label>
+        ))}
+      </fieldset>
+      <textarea
+        value={details}
+        onChange={(e) => setDetails(e.target.value)}
+        rows={2}
+        maxLength={500}
+        className="w-full px-3 py-2 mb-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white"
+        placeholder="Anything the moderators should know? (optional)"
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!reason || sending}
+          className="px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700 disabled:opacity-50"
+        >
+          {sending ? 'Sending...' : 'Send report'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 bg-gray-600 text-white text-sm rounded hover:bg-gray-700"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Off-screen field that people never see or reach with the keyboard; bots that fill
+// in every input give themselves away to the spam filter
+function HoneypotField({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <div aria-hidden="true" className="absolute -left-[10000px] w-px h-px overflow-hidden">
+      <label>
+        Website
+        <input
+          type="text"
+          name="website"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          tabIndex={-1}
+          autoComplete="off"
+        />
+      </label>
+    </div>
+  );
+}
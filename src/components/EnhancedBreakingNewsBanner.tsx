@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { supabase, BreakingNews } from '../lib/supabase';
+import { BreakingNews } from '../lib/supabase';
+import { useBreakingNews } from '../hooks/useBreakingNews';
 import { AlertTriangle, X, Clock, ExternalLink } from 'lucide-react';
 
 interface EnhancedBreakingNewsBannerProps {
@@ -8,39 +9,45 @@ interface EnhancedBreakingNewsBannerProps {
   className?: string;
 }
 
+interface BreakingNewsTickerProps {
+  breakingNews: BreakingNews[];
+  loading?: boolean;
+  showTicker?: boolean;
+  className?: string;
+}
+
 export function EnhancedBreakingNewsBanner({ 
   maxItems = 3, 
   showTicker = true,
   className = ""
 }: EnhancedBreakingNewsBannerProps) {
-  const [breakingNews, setBreakingNews] = useState<BreakingNews[]>([]);
+  const { breakingNews, loading } = useBreakingNews(maxItems);
+
+  return (
+    <BreakingNewsTicker
+      breakingNews={breakingNews}
+      loading={loading}
+      showTicker={showTicker}
+      className={className}
+    />
+  );
+}
+
+// Rendering only, so the breaking news console can preview items that are not live yet
+export function BreakingNewsTicker({
+  breakingNews,
+  loading = false,
+  showTicker = true,
+  className = ""
+}: BreakingNewsTickerProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isVisible, setIsVisible] = useState(true);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    fetchBreakingNews();
-    // Set up realtime subscription for breaking news
-    const subscription = supabase
-      .channel('breaking-news-changes')
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'breaking_news' },
-        () => {
-          fetchBreakingNews();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, []);
 
   useEffect(() => {
     if (breakingNews.length > 1) {
       const interval = setInterval(() => {
         setCurrentIndex((prevIndex) => 
-          prevIndex === breakingNews.length - 1 ? 0 : prevIndex + 1
+          prevIndex >= breakingNews.length - 1 ? 0 : prevIndex + 1
         );
       }, 4000); // Change every 4 seconds
 
@@ -48,39 +55,6 @@ export function EnhancedBreakingNewsBanner({
     }
   }, [breakingNews]);
 
-  const fetchBreakingNews = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('breaking_news')
-        .select('*')
-        .eq('is_active', true)
-        .order('priority', { ascending: false })
-        .limit(maxItems);
-
-      if (error) throw error;
-
-      // Filter out expired news
-      const now = new Date();
-      const validNews = data?.filter(item => {
-        if (item.expires_at && new Date(item.expires_at) < now) return false;
-        return true;
-      }) || [];
-
-      setBreakingNews(validNews);
-    } catch (error) {
-      console.error('Error fetching breaking news:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const dismissItem = (id: string) => {
-    setBreakingNews(prev => prev.filter(item => item.id !== id));
-    if (currentIndex >= breakingNews.length - 1) {
-      setCurrentIndex(0);
-    }
-  };
-
   const handleLinkClick = async (news: BreakingNews) => {
     if (news.link_url) {
       // Track click analytics here if needed
@@ -105,7 +79,8 @@ export function EnhancedBreakingNewsBanner({
 
   if (!breakingNews.length || !isVisible) return null;
 
-  const currentNews = breakingNews[currentIndex];
+  // A killed item can shrink the list under the current index
+  const currentNews = breakingNews[currentIndex] || breakingNews[0];
 
   return (
     <div className={`bg-gradient-to-r from-red-600 to-red-700 text-white ${className}`}>
@@ -1,67 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Menu, X, Search, User, UserPlus, LogOut, Moon, Sun } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useSiteContent } from '../hooks/useSiteContent';
-import { supabase } from '../lib/supabase';
+import { usePermission } from '../hooks/usePermission';
+import { useBreakingNews } from '../hooks/useBreakingNews';
 import { SearchBar } from './SearchBar';
 
 export function Header() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [searchOpen, setSearchOpen] = useState(false);
   const [darkMode, setDarkMode] = useState(false);
-  const [breakingNews, setBreakingNews] = useState<string>('');
   const [showBreaking, setShowBreaking] = useState(true);
   const { user, profile, signOut } = useAuth();
   const { language, toggleLanguage, t } = useLanguage();
   const { getContent } = useSiteContent();
+  const canViewDashboard = usePermission('dashboard.view');
+  const { breakingNews } = useBreakingNews(1);
   const navigate = useNavigate();
 
-  useEffect(() => {
-    fetchBreakingNews();
-
-    // Set up realtime subscription for breaking_news table
-    const breakingNewsSubscription = supabase
-      .channel('breaking-news-changes')
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'breaking_news' },
-        (payload) => {
-          console.log('Realtime breaking_news change detected:', payload);
-          fetchBreakingNews();
-        }
-      )
-      .subscribe((status) => {
-        console.log('Breaking news realtime subscription status:', status);
-      });
-
-    return () => {
-      console.log('Unsubscribing from breaking news changes');
-      breakingNewsSubscription.unsubscribe();
-    };
-  }, []);
-
-  const fetchBreakingNews = async () => {
-    try {
-      const { data } = await supabase
-        .from('breaking_news')
-        .select('*')
-        .eq('is_active', true)
-        .order('priority', { ascending: false })
-        .limit(1)
-        .single();
-      
-      if (data) {
-        setBreakingNews(data.title);
-      } else {
-        setBreakingNews('');
-      }
-    } catch (error) {
-      console.error('Error fetching breaking news:', error);
-      setBreakingNews('');
-    }
-  };
-
   const toggleDarkMode = () => {
     setDarkMode(!darkMode);
     document.documentElement.classList.toggle('dark');
@@ -74,12 +32,12 @@ export function Header() {
   return (
     <>
       {/* Breaking News Banner */}
-      {breakingNews && showBreaking && (
+      {breakingNews.length > 0 && showBreaking && (
         <div className="bg-red-600 text-white py-2 px-4">
           <div className="container mx-auto flex items-center justify-between">
             <div className="flex items-center gap-2 flex-1 min-w-0">
               <span className="font-bold text-sm whitespace-nowrap">{t('header.breaking')}:</span>
-              <span className="text-sm truncate">{breakingNews}</span>
+              <span className="text-sm truncate">{breakingNews[0].title}</span>
             </div>
             <button
               onClick={() => setShowBreaking(false)}
@@ -201,7 +159,7 @@ export function Header() {
                   <span className="text-sm text-gray-600 dark:text-gray-400">
                     {t('header.welcome')}, {profile?.full_name || user.email}
                   </span>
-                  {profile?.role === 'admin' && (
+                  {canViewDashboard && (
                     <Link
                       to="/admin"
                       className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
@@ -364,7 +322,7 @@ export function Header() {
           <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-2">
             {user ? (
               <>
-                {profile?.role === 'admin' && (
+                {canViewDashboard && (
                   <Link
                     to="/admin"
                     className="block px-4 py-3 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors text-center"
@@ -0,0 +1,350 @@
+import React, { useEffect, useState } from 'react';
+import { Article, Comment } from '../lib/supabase';
+import { ModerationDecision, SPAM_REASON_LABELS } from '../lib/comments';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from './ui/alert-dialog';
+import {
+  Ban,
+  Check,
+  CheckCheck,
+  ExternalLink,
+  Flag,
+  Keyboard,
+  SkipForward,
+  Undo2,
+  X as RejectIcon
+} from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface ModerationQueueProps {
+  // Pending comments in the order they should be reviewed
+  queue: Comment[];
+  // Every loaded comment, for reply context and the author's history
+  allComments: Comment[];
+  articles: Article[];
+  // Shortcuts are ignored while a dialog (e.g. the ban form) is open
+  paused: boolean;
+  lastActionLabel: string | null;
+  onDecision: (comment: Comment, decision: ModerationDecision) => void;
+  onBan: (comment: Comment) => void;
+  onUndo: () => void;
+  onApproveAll: () => void;
+  onExit: () => void;
+}
+
+const SHORTCUTS: { key: string; label: string }[] = [
+  { key: 'A', label: 'Approve' },
+  { key: 'R', label: 'Reject' },
+  { key: 'S', label: 'Spam' },
+  { key: 'B', label: 'Ban commenter' },
+  { key: 'J', label: 'Skip' },
+  { key: 'U', label: 'Undo last action' },
+  { key: '?', label: 'Show or hide shortcuts' },
+  { key: 'Esc', label: 'Leave queue mode' }
+];
+
+function isTyping(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return !!element && (
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName) || element.isContentEditable
+  );
+}
+
+export function ModerationQueue({
+  queue,
+  allComments,
+  articles,
+  paused,
+  lastActionLabel,
+  onDecision,
+  onBan,
+  onUndo,
+  onApproveAll,
+  onExit
+}: ModerationQueueProps) {
+  // Skipped comments stay pending; they are just set aside until the rest are done
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [showShortcuts, setShowShortcuts] = useState(false);
+
+  const current = queue.find(comment => !skipped.has(comment.id)) || null;
+  const article = current ? articles.find(a => a.id === current.article_id) : undefined;
+  const parent = current?.parent_id ? allComments.find(c => c.id === current.parent_id) : undefined;
+  const history = current
+    ? allComments.filter(c => c.author_email === current.author_email && c.id !== current.id)
+    : [];
+
+  const skip = (comment: Comment) => {
+    setSkipped(prev => new Set(prev).add(comment.id));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (paused || isTyping(event.target) || event.altKey) return;
+
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+        event.preventDefault();
+        onUndo();
+        return;
+      }
+      if (event.ctrlKey || event.metaKey) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'escape') {
+        onExit();
+        return;
+      }
+      if (key === '?') {
+        setShowShortcuts(prev => !prev);
+        return;
+      }
+      if (key === 'u') {
+        onUndo();
+        return;
+      }
+      if (!current) return;
+
+      const actions: Record<string, () => void> = {
+        a: () => onDecision(current, 'approve'),
+        r: () => onDecision(current, 'reject'),
+        s: () => onDecision(current, 'spam'),
+        b: () => onBan(current),
+        j: () => skip(current)
+      };
+      if (actions[key]) {
+        event.preventDefault();
+        actions[key]();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [current, paused, onDecision, onBan, onUndo, onExit]);
+
+  return (
+    <div className="space-y-4">
+      {/* Queue header */}
+      <Card>
+        <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <p className="font-semibold text-gray-900 dark:text-white">
+              {queue.length} pending {queue.length === 1 ? 'comment' : 'comments'}
+              {skipped.size > 0 && <span className="font-normal text-gray-500 dark:text-gray-400"> · {skipped.size} skipped</span>}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Oldest first. Search and article filters apply to the queue.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => setShowShortcuts(prev => !prev)} variant="outline" size="sm" className="gap-2">
+              <Keyboard className="h-4 w-4" />
+              Shortcuts
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2" disabled={queue.length === 0}>
+                  <CheckCheck className="h-4 w-4" />
+                  Approve All ({queue.length})
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Approve All Pending Comments</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Approve all {queue.length} pending comment(s) that match the current filters? They will appear on the site straight away. You can undo this afterwards.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={onApproveAll}>Approve All</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+            <Button onClick={onExit} variant="ghost" size="sm">
+              Exit Queue
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {showShortcuts && (
+        <Card>
+          <CardContent className="p-4">
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {SHORTCUTS.map(shortcut => (
+                <div key={shortcut.key} className="flex items-center gap-2 text-sm">
+                  <dt>
+                    <kbd className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-700 font-mono text-xs">
+                      {shortcut.key}
+                    </kbd>
+                  </dt>
+                  <dd className="text-gray-700 dark:text-gray-300">{shortcut.label}</dd>
+                </div>
+              ))}
+            </dl>
+          </CardContent>
+        </Card>
+      )}
+
+      {!current ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <CheckCheck className="h-12 w-12 text-green-500 mx-auto mb-4" />
+            {skipped.size > 0 ? (
+              <>
+                <p className="text-gray-900 dark:text-white font-medium mb-4">
+                  Only skipped comments are left.
+                </p>
+                <Button onClick={() => setSkipped(new Set())} variant="outline">
+                  Review {skipped.size} skipped
+                </Button>
+              </>
+            ) : (
+              <p className="text-gray-900 dark:text-white font-medium">
+                The queue is empty. Nice work.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* The comment */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="text-lg">{current.author_name}</CardTitle>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {current.author_email} · {current.author_ip} · {formatDistanceToNow(new Date(current.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                {current.held_for_review && (
+                  <Badge variant="outline" title={`Spam score ${current.spam_score}`}>Held</Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {parent && (
+                <div className="border-l-4 border-gray-300 dark:border-gray-600 pl-3">
+                  <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+                    In reply to {parent.author_name}
+                  </p>
+                  <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-3">{parent.content}</p>
+                </div>
+              )}
+
+              <div className="bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
+                <p className="text-gray-900 dark:text-white whitespace-pre-wrap text-lg">
+                  {current.content}
+                </p>
+              </div>
+
+              {current.spam_reasons?.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {current.spam_reasons.map((reason, index) => (
+                    <Badge key={index} variant="secondary" title={reason.message}>
+                      {SPAM_REASON_LABELS[reason.code] || reason.code} +{reason.points}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2 pt-2">
+                <Button onClick={() => onDecision(current, 'approve')} className="gap-2">
+                  <Check className="h-4 w-4" />
+                  Approve <kbd className="ml-1 text-xs opacity-70">A</kbd>
+                </Button>
+                <Button onClick={() => onDecision(current, 'reject')} variant="outline" className="gap-2">
+                  <RejectIcon className="h-4 w-4" />
+                  Reject <kbd className="ml-1 text-xs opacity-70">R</kbd>
+                </Button>
+                <Button onClick={() => onDecision(current, 'spam')} variant="secondary" className="gap-2">
+                  <Flag className="h-4 w-4" />
+                  Spam <kbd className="ml-1 text-xs opacity-70">S</kbd>
+                </Button>
+                <Button onClick={() => onBan(current)} variant="destructive" className="gap-2">
+                  <Ban className="h-4 w-4" />
+                  Ban <kbd className="ml-1 text-xs opacity-70">B</kbd>
+                </Button>
+                <Button onClick={() => skip(current)} variant="ghost" className="gap-2">
+                  <SkipForward className="h-4 w-4" />
+                  Skip <kbd className="ml-1 text-xs opacity-70">J</kbd>
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Context */}
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Article</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {article?.title || current.article?.title || 'Unknown Article'}
+                </p>
+                {article?.excerpt && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400 line-clamp-4">{article.excerpt}</p>
+                )}
+                {(article?.slug || current.article?.slug) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => window.open(`/article/${article?.slug || current.article?.slug}`, '_blank')}
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                    View Article
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Commenter History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {history.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">First comment from this email.</p>
+                ) : (
+                  <ul className="text-sm space-y-1 text-gray-700 dark:text-gray-300">
+                    <li>{history.filter(c => c.is_approved).length} approved</li>
+                    <li>{history.filter(c => c.is_spam).length} spam</li>
+                    <li>{history.filter(c => !c.is_approved && !c.is_spam).length} pending or rejected</li>
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+
+      {/* Undo bar */}
+      {lastActionLabel && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-4 px-4 py-3 bg-gray-900 text-white rounded-lg shadow-lg">
+          <span className="text-sm">{lastActionLabel}</span>
+          <button
+            onClick={onUndo}
+            className="inline-flex items-center gap-1 text-sm font-semibold text-blue-300 hover:text-blue-200"
+          >
+            <Undo2 className="h-4 w-4" />
+            Undo <kbd className="ml-1 text-xs opacity-70">U</kbd>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
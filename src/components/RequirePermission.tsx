@@ -0,0 +1,31 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { Permission, hasPermission } from '../lib/permissions';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: React.ReactNode;
+}
+
+export function RequirePermission({ permission, children }: RequirePermissionProps) {
+  const { user, profile, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-xl text-gray-900 dark:text-white">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!hasPermission(profile?.role, permission)) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+}
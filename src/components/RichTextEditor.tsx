@@ -0,0 +1,266 @@
+import React, { useEffect, useRef } from 'react';
+import { useEditor, EditorContent, Editor } from '@tiptap/react';
+import StarterKit from '@tiptap/starter-kit';
+import Link from '@tiptap/extension-link';
+import Image from '@tiptap/extension-image';
+import Table from '@tiptap/extension-table';
+import TableRow from '@tiptap/extension-table-row';
+import TableHeader from '@tiptap/extension-table-header';
+import TableCell from '@tiptap/extension-table-cell';
+import { Embed, cleanPastedHtml, isEmptyHtml, toEmbedUrl } from '../lib/richText';
+import {
+  Bold,
+  Italic,
+  Strikethrough,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  Quote,
+  Link as LinkIcon,
+  Unlink,
+  ImagePlus,
+  Youtube,
+  Table as TableIcon,
+  Rows3,
+  Columns3,
+  Trash2,
+  Minus,
+  Undo2,
+  Redo2
+} from 'lucide-react';
+
+interface RichTextEditorProps {
+  value: string;
+  onChange: (html: string) => void;
+  onImageUpload?: (file: File) => Promise<string>;
+  placeholder?: string;
+}
+
+interface ToolbarButtonProps {
+  onClick: () => void;
+  active?: boolean;
+  disabled?: boolean;
+  title: string;
+  children: React.ReactNode;
+}
+
+function ToolbarButton({ onClick, active = false, disabled = false, title, children }: ToolbarButtonProps) {
+  return (
+    <button
+      type="button"
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      aria-label={title}
+      aria-pressed={active}
+      className={`inline-flex items-center justify-center p-2 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+        active
+          ? 'bg-gray-200 dark:bg-gray-600 text-gray-900 dark:text-white'
+          : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+      }`}
+      style={{ minWidth: '36px', minHeight: '36px' }}
+    >
+      {children}
+    </button>
+  );
+}
+
+function Toolbar({ editor, onImage }: { editor: Editor; onImage: () => void }) {
+  const setLink = () => {
+    const previous = editor.getAttributes('link').href as string | undefined;
+    const url = prompt('Link URL', previous || 'https://');
+    if (url === null) return;
+
+    if (url.trim() === '' || url.trim() === 'https://') {
+      editor.chain().focus().extendMarkRange('link').unsetLink().run();
+      return;
+    }
+
+    editor.chain().focus().extendMarkRange('link').setLink({ href: url.trim() }).run();
+  };
+
+  const addEmbed = () => {
+    const url = prompt('YouTube, Vimeo or Spotify URL');
+    if (!url) return;
+
+    if (!toEmbedUrl(url)) {
+      alert('Only YouTube, Vimeo and Spotify links can be embedded.');
+      return;
+    }
+
+    editor.chain().focus().setEmbed({ src: url }).run();
+  };
+
+  const inTable = editor.isActive('table');
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 p-2 border-b border-gray-300 dark:border-gray-600 bg-gray-50 dark:bg-gray-800 rounded-t-lg">
+      <ToolbarButton title="Bold" active={editor.isActive('bold')} onClick={() => editor.chain().focus().toggleBold().run()}>
+        <Bold className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Italic" active={editor.isActive('italic')} onClick={() => editor.chain().focus().toggleItalic().run()}>
+        <Italic className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Strikethrough" active={editor.isActive('strike')} onClick={() => editor.chain().focus().toggleStrike().run()}>
+        <Strikethrough className="h-4 w-4" />
+      </ToolbarButton>
+
+      <span className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
+
+      <ToolbarButton title="Heading" active={editor.isActive('heading', { level: 2 })} onClick={() => editor.chain().focus().toggleHeading({ level: 2 }).run()}>
+        <Heading2 className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Subheading" active={editor.isActive('heading', { level: 3 })} onClick={() => editor.chain().focus().toggleHeading({ level: 3 }).run()}>
+        <Heading3 className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Bulleted list" active={editor.isActive('bulletList')} onClick={() => editor.chain().focus().toggleBulletList().run()}>
+        <List className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Numbered list" active={editor.isActive('orderedList')} onClick={() => editor.chain().focus().toggleOrderedList().run()}>
+        <ListOrdered className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Quote" active={editor.isActive('blockquote')} onClick={() => editor.chain().focus().toggleBlockquote().run()}>
+        <Quote className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Divider" onClick={() => editor.chain().focus().setHorizontalRule().run()}>
+        <Minus className="h-4 w-4" />
+      </ToolbarButton>
+
+      <span className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
+
+      <ToolbarButton title="Add link" active={editor.isActive('link')} onClick={setLink}>
+        <LinkIcon className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Remove link" disabled={!editor.isActive('link')} onClick={() => editor.chain().focus().unsetLink().run()}>
+        <Unlink className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Insert image" onClick={onImage}>
+        <ImagePlus className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Embed video or audio" onClick={addEmbed}>
+        <Youtube className="h-4 w-4" />
+      </ToolbarButton>
+
+      <span className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
+
+      <ToolbarButton
+        title="Insert table"
+        disabled={inTable}
+        onClick={() => editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run()}
+      >
+        <TableIcon className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Add row" disabled={!inTable} onClick={() => editor.chain().focus().addRowAfter().run()}>
+        <Rows3 className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Add column" disabled={!inTable} onClick={() => editor.chain().focus().addColumnAfter().run()}>
+        <Columns3 className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Delete table" disabled={!inTable} onClick={() => editor.chain().focus().deleteTable().run()}>
+        <Trash2 className="h-4 w-4" />
+      </ToolbarButton>
+
+      <span className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
+
+      <ToolbarButton title="Undo" disabled={!editor.can().undo()} onClick={() => editor.chain().focus().undo().run()}>
+        <Undo2 className="h-4 w-4" />
+      </ToolbarButton>
+      <ToolbarButton title="Redo" disabled={!editor.can().redo()} onClick={() => editor.chain().focus().redo().run()}>
+        <Redo2 className="h-4 w-4" />
+      </ToolbarButton>
+    </div>
+  );
+}
+
+export function RichTextEditor({ value, onChange, onImageUpload, placeholder }: RichTextEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const editor = useEditor({
+    extensions: [
+      StarterKit.configure({
+        heading: { levels: [2, 3, 4] },
+        code: false,
+        codeBlock: false
+      }),
+      Link.configure({
+        openOnClick: false,
+        autolink: true,
+        protocols: ['http', 'https', 'mailto'],
+        HTMLAttributes: { rel: 'noopener noreferrer', target: '_blank' }
+      }),
+      Image.configure({ inline: false, allowBase64: false }),
+      Table.configure({ resizable: false }),
+      TableRow,
+      TableHeader,
+      TableCell,
+      Embed
+    ],
+    content: value,
+    editorProps: {
+      attributes: {
+        class: 'prose dark:prose-invert max-w-none min-h-[300px] px-4 py-3 focus:outline-none',
+        ...(placeholder ? { 'aria-placeholder': placeholder } : {})
+      },
+      transformPastedHTML: cleanPastedHtml
+    },
+    onUpdate: ({ editor }) => {
+      const html = editor.getHTML();
+      onChange(isEmptyHtml(html) ? '' : html);
+    }
+  });
+
+  // Pick up content replaced from outside, e.g. a restored revision
+  useEffect(() => {
+    if (!editor) return;
+    const current = editor.getHTML();
+    if (value !== current && !(value === '' && isEmptyHtml(current))) {
+      editor.commands.setContent(value, false);
+    }
+  }, [editor, value]);
+
+  const insertImageFromUrl = () => {
+    const url = prompt('Image URL', 'https://');
+    if (url && url.trim() !== 'https://') {
+      const alt = prompt('Image description (alt text)') || '';
+      editor?.chain().focus().setImage({ src: url.trim(), alt }).run();
+    }
+  };
+
+  const handleImageButton = () => {
+    if (onImageUpload && confirm('Upload an image from your computer?\n\nChoose Cancel to insert an image by URL instead.')) {
+      fileInputRef.current?.click();
+    } else {
+      insertImageFromUrl();
+    }
+  };
+
+  const handleImageFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onImageUpload || !editor) return;
+
+    try {
+      const src = await onImageUpload(file);
+      const alt = prompt('Image description (alt text)') || '';
+      editor.chain().focus().setImage({ src, alt }).run();
+    } catch (err: any) {
+      alert(err.message || 'Failed to upload image');
+    }
+  };
+
+  return (
+    <div className="rich-text-editor border border-gray-300 dark:border-gray-600 rounded-lg focus-within:ring-2 focus-within:ring-red-600 dark:bg-gray-700 dark:text-white">
+      {editor && <Toolbar editor={editor} onImage={handleImageButton} />}
+      <EditorContent editor={editor} />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/jpeg,image/jpg,image/png,image/webp"
+        onChange={handleImageFile}
+        className="hidden"
+      />
+    </div>
+  );
+}
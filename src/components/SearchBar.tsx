@@ -1,7 +1,16 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useId } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { Search, X, Filter } from 'lucide-react';
+import { Search, X, Clock, TrendingUp, FileText, Folder, Tag } from 'lucide-react';
 import { useLanguage } from '../contexts/LanguageContext';
+import {
+  Suggestion,
+  addRecentSearch,
+  clearRecentSearches,
+  fetchSuggestions,
+  fetchTrendingSearches,
+  getRecentSearches,
+  removeRecentSearch
+} from '../lib/search';
 
 interface SearchBarProps {
   className?: string;
@@ -10,15 +19,47 @@ interface SearchBarProps {
   compact?: boolean;
 }
 
+interface DropdownItem {
+  kind: Suggestion['kind'] | 'recent' | 'trending' | 'query';
+  label: string;
+  value: string;
+}
+
+interface DropdownSection {
+  key: string;
+  title: string;
+  items: DropdownItem[];
+}
+
+const MIN_QUERY_LENGTH = 2;
+const SUGGESTION_DELAY = 250;
+
+const ITEM_ICONS = {
+  article: FileText,
+  category: Folder,
+  tag: Tag,
+  recent: Clock,
+  trending: TrendingUp,
+  query: Search
+};
+
 export function SearchBar({ className = '', placeholder, autoFocus = false, compact = false }: SearchBarProps) {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
-  const { t } = useLanguage();
+  const { t, tInterpolated } = useLanguage();
   const inputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const latestRequest = useRef(0);
+  const listboxId = useId();
   const [searchTerm, setSearchTerm] = useState(searchParams.get('q') || '');
-  const [showFilters, setShowFilters] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [recentSearches, setRecentSearches] = useState<string[]>(() => getRecentSearches());
+  const [trendingSearches, setTrendingSearches] = useState<string[] | null>(null);
 
   const defaultPlaceholder = placeholder || t('search.placeholder') || 'Search articles...';
+  const query = searchTerm.trim();
 
   useEffect(() => {
     if (autoFocus && inputRef.current) {
@@ -26,18 +67,145 @@ export function SearchBar({ className = '', placeholder, autoFocus = false, comp
     }
   }, [autoFocus]);
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    const query = searchTerm.trim();
-    if (query) {
+  // Debounced suggestions; a slow response for an older query never overwrites a newer one
+  useEffect(() => {
+    if (query.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    const request = ++latestRequest.current;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await fetchSuggestions(query);
+        if (request === latestRequest.current) setSuggestions(results);
+      } catch (error) {
+        console.error('Error fetching search suggestions:', error);
+      }
+    }, SUGGESTION_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Trending searches barely change, so load them once when the dropdown is first opened
+  useEffect(() => {
+    if (!open || trendingSearches !== null) return;
+
+    fetchTrendingSearches()
+      .then(setTrendingSearches)
+      .catch(error => {
+        console.error('Error fetching trending searches:', error);
+        setTrendingSearches([]);
+      });
+  }, [open, trendingSearches]);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [query, suggestions]);
+
+  const sections: DropdownSection[] = (query.length >= MIN_QUERY_LENGTH
+    ? [
+        {
+          key: 'article',
+          title: t('search.suggestedArticles'),
+          items: suggestions.filter(s => s.kind === 'article')
+        },
+        {
+          key: 'category',
+          title: t('search.suggestedCategories'),
+          items: suggestions
+            .filter(s => s.kind === 'category')
+            .map(s => ({ ...s, label: t(`cat.${s.value}`, s.label) }))
+        },
+        {
+          key: 'tag',
+          title: t('search.suggestedTags'),
+          items: suggestions.filter(s => s.kind === 'tag')
+        },
+        {
+          key: 'query',
+          title: '',
+          items: [{ kind: 'query' as const, label: tInterpolated('search.searchFor', { query }), value: query }]
+        }
+      ]
+    : [
+        {
+          key: 'recent',
+          title: t('search.recent'),
+          items: recentSearches.map(term => ({ kind: 'recent' as const, label: term, value: term }))
+        },
+        {
+          key: 'trending',
+          title: t('search.trending'),
+          items: (trendingSearches || []).map(term => ({ kind: 'trending' as const, label: term, value: term }))
+        }
+      ]
+  ).filter(section => section.items.length > 0);
+
+  const items = sections.flatMap(section => section.items);
+  const showDropdown = open && items.length > 0;
+
+  const runSearch = (term: string) => {
+    const trimmed = term.trim();
+    setOpen(false);
+    inputRef.current?.blur();
+
+    if (trimmed) {
+      setSearchTerm(trimmed);
+      setRecentSearches(addRecentSearch(trimmed));
       const searchQuery = new URLSearchParams();
-      searchQuery.set('q', query);
+      searchQuery.set('q', trimmed);
       navigate(`/search?${searchQuery.toString()}`);
     } else {
       navigate('/search');
     }
   };
 
+  const selectItem = (item: DropdownItem) => {
+    if (item.kind === 'article') {
+      setOpen(false);
+      navigate(`/article/${item.value}`);
+    } else if (item.kind === 'category') {
+      setOpen(false);
+      navigate(`/category/${item.value}`);
+    } else {
+      runSearch(item.value);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    runSearch(searchTerm);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setOpen(true);
+      if (items.length) setActiveIndex(index => (index + 1) % items.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (items.length) setActiveIndex(index => (index <= 0 ? items.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && showDropdown && activeIndex >= 0) {
+      e.preventDefault();
+      selectItem(items[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
   const handleClear = () => {
     setSearchTerm('');
     if (inputRef.current) {
@@ -45,12 +213,11 @@ export function SearchBar({ className = '', placeholder, autoFocus = false, comp
     }
   };
 
-  const toggleFilters = () => {
-    setShowFilters(!showFilters);
-  };
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
+  let optionIndex = -1;
 
   return (
-    <div className={`relative ${className}`}>
+    <div ref={containerRef} className={`relative ${className}`}>
       <form onSubmit={handleSearch} className="relative">
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
@@ -58,16 +225,27 @@ export function SearchBar({ className = '', placeholder, autoFocus = false, comp
             ref={inputRef}
             type="text"
             value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
+            onChange={(e) => {
+              setSearchTerm(e.target.value);
+              setOpen(true);
+            }}
+            onFocus={() => setOpen(true)}
+            onKeyDown={handleKeyDown}
             placeholder={defaultPlaceholder}
             className={`
-              w-full pl-10 pr-10 py-3 border border-gray-300 dark:border-gray-600 rounded-lg 
-              focus:outline-none focus:ring-2 focus:ring-red-600 focus:border-transparent 
+              w-full pl-10 pr-10 py-3 border border-gray-300 dark:border-gray-600 rounded-lg
+              focus:outline-none focus:ring-2 focus:ring-red-600 focus:border-transparent
               dark:bg-gray-800 dark:text-white dark:placeholder-gray-400
               ${compact ? 'py-2 text-sm' : 'py-3'}
             `}
             style={{ minHeight: compact ? '36px' : '44px' }}
             autoFocus={autoFocus}
+            autoComplete="off"
+            role="combobox"
+            aria-expanded={showDropdown}
+            aria-controls={listboxId}
+            aria-autocomplete="list"
+            aria-activedescendant={showDropdown && activeIndex >= 0 ? optionId(activeIndex) : undefined}
           />
           {searchTerm && (
             <button
@@ -80,6 +258,71 @@ export function SearchBar({ className = '', placeholder, autoFocus = false, comp
           )}
         </div>
       </form>
+
+      {showDropdown && (
+        <div
+          id={listboxId}
+          role="listbox"
+          className="absolute z-50 mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg overflow-hidden text-left"
+        >
+          {sections.map(section => (
+            <div key={section.key} role="group" aria-label={section.title || undefined}>
+              {section.title && (
+                <div className="flex items-center justify-between px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                  <span>{section.title}</span>
+                  {section.key === 'recent' && (
+                    <button
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => setRecentSearches(clearRecentSearches())}
+                      className="normal-case font-medium text-red-600 hover:text-red-700 dark:text-red-400"
+                    >
+                      {t('search.clearRecent')}
+                    </button>
+                  )}
+                </div>
+              )}
+              {section.items.map(item => {
+                const index = ++optionIndex;
+                const Icon = ITEM_ICONS[item.kind];
+                const active = index === activeIndex;
+
+                return (
+                  <div
+                    key={`${item.kind}-${item.value}`}
+                    id={optionId(index)}
+                    role="option"
+                    aria-selected={active}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => selectItem(item)}
+                    className={`flex items-center gap-3 px-4 py-2 cursor-pointer text-sm ${
+                      active ? 'bg-gray-100 dark:bg-gray-700' : ''
+                    } ${item.kind === 'query' ? 'border-t border-gray-200 dark:border-gray-700 font-medium' : ''} text-gray-900 dark:text-white`}
+                    style={{ minHeight: '44px' }}
+                  >
+                    <Icon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                    <span className="flex-1 truncate">{item.label}</span>
+                    {item.kind === 'recent' && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setRecentSearches(removeRecentSearch(item.value));
+                        }}
+                        className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                        aria-label={t('search.removeRecent')}
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,236 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { hasSearchFilters, SearchFacets, SearchFacetValue, SearchFilterState } from '../lib/search';
+
+interface SearchFacetPanelProps {
+  facets: SearchFacets | null;
+  loading: boolean;
+  filters: SearchFilterState;
+  onChange: (changes: Partial<SearchFilterState>) => void;
+  onClear: () => void;
+}
+
+// Articles store the database slug; translations are keyed by the Serbian URL slug
+const categorySlugMap: Record<string, string> = {
+  'politics': 'politika',
+  'business': 'biznis',
+  'sports': 'sport',
+  'technology': 'tehnologija',
+  'culture': 'kultura',
+  'international': 'medunarodni',
+  'general': 'general'
+};
+
+const DATE_PRESETS = [
+  { value: '7', key: 'search.pastWeek' },
+  { value: '30', key: 'search.pastMonth' },
+  { value: '90', key: 'search.past3Months' },
+  { value: '365', key: 'search.pastYear' }
+];
+
+export function SearchFacetPanel({ facets, loading, filters, onChange, onClear }: SearchFacetPanelProps) {
+  const { t } = useLanguage();
+
+  const categoryLabel = (value: SearchFacetValue) => {
+    const slug = categorySlugMap[value.value.toLowerCase()] || value.value.toLowerCase();
+    return t(`cat.${slug}`, value.label);
+  };
+
+  const countFor = (values: SearchFacetValue[] | undefined, value: string) => {
+    return values?.find(item => item.value === value)?.count ?? 0;
+  };
+
+  // Values with no results are noise, unless the reader has already picked one
+  const visible = (values: SearchFacetValue[] | undefined, selected: string[]) => {
+    return (values || []).filter(item => item.count > 0 || selected.includes(item.value));
+  };
+
+  const toggleTag = (tag: string) => {
+    onChange({
+      tags: filters.tags.includes(tag)
+        ? filters.tags.filter(item => item !== tag)
+        : [...filters.tags, tag]
+    });
+  };
+
+  const optionClass = (active: boolean) => `
+    w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors
+    ${active
+      ? 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 font-medium'
+      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}
+  `;
+
+  const renderOption = (label: string, count: number | null, active: boolean, onClick: () => void, key: string) => (
+    <li key={key}>
+      <button type="button" onClick={onClick} className={optionClass(active)} aria-pressed={active}>
+        <span className="flex items-center gap-2 min-w-0">
+          {active && <Check className="h-4 w-4 flex-shrink-0" />}
+          <span className="truncate">{label}</span>
+        </span>
+        {count !== null && (
+          <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{count}</span>
+        )}
+      </button>
+    </li>
+  );
+
+  const sectionTitle = (title: string) => (
+    <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-2">
+      {title}
+    </h3>
+  );
+
+  const categories = visible(facets?.category, [filters.category]);
+  const tags = visible(facets?.tag, filters.tags);
+  const authors = visible(facets?.author, [filters.author]);
+  const languages = visible(facets?.language, [filters.language]);
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-6 ${loading ? 'opacity-60' : ''}`}>
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-gray-900 dark:text-white">{t('search.filters')}</h2>
+        {hasSearchFilters(filters) && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="inline-flex items-center gap-1 text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+          >
+            <X className="h-4 w-4" />
+            {t('search.clearFilters')}
+          </button>
+        )}
+      </div>
+
+      {/* Category */}
+      <div>
+        {sectionTitle(t('search.category'))}
+        <ul className="space-y-1">
+          {renderOption(t('search.allCategories'), null, !filters.category, () => onChange({ category: '' }), 'all')}
+          {categories.map(category =>
+            renderOption(
+              categoryLabel(category),
+              category.count,
+              filters.category === category.value,
+              () => onChange({ category: filters.category === category.value ? '' : category.value }),
+              category.value
+            )
+          )}
+        </ul>
+      </div>
+
+      {/* Date */}
+      <div>
+        {sectionTitle(t('search.dateRange'))}
+        <ul className="space-y-1">
+          {renderOption(
+            t('search.anyTime'),
+            null,
+            !filters.date && !filters.from && !filters.to,
+            () => onChange({ date: '', from: '', to: '' }),
+            'any'
+          )}
+          {DATE_PRESETS.map(preset =>
+            renderOption(
+              t(preset.key),
+              facets ? countFor(facets.date, preset.value) : null,
+              filters.date === preset.value,
+              () => onChange({ date: preset.value, from: '', to: '' }),
+              preset.value
+            )
+          )}
+        </ul>
+        <div className="mt-3">
+          <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{t('search.customRange')}</span>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-600 dark:text-gray-400">
+              {t('search.from')}
+              <input
+                type="date"
+                value={filters.from}
+                max={filters.to || undefined}
+                onChange={(e) => onChange({ date: '', from: e.target.value })}
+                className="mt-1 w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+              />
+            </label>
+            <label className="text-xs text-gray-600 dark:text-gray-400">
+              {t('search.to')}
+              <input
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => onChange({ date: '', to: e.target.value })}
+                className="mt-1 w-full px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white"
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+
+      {/* Tags */}
+      {tags.length > 0 && (
+        <div>
+          {sectionTitle(t('search.tags'))}
+          <div className="flex flex-wrap gap-2">
+            {tags.map(tag => {
+              const active = filters.tags.includes(tag.value);
+              return (
+                <button
+                  key={tag.value}
+                  type="button"
+                  onClick={() => toggleTag(tag.value)}
+                  aria-pressed={active}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                    active
+                      ? 'bg-red-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  #{tag.label} <span className="opacity-70">{tag.count}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Author */}
+      {authors.length > 0 && (
+        <div>
+          {sectionTitle(t('search.author'))}
+          <ul className="space-y-1">
+            {renderOption(t('search.allAuthors'), null, !filters.author, () => onChange({ author: '' }), 'all')}
+            {authors.map(author =>
+              renderOption(
+                author.label,
+                author.count,
+                filters.author === author.value,
+                () => onChange({ author: filters.author === author.value ? '' : author.value }),
+                author.value
+              )
+            )}
+          </ul>
+        </div>
+      )}
+
+      {/* Language, only worth showing once there is more than one */}
+      {(languages.length > 1 || filters.language) && (
+        <div>
+          {sectionTitle(t('search.language'))}
+          <ul className="space-y-1">
+            {renderOption(t('search.allLanguages'), null, !filters.language, () => onChange({ language: '' }), 'all')}
+            {languages.map(language =>
+              renderOption(
+                t(`search.language.${language.value}`, language.label.toUpperCase()),
+                language.count,
+                filters.language === language.value,
+                () => onChange({ language: filters.language === language.value ? '' : language.value }),
+                language.value
+              )
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
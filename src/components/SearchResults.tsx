@@ -2,16 +2,17 @@ import React from 'react';
 import { Link } from 'react-router-dom';
 import { Clock, User, Tag, Search } from 'lucide-react';
 import { useLanguage } from '../contexts/LanguageContext';
-import type { Article } from '../lib/supabase';
+import { splitHighlights, SearchResult } from '../lib/search';
 
 interface SearchResultsProps {
-  articles: (Article & { author_name?: string })[];
+  articles: SearchResult[];
   loading: boolean;
   searchTerm: string;
   totalResults: number;
   currentPage: number;
   totalPages: number;
   onPageChange: (page: number) => void;
+  onResultClick?: (article: SearchResult, index: number) => void;
 }
 
 export function SearchResults({
@@ -21,7 +22,8 @@ export function SearchResults({
   totalResults,
   currentPage,
   totalPages,
-  onPageChange
+  onPageChange,
+  onResultClick
 }: SearchResultsProps) {
   const { t, tInterpolated } = useLanguage();
 
@@ -48,19 +50,15 @@ export function SearchResults({
     });
   };
 
-  const highlightText = (text: string, query: string) => {
-    if (!query.trim()) return text;
-    
-    const regex = new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) =>
-      regex.test(part) ? (
+  // Matches are marked by the search RPC, which knows that "Beograd" and "Београд" are the same word
+  const renderHighlights = (text: string) => {
+    return splitHighlights(text).map((part, index) =>
+      part.match ? (
         <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 px-1 rounded">
-          {part}
+          {part.text}
         </mark>
       ) : (
-        part
+        part.text
       )
     );
   };
@@ -116,13 +114,13 @@ export function SearchResults({
 
       {/* Articles List */}
       <div className="space-y-6">
-        {articles.map((article) => (
+        {articles.map((article, index) => (
           <article key={article.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow">
             <div className="flex flex-col md:flex-row gap-4">
               {/* Featured Image */}
               {article.featured_image_url && (
                 <div className="md:w-48 md:flex-shrink-0">
-                  <Link to={`/article/${article.slug}`}>
+                  <Link to={`/article/${article.slug}`} onClick={() => onResultClick?.(article, index)}>
                     <div className="aspect-video w-full md:w-48 overflow-hidden rounded-lg">
                       <img
                         src={article.featured_image_url}
@@ -148,16 +146,16 @@ export function SearchResults({
                 )}
 
                 {/* Title */}
-                <Link to={`/article/${article.slug}`}>
+                <Link to={`/article/${article.slug}`} onClick={() => onResultClick?.(article, index)}>
                   <h3 className="text-xl md:text-2xl font-bold text-gray-900 dark:text-white mb-3 hover:text-red-600 dark:hover:text-red-400 transition-colors">
-                    {highlightText(article.title, searchTerm)}
+                    {renderHighlights(article.title_highlight)}
                   </h3>
                 </Link>
 
-                {/* Excerpt */}
-                {article.excerpt && (
+                {/* Matching passage, or the excerpt when only the title matched */}
+                {(article.snippet || article.excerpt) && (
                   <p className="text-gray-600 dark:text-gray-400 mb-4 line-clamp-3">
-                    {highlightText(article.excerpt, searchTerm)}
+                    {renderHighlights(article.snippet || article.excerpt!)}
                   </p>
                 )}
 
@@ -185,6 +183,7 @@ export function SearchResults({
                 {/* Read More Link */}
                 <Link
                   to={`/article/${article.slug}`}
+                  onClick={() => onResultClick?.(article, index)}
                   className="inline-block mt-4 px-6 py-2 bg-gray-900 dark:bg-gray-700 text-white rounded-lg hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors"
                 >
                   {t('article.readMore')}
@@ -1,5 +1,6 @@
 import React from 'react';
 import { Mail, Lock, User, Shield } from 'lucide-react';
+import { ROLES, ROLE_LABELS } from '../lib/permissions';
 
 interface UserFormProps {
   formData: {
@@ -18,8 +19,6 @@ interface UserFormProps {
   passwordRequired?: boolean;
 }
 
-const ROLES = ['admin', 'editor', 'author', 'subscriber'];
-
 export function UserForm({
   formData,
   handleChange,
@@ -142,7 +141,7 @@ export function UserForm({
           >
             {ROLES.map(role => (
               <option key={role} value={role}>
-                {role.charAt(0).toUpperCase() + role.slice(1)}
+                {ROLE_LABELS[role]}
               </option>
             ))}
           </select>
@@ -114,6 +114,26 @@ const translations = {
     'search.titleAZ': 'Naslov A-Z',
     'search.relevance': 'Relevantnost',
     'search.pageOfTotal': 'Strana {current} od {total}',
+    'search.recent': 'Nedavne pretrage',
+    'search.trending': 'Popularne pretrage',
+    'search.clearRecent': 'Obriši',
+    'search.removeRecent': 'Ukloni iz nedavnih pretraga',
+    'search.suggestedArticles': 'Članci',
+    'search.suggestedCategories': 'Kategorije',
+    'search.suggestedTags': 'Tagovi',
+    'search.searchFor': 'Pretraži "{query}"',
+    'search.filters': 'Filteri',
+    'search.clearFilters': 'Obriši filtere',
+    'search.tags': 'Tagovi',
+    'search.author': 'Autor',
+    'search.allAuthors': 'Svi autori',
+    'search.language': 'Jezik',
+    'search.allLanguages': 'Svi jezici',
+    'search.language.sr': 'Srpski',
+    'search.language.en': 'Engleski',
+    'search.customRange': 'Prilagođeni period',
+    'search.from': 'Od',
+    'search.to': 'Do',
     
     // Category
     'category.articles': 'Članci u ovoj kategoriji',
@@ -268,6 +288,26 @@ const translations = {
     'search.titleAZ': 'Title A-Z',
     'search.relevance': 'Relevance',
     'search.pageOfTotal': 'Page {current} of {total}',
+    'search.recent': 'Recent searches',
+    'search.trending': 'Trending searches',
+    'search.clearRecent': 'Clear',
+    'search.removeRecent': 'Remove from recent searches',
+    'search.suggestedArticles': 'Articles',
+    'search.suggestedCategories': 'Categories',
+    'search.suggestedTags': 'Tags',
+    'search.searchFor': 'Search for "{query}"',
+    'search.filters': 'Filters',
+    'search.clearFilters': 'Clear filters',
+    'search.tags': 'Tags',
+    'search.author': 'Author',
+    'search.allAuthors': 'All authors',
+    'search.language': 'Language',
+    'search.allLanguages': 'All languages',
+    'search.language.sr': 'Serbian',
+    'search.language.en': 'English',
+    'search.customRange': 'Custom range',
+    'search.from': 'From',
+    'search.to': 'To',
     
     // Category
     'category.articles': 'Articles in this category',
@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
+import { useState, useEffect, useCallback } from 'react';
+import { supabase, AdDailyStat, AdDevice, AdLanguage } from '../lib/supabase';
 
 export interface Advertisement {
   id: string;
@@ -10,6 +10,14 @@ export interface Advertisement {
   is_active: boolean;
   impressions: number;
   clicks: number;
+  weight: number;
+  frequency_cap: number | null;
+  impression_goal: number | null;
+  is_house_ad: boolean;
+  target_categories: string[];
+  target_tags: string[];
+  target_languages: AdLanguage[];
+  target_devices: AdDevice[];
   start_date: string | null;
   end_date: string | null;
   created_by: string | null;
@@ -23,10 +31,20 @@ export interface CreateAdvertisementData {
   link_url?: string;
   placement: string;
   is_active: boolean;
+  weight?: number;
+  frequency_cap?: number | null;
+  impression_goal?: number | null;
+  is_house_ad?: boolean;
+  target_categories?: string[];
+  target_tags?: string[];
+  target_languages?: AdLanguage[];
+  target_devices?: AdDevice[];
   start_date?: string;
   end_date?: string;
 }
 
+const STATS_PAGE_SIZE = 1000;
+
 export function useAdminAdvertisements() {
   const [advertisements, setAdvertisements] = useState<Advertisement[]>([]);
   const [loading, setLoading] = useState(true);
@@ -128,63 +146,36 @@ export function useAdminAdvertisements() {
     }
   };
 
-  const incrementClickCount = async (id: string): Promise<void> => {
-    try {
-      // First get the current click count
-      const { data: currentAd, error: fetchError } = await supabase
-        .from('advertisements')
-        .select('clicks')
-        .eq('id', id)
-        .single();
-
-      if (fetchError) throw fetchError;
-
-      const newClickCount = (currentAd.clicks || 0) + 1;
-
-      const { data: result, error } = await supabase
-        .from('advertisements')
-        .update({ clicks: newClickCount })
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      setAdvertisements(prev => prev.map(ad => ad.id === id ? result : ad));
-    } catch (err: any) {
-      console.error('Error incrementing click count:', err);
-      throw err;
-    }
-  };
-
-  const incrementImpressionCount = async (id: string): Promise<void> => {
-    try {
-      // First get the current impression count
-      const { data: currentAd, error: fetchError } = await supabase
-        .from('advertisements')
-        .select('impressions')
-        .eq('id', id)
-        .single();
-
-      if (fetchError) throw fetchError;
-
-      const newImpressionCount = (currentAd.impressions || 0) + 1;
+  // Daily impressions and clicks for campaign reports; days are inclusive YYYY-MM-DD.
+  // Read in pages since a long campaign over many ads passes the API's row limit.
+  const fetchDailyStats = useCallback(async (from: string, to: string, adIds?: string[]): Promise<AdDailyStat[]> => {
+    const rows: AdDailyStat[] = [];
+
+    for (let offset = 0; ; offset += STATS_PAGE_SIZE) {
+      let query = supabase
+        .from('ad_daily_stats')
+        .select('ad_id, day, impressions, clicks')
+        .gte('day', from)
+        .lte('day', to)
+        .order('day', { ascending: true })
+        .order('ad_id', { ascending: true })
+        .range(offset, offset + STATS_PAGE_SIZE - 1);
+
+      if (adIds) {
+        query = query.in('ad_id', adIds);
+      }
 
-      const { data: result, error } = await supabase
-        .from('advertisements')
-        .update({ impressions: newImpressionCount })
-        .eq('id', id)
-        .select()
-        .single();
+      const { data, error } = await query;
 
-      if (error) throw error;
+      if (error) {
+        console.error('Error fetching advertisement stats:', error);
+        throw error;
+      }
 
-      setAdvertisements(prev => prev.map(ad => ad.id === id ? result : ad));
-    } catch (err: any) {
-      console.error('Error incrementing impression count:', err);
-      throw err;
+      rows.push(...(data || []));
+      if (!data || data.length < STATS_PAGE_SIZE) return rows;
     }
-  };
+  }, []);
 
   const getAdvertisementById = (id: string): Advertisement | undefined => {
     return advertisements.find(ad => ad.id === id);
@@ -275,10 +266,9 @@ export function useAdminAdvertisements() {
     updateAdvertisement,
     deleteAdvertisement,
     toggleActiveStatus,
-    incrementClickCount,
-    incrementImpressionCount,
     getAdvertisementById,
     getAdvertisementStats,
+    fetchDailyStats,
     getAdsByPlacement,
     getFilteredAdvertisements
   };
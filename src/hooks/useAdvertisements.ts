@@ -1,5 +1,7 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase, AdDevice, AdLanguage } from '../lib/supabase';
+import { selectAdvertisements, matchesAdTargeting, getAdDevice, AdTargeting } from '../lib/ads';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface Advertisement {
   id: string;
@@ -10,6 +12,14 @@ interface Advertisement {
   is_active: boolean;
   impressions: number;
   clicks: number;
+  weight: number;
+  frequency_cap: number | null;
+  impression_goal: number | null;
+  is_house_ad: boolean;
+  target_categories: string[];
+  target_tags: string[];
+  target_languages: AdLanguage[];
+  target_devices: AdDevice[];
   start_date: string | null;
   end_date: string | null;
   created_by: string | null;
@@ -17,14 +27,31 @@ interface Advertisement {
   updated_at: string;
 }
 
+// Every counted impression and click updates its ad's row. Counters don't change
+// which ads may run, so an update that touches nothing else is not worth a refetch.
+const COUNTER_FIELDS = new Set(['impressions', 'clicks', 'updated_at']);
+
+function onlyCountersChanged(cached: Advertisement | undefined, row: Partial<Advertisement>): boolean {
+  // An ad we don't show that is still switched off changes nothing for this page
+  if (!cached) return !row.is_active;
+
+  return Object.entries(row).every(([key, value]) =>
+    COUNTER_FIELDS.has(key) || JSON.stringify(value) === JSON.stringify(cached[key as keyof Advertisement])
+  );
+}
+
 export function useAdvertisements(placement?: string) {
+  const { language } = useLanguage();
   const [advertisements, setAdvertisements] = useState<Advertisement[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Read by selectAds and the realtime handler, which should not change with every refetch
+  const advertisementsRef = useRef<Advertisement[]>([]);
+  advertisementsRef.current = advertisements;
 
+  // Refetches keep showing the current ads; only the first load shows as loading
   const fetchAdvertisements = async () => {
     try {
-      setLoading(true);
       let query = supabase
         .from('advertisements')
         .select('*')
@@ -58,16 +85,38 @@ export function useAdvertisements(placement?: string) {
     }
   };
 
-  const getAdsByPlacement = (placement: string): Advertisement[] => {
+  // Pages pass what they are about; the reader's language and screen fill in the rest
+  const resolveTargeting = useCallback(
+    (targeting: AdTargeting = {}): AdTargeting => ({
+      category: targeting.category,
+      tags: targeting.tags,
+      language: targeting.language || language,
+      device: targeting.device || getAdDevice()
+    }),
+    [language]
+  );
+
+  const getAdsByPlacement = (placement: string, targeting?: AdTargeting): Advertisement[] => {
     const now = new Date();
+    const resolved = resolveTargeting(targeting);
     return advertisements.filter(ad => {
       if (ad.placement !== placement) return false;
+      if (!matchesAdTargeting(ad, resolved)) return false;
       if (ad.start_date && new Date(ad.start_date) > now) return false;
       if (ad.end_date && new Date(ad.end_date) < now) return false;
       return true;
     });
   };
 
+  // Weighted, paced and frequency-capped pick for a single page view. It reads the
+  // latest ads without depending on them, so a refetch does not re-roll what a page
+  // already shows.
+  const selectAds = useCallback(
+    (placement: string, count: number, targeting?: AdTargeting): Advertisement[] =>
+      selectAdvertisements(advertisementsRef.current, placement, count, { targeting: resolveTargeting(targeting) }),
+    [resolveTargeting]
+  );
+
   useEffect(() => {
     fetchAdvertisements();
 
@@ -77,18 +126,17 @@ export function useAdvertisements(placement?: string) {
       .on('postgres_changes', 
         { event: '*', schema: 'public', table: 'advertisements' },
         (payload) => {
-          console.log('Realtime advertisements change detected:', payload);
-          // Always refetch to ensure we have the latest active ads
+          if (payload.eventType === 'UPDATE') {
+            const row = payload.new as Partial<Advertisement>;
+            if (onlyCountersChanged(advertisementsRef.current.find(ad => ad.id === row.id), row)) return;
+          }
           fetchAdvertisements();
         }
       )
-      .subscribe((status) => {
-        console.log('Advertisements realtime subscription status:', status);
-      });
+      .subscribe();
 
     // Cleanup subscription on unmount
     return () => {
-      console.log('Unsubscribing from advertisements changes');
       subscription.unsubscribe();
     };
   }, [placement]);
@@ -98,6 +146,7 @@ export function useAdvertisements(placement?: string) {
     loading,
     error,
     getAdsByPlacement,
+    selectAds,
     refetch: fetchAdvertisements
   };
 }
\ No newline at end of file
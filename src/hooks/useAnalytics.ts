@@ -1,5 +1,34 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { SITE_TIMEZONE, addDays, daysBetween, formatSiteDay, toSiteDay } from '../lib/dates';
+
+export type AnalyticsRangePreset = '7d' | '30d' | '90d' | 'custom';
+
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+}
+
+const PRESET_DAYS: Record<Exclude<AnalyticsRangePreset, 'custom'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90
+};
+
+// Calendar days, both ends included; assert_analytics_range() applies the same limit
+export const MAX_RANGE_DAYS = 366;
+
+export function getPresetRange(preset: Exclude<AnalyticsRangePreset, 'custom'>): AnalyticsRange {
+  const to = toSiteDay();
+  return { from: addDays(to, -(PRESET_DAYS[preset] - 1)), to };
+}
+
+type DailyMetric = 'views' | 'comments' | 'users';
+
+interface DailyCountRow {
+  day: string;
+  total: number;
+}
 
 interface AnalyticsData {
   totalArticles: number;
@@ -43,7 +72,29 @@ interface AnalyticsData {
   }>;
 }
 
-export function useAnalytics() {
+async function fetchDailyCounts(metric: DailyMetric, range: AnalyticsRange) {
+  const { data, error } = await supabase.rpc('analytics_daily_counts', {
+    p_metric: metric,
+    p_from: range.from,
+    p_to: range.to,
+    p_timezone: SITE_TIMEZONE
+  });
+
+  if (error) throw error;
+
+  // Short ranges read better as weekdays, longer ones need the date
+  const labelOptions: Intl.DateTimeFormatOptions = daysBetween(range.from, range.to) < 7
+    ? { weekday: 'short' }
+    : { month: 'short', day: 'numeric' };
+
+  return ((data || []) as DailyCountRow[]).map(row => ({
+    label: formatSiteDay(row.day, labelOptions),
+    value: Number(row.total),
+    date: row.day
+  }));
+}
+
+export function useAnalytics(range: AnalyticsRange) {
   const [data, setData] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -53,6 +104,10 @@ export function useAnalytics() {
       setLoading(true);
       setError(null);
 
+      if (daysBetween(range.from, range.to) < 0 || daysBetween(range.from, range.to) >= MAX_RANGE_DAYS) {
+        throw new Error(`Choose a range of 1 to ${MAX_RANGE_DAYS} days`);
+      }
+
       // Fetch all data in parallel
       const [
         articlesResult,
@@ -61,7 +116,10 @@ export function useAnalytics() {
         usersResult,
         adsResult,
         topArticlesResult,
-        activityResult
+        activityResult,
+        recentViews,
+        recentComments,
+        recentUsers
       ] = await Promise.all([
         // Total articles
         supabase
@@ -80,7 +138,9 @@ export function useAnalytics() {
           .eq('is_approved', true),
         
         // Total users
-        supabase.auth.admin.listUsers(),
+        supabase
+          .from('profiles')
+          .select('id', { count: 'exact', head: true }),
         
         // Advertisement stats
         supabase
@@ -116,16 +176,25 @@ export function useAnalytics() {
             .order('created_at', { ascending: false })
             .limit(3),
           
-          // Recent users (last 24h)
-          supabase.auth.admin.listUsers()
-        ])
+          // Recent users
+          supabase
+            .from('profiles')
+            .select('id, full_name, username, created_at')
+            .order('created_at', { ascending: false })
+            .limit(3)
+        ]),
+
+        // Daily time series for the selected range
+        fetchDailyCounts('views', range),
+        fetchDailyCounts('comments', range),
+        fetchDailyCounts('users', range)
       ]);
 
       // Calculate totals
       const totalArticles = articlesResult.count || 0;
       const totalViews = viewsResult.count || 0;
       const totalComments = commentsResult.count || 0;
-      const totalUsers = usersResult.data.users?.length || 0;
+      const totalUsers = usersResult.count || 0;
       
       const totalAdClicks = adsResult.data?.reduce((sum, ad) => sum + (ad.clicks || 0), 0) || 0;
       const totalAdImpressions = adsResult.data?.reduce((sum, ad) => sum + (ad.impressions || 0), 0) || 0;
@@ -138,36 +207,6 @@ export function useAnalytics() {
         comments: (article as any).comments?.[0]?.count || 0
       })) || [];
 
-      // Generate time-series data (last 7 days)
-      const now = new Date();
-      const recentViews = [];
-      const recentComments = [];
-      const recentUsers = [];
-
-      for (let i = 6; i >= 0; i--) {
-        const date = new Date(now);
-        date.setDate(date.getDate() - i);
-        const dateStr = date.toISOString().split('T')[0];
-        
-        recentViews.push({
-          label: date.toLocaleDateString('en-US', { weekday: 'short' }),
-          value: Math.floor(Math.random() * 100) + 20, // Mock data - replace with real queries
-          date: dateStr
-        });
-        
-        recentComments.push({
-          label: date.toLocaleDateString('en-US', { weekday: 'short' }),
-          value: Math.floor(Math.random() * 20) + 5, // Mock data
-          date: dateStr
-        });
-        
-        recentUsers.push({
-          label: date.toLocaleDateString('en-US', { weekday: 'short' }),
-          value: Math.floor(Math.random() * 10) + 2, // Mock data
-          date: dateStr
-        });
-      }
-
       // Process activity feed
       const [recentArticles, recentCommentsData, recentUsersData] = activityResult;
       const activityFeed: any[] = [];
@@ -196,6 +235,18 @@ export function useAnalytics() {
         });
       });
 
+      // Add recent sign-ups to activity
+      recentUsersData.data?.forEach(user => {
+        activityFeed.push({
+          id: `user-${user.id}`,
+          type: 'user',
+          title: `New user registered`,
+          description: user.full_name || user.username || undefined,
+          timestamp: user.created_at,
+          user: user.full_name || user.username || 'Unknown'
+        });
+      });
+
       // Sort activity by timestamp
       activityFeed.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
@@ -280,7 +331,7 @@ export function useAnalytics() {
       subscriptions.forEach(sub => sub.unsubscribe());
       clearInterval(interval);
     };
-  }, []);
+  }, [range.from, range.to]);
 
   return {
     data,
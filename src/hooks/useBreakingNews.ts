@@ -0,0 +1,66 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { BreakingNews } from '../lib/supabase';
+import {
+  fetchActiveBreakingNews,
+  fetchMsUntilNextBreakingNews,
+  getBreakingNewsStatus,
+  msUntilNextBreakingNewsChange,
+  subscribeToBreakingNews
+} from '../lib/breakingNews';
+
+// Lets the start time pass on the database clock before refetching
+const START_GRACE_MS = 1000;
+
+export function useBreakingNews(maxItems = 3) {
+  const [items, setItems] = useState<BreakingNews[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+  // A fresh object per fetch, so the timer below restarts even if the delay repeats
+  const [nextStart, setNextStart] = useState<{ delay: number } | null>(null);
+
+  const fetchBreakingNews = useCallback(async () => {
+    try {
+      const [active, untilNextStart] = await Promise.all([
+        fetchActiveBreakingNews(),
+        fetchMsUntilNextBreakingNews()
+      ]);
+      setItems(active);
+      setNextStart(untilNextStart === null ? null : { delay: untilNextStart });
+      setNow(Date.now());
+    } catch (error) {
+      console.error('Error fetching breaking news:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBreakingNews();
+
+    return subscribeToBreakingNews({ onChange: fetchBreakingNews });
+  }, [fetchBreakingNews]);
+
+  // Scheduled items only become readable once they start, so fetch them then
+  useEffect(() => {
+    if (!nextStart) return;
+
+    const timer = setTimeout(fetchBreakingNews, nextStart.delay + START_GRACE_MS);
+    return () => clearTimeout(timer);
+  }, [nextStart, fetchBreakingNews]);
+
+  // Start and expiry times pass without any database event, so wake up for the next one
+  useEffect(() => {
+    const delay = msUntilNextBreakingNewsChange(items, now);
+    if (delay === null) return;
+
+    const timer = setTimeout(() => setNow(Date.now()), delay);
+    return () => clearTimeout(timer);
+  }, [items, now]);
+
+  const liveItems = useMemo(
+    () => items.filter(item => getBreakingNewsStatus(item, now) === 'live').slice(0, maxItems),
+    [items, now, maxItems]
+  );
+
+  return { breakingNews: liveItems, loading };
+}
@@ -0,0 +1,7 @@
+import { useAuth } from '../contexts/AuthContext';
+import { Permission, hasPermission } from '../lib/permissions';
+
+export function usePermission(permission: Permission): boolean {
+  const { user, profile } = useAuth();
+  return !!user && hasPermission(profile?.role, permission);
+}
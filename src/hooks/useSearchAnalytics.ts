@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { SITE_TIMEZONE } from '../lib/dates';
+import { AnalyticsRange } from './useAnalytics';
+
+interface SearchTermStats {
+  term: string;
+  searches: number;
+  zeroResultSearches: number;
+  clicks: number;
+  clickThroughRate: number;
+  lastResultCount: number;
+  lastSearchedAt: string;
+}
+
+interface SearchAnalyticsData {
+  totalSearches: number;
+  zeroResultSearches: number;
+  totalClicks: number;
+  uniqueTerms: number;
+  clickThroughRate: number;
+  topQueries: SearchTermStats[];
+  // Terms whose latest search still found nothing; the desk's coverage gaps
+  zeroResultQueries: SearchTermStats[];
+}
+
+interface SearchQueryReportRow {
+  term: string;
+  searches: number;
+  zero_result_searches: number;
+  clicks: number;
+  last_result_count: number;
+  last_searched_at: string;
+}
+
+const rate = (part: number, whole: number) => (whole ? part / whole : 0);
+
+export function useSearchAnalytics(range: AnalyticsRange) {
+  const [data, setData] = useState<SearchAnalyticsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSearchAnalytics = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = { p_from: range.from, p_to: range.to, p_timezone: SITE_TIMEZONE };
+      const [reportResult, totalsResult] = await Promise.all([
+        supabase.rpc('search_query_report', params),
+        supabase.rpc('search_query_totals', params)
+      ]);
+
+      if (reportResult.error) throw reportResult.error;
+      if (totalsResult.error) throw totalsResult.error;
+
+      const terms = ((reportResult.data || []) as SearchQueryReportRow[]).map(row => ({
+        term: row.term,
+        searches: Number(row.searches),
+        zeroResultSearches: Number(row.zero_result_searches),
+        clicks: Number(row.clicks),
+        clickThroughRate: rate(Number(row.clicks), Number(row.searches)),
+        lastResultCount: row.last_result_count,
+        lastSearchedAt: row.last_searched_at
+      }));
+      const totals = totalsResult.data?.[0];
+      const totalSearches = Number(totals?.searches || 0);
+      const totalClicks = Number(totals?.clicks || 0);
+
+      setData({
+        totalSearches,
+        zeroResultSearches: Number(totals?.zero_result_searches || 0),
+        totalClicks,
+        uniqueTerms: Number(totals?.unique_terms || 0),
+        clickThroughRate: rate(totalClicks, totalSearches),
+        topQueries: terms.filter(term => term.lastResultCount > 0).slice(0, 20),
+        zeroResultQueries: terms.filter(term => term.lastResultCount === 0).slice(0, 20)
+      });
+    } catch (err) {
+      console.error('Error fetching search analytics:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch search analytics');
+    } finally {
+      setLoading(false);
+    }
+  }, [range.from, range.to]);
+
+  useEffect(() => {
+    fetchSearchAnalytics();
+  }, [fetchSearchAnalytics]);
+
+  return {
+    data,
+    loading,
+    error,
+    refetch: fetchSearchAnalytics
+  };
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { sanitizeSiteContent } from '../lib/sanitize';
 
 interface SiteContent {
   id: string;
@@ -29,10 +30,10 @@ export function useSiteContent() {
 
       if (error) throw error;
 
-      // Convert array to key-value map
+      // Convert array to key-value map, dropping markup and unsafe links saved before sanitizing
       const contentMap: SiteContentMap = {};
       data?.forEach((item: SiteContent) => {
-        contentMap[item.key] = item.value;
+        contentMap[item.key] = sanitizeSiteContent(item.key, item.value).value;
       });
 
       setContent(contentMap);
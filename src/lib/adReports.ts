@@ -0,0 +1,187 @@
+import type { Advertisement, AdDailyStat } from './supabase';
+import { addDays, daysBetween, formatSiteDay } from './dates';
+import { getAdPlacementLabel } from './ads';
+import { escapeHtml } from './printWindow';
+
+export interface AdReportTotals {
+  impressions: number;
+  clicks: number;
+  ctr: number;
+}
+
+export interface AdReportDay extends AdReportTotals {
+  day: string;
+}
+
+export interface AdReportPlacement extends AdReportTotals {
+  placement: string;
+}
+
+export interface AdReportCreative extends AdReportTotals {
+  ad: Advertisement;
+}
+
+export interface AdReportRow extends AdReportTotals {
+  day: string;
+  ad: Advertisement;
+}
+
+export interface CampaignReport {
+  from: string;
+  to: string;
+  ads: Advertisement[];
+  totals: AdReportTotals;
+  daily: AdReportDay[];
+  byPlacement: AdReportPlacement[];
+  byCreative: AdReportCreative[];
+  // One row per day per creative, zeros included; the CSV export is exactly this
+  rows: AdReportRow[];
+}
+
+function summarize(stats: AdDailyStat[]): AdReportTotals {
+  const impressions = stats.reduce((sum, stat) => sum + stat.impressions, 0);
+  const clicks = stats.reduce((sum, stat) => sum + stat.clicks, 0);
+  return { impressions, clicks, ctr: impressions > 0 ? clicks / impressions : 0 };
+}
+
+export function formatCtr(ctr: number): string {
+  return `${(ctr * 100).toFixed(2)}%`;
+}
+
+// Every day from `from` to `to` gets a row, so quiet days show as zeros rather than gaps
+export function buildCampaignReport(
+  ads: Advertisement[],
+  stats: AdDailyStat[],
+  from: string,
+  to: string
+): CampaignReport {
+  const adIds = new Set(ads.map(ad => ad.id));
+  const relevant = stats.filter(stat => adIds.has(stat.ad_id) && stat.day >= from && stat.day <= to);
+  const days = Array.from({ length: Math.max(daysBetween(from, to) + 1, 0) }, (_, index) => addDays(from, index));
+  const placements = Array.from(new Set(ads.map(ad => ad.placement)));
+
+  const statsByKey = new Map(relevant.map(stat => [`${stat.day}:${stat.ad_id}`, stat]));
+
+  return {
+    from,
+    to,
+    ads,
+    totals: summarize(relevant),
+    daily: days.map(day => ({ day, ...summarize(relevant.filter(stat => stat.day === day)) })),
+    byPlacement: placements.map(placement => {
+      const placementAds = new Set(ads.filter(ad => ad.placement === placement).map(ad => ad.id));
+      return { placement, ...summarize(relevant.filter(stat => placementAds.has(stat.ad_id))) };
+    }),
+    byCreative: ads.map(ad => ({ ad, ...summarize(relevant.filter(stat => stat.ad_id === ad.id)) })),
+    rows: days.flatMap(day => ads.map(ad => {
+      const stat = statsByKey.get(`${day}:${ad.id}`);
+      return { day, ad, ...summarize(stat ? [stat] : []) };
+    }))
+  };
+}
+
+function csvCell(value: string | number): string {
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function campaignReportToCsv(report: CampaignReport): string {
+  const header = ['Date', 'Advertisement', 'Placement', 'Impressions', 'Clicks', 'CTR (%)'];
+  const lines = report.rows.map(row => [
+    row.day,
+    row.ad.name,
+    getAdPlacementLabel(row.ad.placement),
+    row.impressions,
+    row.clicks,
+    (row.ctr * 100).toFixed(2)
+  ]);
+
+  return [header, ...lines].map(line => line.map(csvCell).join(',')).join('\r\n');
+}
+
+export function downloadCsv(filename: string, csv: string) {
+  // The byte order mark makes Excel read the file as UTF-8 (Serbian letters included)
+  const blob = new Blob(['\ufeff', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking in the same tick can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function formatReportDay(day: string): string {
+  return formatSiteDay(day, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+export const CAMPAIGN_REPORT_PRINT_STYLES = `
+  h1 { font-size: 22px; margin: 0 0 4px 0; }
+  h2 { font-size: 16px; margin: 28px 0 8px 0; }
+  .period { color: #6b7280; margin: 0 0 20px 0; }
+  .totals { display: flex; gap: 12px; }
+  .total { flex: 1; border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; }
+  .total-label { font-size: 12px; color: #6b7280; text-transform: uppercase; }
+  .total-value { font-size: 22px; font-weight: bold; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+  th { background: #f9fafb; }
+  td.number, th.number { text-align: right; }
+  tr { page-break-inside: avoid; }
+  .print-button { margin-bottom: 20px; padding: 8px 16px; }
+`;
+
+function reportTable(headers: string[], rows: (string | number)[][], numericFrom: number): string {
+  const cell = (tag: 'th' | 'td', value: string | number, index: number) =>
+    `<${tag}${index >= numericFrom ? ' class="number"' : ''}>${escapeHtml(String(value))}</${tag}>`;
+
+  return `
+    <table>
+      <thead><tr>${headers.map((header, index) => cell('th', header, index)).join('')}</tr></thead>
+      <tbody>${rows.map(row => `<tr>${row.map((value, index) => cell('td', value, index)).join('')}</tr>`).join('')}</tbody>
+    </table>
+  `;
+}
+
+// Body for openPrintWindow with CAMPAIGN_REPORT_PRINT_STYLES
+export function campaignReportToHtml(report: CampaignReport, title: string): string {
+  const metrics = (row: AdReportTotals) => [row.impressions.toLocaleString(), row.clicks.toLocaleString(), formatCtr(row.ctr)];
+
+  return `
+    <button class="print-button no-print" onclick="window.print()">Print / Save as PDF</button>
+    <h1>${escapeHtml(title)}</h1>
+    <p class="period">
+      ${escapeHtml(formatReportDay(report.from))} – ${escapeHtml(formatReportDay(report.to))}
+      · ${report.ads.length} ${report.ads.length === 1 ? 'creative' : 'creatives'}
+    </p>
+
+    <div class="totals">
+      <div class="total"><div class="total-label">Impressions</div><div class="total-value">${report.totals.impressions.toLocaleString()}</div></div>
+      <div class="total"><div class="total-label">Clicks</div><div class="total-value">${report.totals.clicks.toLocaleString()}</div></div>
+      <div class="total"><div class="total-label">CTR</div><div class="total-value">${formatCtr(report.totals.ctr)}</div></div>
+    </div>
+
+    <h2>By creative</h2>
+    ${reportTable(
+      ['Advertisement', 'Placement', 'Impressions', 'Clicks', 'CTR'],
+      report.byCreative.map(row => [row.ad.name, getAdPlacementLabel(row.ad.placement), ...metrics(row)]),
+      2
+    )}
+
+    <h2>By placement</h2>
+    ${reportTable(
+      ['Placement', 'Impressions', 'Clicks', 'CTR'],
+      report.byPlacement.map(row => [getAdPlacementLabel(row.placement), ...metrics(row)]),
+      1
+    )}
+
+    <h2>Daily</h2>
+    ${reportTable(
+      ['Date', 'Impressions', 'Clicks', 'CTR'],
+      report.daily.map(row => [formatReportDay(row.day), ...metrics(row)]),
+      1
+    )}
+  `;
+}
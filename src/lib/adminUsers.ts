@@ -0,0 +1,85 @@
+import { supabase } from './supabase';
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  full_name: string | null;
+  username: string | null;
+  avatar_url: string | null;
+  role: string | null;
+  created_at: string;
+  updated_at: string;
+  last_sign_in_at: string | null;
+  status: 'active' | 'inactive';
+  // Invited but has not accepted yet
+  invited: boolean;
+}
+
+export interface NewUser {
+  email: string;
+  fullName: string;
+  username?: string;
+  role: string;
+}
+
+// Everything goes through the admin-users edge function, which checks the
+// caller's users.manage permission before touching the auth admin API
+async function invokeAdminUsers<T>(action: string, params: Record<string, unknown> = {}): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('admin-users', {
+    body: { action, ...params }
+  });
+
+  if (error) {
+    // Non-2xx responses carry { error: { code, message } } in the response body
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error?.message || error.message);
+  }
+  if (data?.error) throw new Error(data.error.message);
+
+  return data as T;
+}
+
+export async function listUsers(): Promise<AdminUser[]> {
+  const { users } = await invokeAdminUsers<{ users: AdminUser[] }>('list');
+  return users;
+}
+
+export async function getUser(userId: string): Promise<AdminUser> {
+  const { user } = await invokeAdminUsers<{ user: AdminUser }>('get', { userId });
+  return user;
+}
+
+export async function createUser(user: NewUser & { password: string }): Promise<AdminUser> {
+  const { user: created } = await invokeAdminUsers<{ user: AdminUser }>('create', { ...user });
+  return created;
+}
+
+export async function inviteUser(user: NewUser): Promise<AdminUser> {
+  const { user: invited } = await invokeAdminUsers<{ user: AdminUser }>('invite', {
+    ...user,
+    redirectTo: `${window.location.origin}/login`
+  });
+  return invited;
+}
+
+export async function updateUser(userId: string, fields: { fullName: string; username?: string }): Promise<void> {
+  await invokeAdminUsers('update', { userId, ...fields });
+}
+
+export async function setUserRole(userId: string, role: string): Promise<void> {
+  await invokeAdminUsers('set_role', { userId, role });
+}
+
+export async function setUserDisabled(userId: string, disabled: boolean): Promise<void> {
+  await invokeAdminUsers(disabled ? 'disable' : 'enable', { userId });
+}
+
+export async function deleteUser(userId: string): Promise<void> {
+  await invokeAdminUsers('delete', { userId });
+}
+
+// Without a password the user is emailed a recovery link instead
+export async function resetUserPassword(userId: string, password?: string): Promise<'password' | 'email'> {
+  const { method } = await invokeAdminUsers<{ method: 'password' | 'email' }>('reset_password', { userId, password });
+  return method;
+}
@@ -0,0 +1,219 @@
+import { supabase } from './supabase';
+import type { Advertisement, AdDevice, AdLanguage } from './supabase';
+import { toSiteDay } from './dates';
+
+export const AD_PLACEMENT_OPTIONS = [
+  { value: 'header_banner', label: 'Header Banner' },
+  { value: 'sidebar_rectangle', label: 'Sidebar Rectangle' },
+  { value: 'footer_banner', label: 'Footer Banner' },
+  { value: 'in_content', label: 'In Content' },
+  { value: 'mobile_banner', label: 'Mobile Banner' }
+];
+
+export function getAdPlacementLabel(placement: string): string {
+  return AD_PLACEMENT_OPTIONS.find(option => option.value === placement)?.label || placement;
+}
+
+export const MIN_AD_WEIGHT = 1;
+export const MAX_AD_WEIGHT = 100;
+
+// IAB viewability: an impression needs half the ad on screen for a continuous second
+export const AD_VIEWABLE_THRESHOLD = 0.5;
+export const AD_VIEWABLE_MS = 1000;
+
+// How far pacing may boost a campaign that is behind schedule
+const MAX_PACING_BOOST = 2;
+
+const AD_IMPRESSIONS_KEY = 'adImpressions';
+
+export const AD_LANGUAGE_LABELS: Record<AdLanguage, string> = {
+  sr: 'Serbian',
+  en: 'English'
+};
+
+export const AD_DEVICE_LABELS: Record<AdDevice, string> = {
+  mobile: 'Mobile',
+  tablet: 'Tablet',
+  desktop: 'Desktop'
+};
+
+// Same breakpoints as Tailwind's md and lg
+const TABLET_MIN_WIDTH = 768;
+const DESKTOP_MIN_WIDTH = 1024;
+
+// What the page being rendered is about, matched against an ad's target_* lists
+export interface AdTargeting {
+  category?: string | null;
+  tags?: string[] | null;
+  language?: AdLanguage;
+  device?: AdDevice;
+}
+
+interface DailyAdImpressions {
+  day: string;
+  counts: Record<string, number>;
+}
+
+// Frequency caps are per visitor, so this browser keeps its own tally for the
+// current day; yesterday's counts are dropped on the next read
+export function getAdImpressionCounts(now: Date = new Date()): Record<string, number> {
+  try {
+    const stored: DailyAdImpressions = JSON.parse(localStorage.getItem(AD_IMPRESSIONS_KEY) || 'null');
+    return stored && stored.day === toSiteDay(now) ? stored.counts : {};
+  } catch {
+    return {};
+  }
+}
+
+export function recordAdImpression(adId: string, now: Date = new Date()) {
+  const counts = getAdImpressionCounts(now);
+  counts[adId] = (counts[adId] || 0) + 1;
+  localStorage.setItem(AD_IMPRESSIONS_KEY, JSON.stringify({ day: toSiteDay(now), counts }));
+}
+
+export function getAdDevice(width: number = window.innerWidth): AdDevice {
+  if (width < TABLET_MIN_WIDTH) return 'mobile';
+  if (width < DESKTOP_MIN_WIDTH) return 'tablet';
+  return 'desktop';
+}
+
+function normalizeList(values: string[] | null | undefined): string[] {
+  return (values || []).map(value => value.trim().toLowerCase()).filter(Boolean);
+}
+
+// An empty target list means the ad runs everywhere for that dimension. A page that
+// doesn't say what it is (no category on the home page, say) only gets untargeted ads.
+export function matchesAdTargeting(ad: Advertisement, targeting: AdTargeting): boolean {
+  const categories = normalizeList(ad.target_categories);
+  if (categories.length && !categories.includes((targeting.category || '').toLowerCase())) return false;
+
+  const tags = normalizeList(ad.target_tags);
+  if (tags.length) {
+    const pageTags = normalizeList(targeting.tags);
+    if (!tags.some(tag => pageTags.includes(tag))) return false;
+  }
+
+  const languages = ad.target_languages || [];
+  if (languages.length && (!targeting.language || !languages.includes(targeting.language))) return false;
+
+  const devices = ad.target_devices || [];
+  if (devices.length && (!targeting.device || !devices.includes(targeting.device))) return false;
+
+  return true;
+}
+
+export function isAdRunning(ad: Advertisement, now: number = Date.now()): boolean {
+  if (!ad.is_active) return false;
+  if (ad.start_date && Date.parse(ad.start_date) > now) return false;
+  if (ad.end_date && Date.parse(ad.end_date) < now) return false;
+  return true;
+}
+
+// Spreads a campaign's impression goal evenly over its flight: ads ahead of the
+// straight line from start_date to end_date are throttled, ads behind it are
+// boosted, and ads that have met their goal stop serving
+export function getPacingFactor(ad: Advertisement, now: number = Date.now()): number {
+  if (!ad.impression_goal || !ad.start_date || !ad.end_date) return 1;
+  if (ad.impressions >= ad.impression_goal) return 0;
+
+  const start = Date.parse(ad.start_date);
+  const end = Date.parse(ad.end_date);
+  if (end <= start) return 1;
+
+  const elapsed = Math.min(Math.max((now - start) / (end - start), 0), 1);
+  const expected = ad.impression_goal * elapsed;
+  if (expected === 0) return 1;
+
+  return Math.min(expected / Math.max(ad.impressions, 1), MAX_PACING_BOOST);
+}
+
+function pickWeighted<T>(items: { item: T; weight: number }[], count: number, random: () => number): T[] {
+  const pool = [...items];
+  const picked: T[] = [];
+
+  while (picked.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, entry) => sum + entry.weight, 0);
+    let target = random() * total;
+    let index = pool.findIndex(entry => (target -= entry.weight) < 0);
+    if (index === -1) index = pool.length - 1;
+
+    picked.push(pool[index].item);
+    pool.splice(index, 1);
+  }
+
+  return picked;
+}
+
+export interface AdSelectionOptions {
+  now?: number;
+  impressions?: Record<string, number>;
+  random?: () => number;
+  targeting?: AdTargeting;
+}
+
+// Picks up to `count` distinct ads for a placement among those targeted at the page.
+// Paid ads are drawn by weight (adjusted for pacing) among those still under the
+// visitor's frequency cap; house ads fill whatever slots are left.
+export function selectAdvertisements(
+  ads: Advertisement[],
+  placement: string,
+  count: number,
+  { now = Date.now(), impressions = getAdImpressionCounts(new Date(now)), random = Math.random, targeting }: AdSelectionOptions = {}
+): Advertisement[] {
+  const running = ads.filter(ad =>
+    ad.placement === placement &&
+    isAdRunning(ad, now) &&
+    (!targeting || matchesAdTargeting(ad, targeting))
+  );
+
+  const paid = running
+    .filter(ad => !ad.is_house_ad)
+    .filter(ad => !ad.frequency_cap || (impressions[ad.id] || 0) < ad.frequency_cap)
+    .map(ad => ({ item: ad, weight: Math.max(ad.weight || MIN_AD_WEIGHT, MIN_AD_WEIGHT) * getPacingFactor(ad, now) }))
+    .filter(entry => entry.weight > 0);
+
+  const selected = pickWeighted(paid, count, random);
+  if (selected.length === count) return selected;
+
+  const house = running
+    .filter(ad => ad.is_house_ad)
+    .map(ad => ({ item: ad, weight: Math.max(ad.weight || MIN_AD_WEIGHT, MIN_AD_WEIGHT) }));
+
+  return [...selected, ...pickWeighted(house, count - selected.length, random)];
+}
+
+// Impressions and clicks are counted by the ad-event edge function, which filters
+// bots and deduplicates by page view. It hands out a signed view token for every ad
+// a page shows; impressions and clicks without one are not counted.
+export async function requestAdViews(adIds: string[]): Promise<Record<string, string>> {
+  if (adIds.length === 0) return {};
+
+  const { data, error } = await supabase.functions.invoke('ad-event', {
+    body: { type: 'serve', adIds }
+  });
+
+  if (error || data?.error) {
+    console.error('Error requesting ad views:', error || data.error);
+    return {};
+  }
+  return data.views || {};
+}
+
+// Ad links point here; the function records the click and redirects to link_url.
+// Until the view token arrives the link still works, it just isn't counted.
+export function getAdClickUrl(adId: string, view?: string): string {
+  const params = new URLSearchParams({ ad: adId });
+  if (view) params.set('view', view);
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ad-event?${params}`;
+}
+
+// Called once the ad has been at least half visible for AD_VIEWABLE_MS
+export function trackAdImpression(adId: string, view: string, visibleMs: number) {
+  // Fire-and-forget, like article views
+  supabase.functions
+    .invoke('ad-event', { body: { type: 'impression', adId, view, visibleMs } })
+    .then(({ error }) => {
+      if (error) console.error('Error recording ad impression:', error);
+    })
+    .catch(error => console.error('Error recording ad impression:', error));
+}
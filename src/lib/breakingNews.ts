@@ -0,0 +1,130 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, BreakingNews } from './supabase';
+
+export type BreakingNewsStatus = 'live' | 'scheduled' | 'expired' | 'off' | 'killed';
+
+export const BREAKING_NEWS_STATUS_LABELS: Record<BreakingNewsStatus, string> = {
+  live: 'Live',
+  scheduled: 'Scheduled',
+  expired: 'Expired',
+  off: 'Off',
+  killed: 'Killed'
+};
+
+export const BREAKING_NEWS_BADGE_CLASSES: Record<BreakingNewsStatus, string> = {
+  live: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  scheduled: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  expired: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  off: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  killed: 'bg-gray-800 text-white dark:bg-black dark:text-gray-200'
+};
+
+export const MIN_PRIORITY = 1;
+export const MAX_PRIORITY = 10;
+
+const CHANNEL_NAME = 'breaking-news';
+
+export function getBreakingNewsStatus(item: BreakingNews, now: number = Date.now()): BreakingNewsStatus {
+  if (!item.is_active) return item.killed_at ? 'killed' : 'off';
+  if (item.expires_at && Date.parse(item.expires_at) <= now) return 'expired';
+  if (item.starts_at && Date.parse(item.starts_at) > now) return 'scheduled';
+  return 'live';
+}
+
+// setTimeout overflows past ~24.8 days and fires immediately
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// Milliseconds until the next start or expiry, when the set of live items changes
+// without any database event; null when nothing is pending
+export function msUntilNextBreakingNewsChange(items: BreakingNews[], now: number = Date.now()): number | null {
+  const upcoming = items
+    .filter(item => item.is_active)
+    .flatMap(item => [item.starts_at, item.expires_at])
+    .map(value => (value ? Date.parse(value) : NaN))
+    .filter(time => time > now);
+  return upcoming.length ? Math.min(Math.min(...upcoming) - now, MAX_TIMER_DELAY) : null;
+}
+
+// Readers cannot see an item before it starts, so banners wait for the next start
+// and refetch; null when nothing is scheduled
+export async function fetchMsUntilNextBreakingNews(): Promise<number | null> {
+  const { data, error } = await supabase.rpc('seconds_until_next_breaking_news');
+
+  if (error) throw error;
+  return data === null ? null : Math.min(Math.max(data * 1000, 0), MAX_TIMER_DELAY);
+}
+
+// Active, unexpired items; staff also get scheduled ones, readers only those that
+// have started. Callers decide what is live.
+export async function fetchActiveBreakingNews(): Promise<BreakingNews[]> {
+  const { data, error } = await supabase
+    .from('breaking_news')
+    .select('*')
+    .eq('is_active', true)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order('priority', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+interface BreakingNewsListener {
+  onChange: () => void;
+}
+
+// An update reaches readers both as a row change and as the database's broadcast
+const CHANGE_COALESCE_MS = 250;
+
+const listeners = new Set<BreakingNewsListener>();
+let channel: RealtimeChannel | null = null;
+let changeTimer: ReturnType<typeof setTimeout> | null = null;
+
+function notifyChange() {
+  if (changeTimer) return;
+  changeTimer = setTimeout(() => {
+    changeTimer = null;
+    listeners.forEach(l => l.onChange());
+  }, CHANGE_COALESCE_MS);
+}
+
+// supabase.channel() hands back the same channel for the same name, so the header,
+// the home page banner and the console share one subscription instead of
+// unsubscribing each other.
+//
+// Once a row is switched off, readers can no longer see it through RLS and so never
+// receive its change event. A trigger broadcasts every change on this channel as
+// well; anyone can post to a public channel, so the message only ever causes a
+// refetch and never removes anything by itself.
+export function subscribeToBreakingNews(listener: BreakingNewsListener): () => void {
+  listeners.add(listener);
+
+  if (!channel) {
+    channel = supabase
+      .channel(CHANNEL_NAME)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'breaking_news' },
+        notifyChange
+      )
+      .on('broadcast', { event: 'changed' }, notifyChange)
+      .subscribe();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && channel) {
+      supabase.removeChannel(channel);
+      channel = null;
+    }
+  };
+}
+
+// The breaking_news_broadcast_change trigger tells every open banner
+export async function killBreakingNews(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('breaking_news')
+    .update({ is_active: false, killed_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+}
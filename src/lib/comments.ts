@@ -0,0 +1,391 @@
+import { supabase, Comment, CommentBan, CommentBanKind, CommentReport, CommentReportReason, SpamReason } from './supabase';
+
+export interface NewComment {
+  articleId: string;
+  parentId?: string | null;
+  authorName: string;
+  authorEmail: string;
+  content: string;
+  // Honeypot: hidden from people, so anything in it came from a bot
+  website?: string;
+}
+
+export type SubmittedCommentStatus = 'published' | 'pending';
+
+export interface SubmittedComment {
+  id: string;
+  status: SubmittedCommentStatus;
+}
+
+export const SPAM_REASON_LABELS: Record<SpamReason['code'], string> = {
+  honeypot: 'Honeypot',
+  links: 'Links',
+  blocklist: 'Blocklist',
+  repeated: 'Repeated text',
+  velocity: 'Posting rate'
+};
+
+export type CommentSort = 'newest' | 'oldest' | 'top';
+
+export const COMMENT_REPORT_REASONS: Record<CommentReportReason, { label: string; weight: number }> = {
+  harassment: { label: 'Harassment or hate', weight: 3 },
+  abuse: { label: 'Abusive language', weight: 3 },
+  misinformation: { label: 'Misinformation', weight: 2 },
+  spam: { label: 'Spam or advertising', weight: 1 },
+  off_topic: { label: 'Off topic', weight: 1 },
+  other: { label: 'Something else', weight: 1 }
+};
+
+// What readers may see of a comment; the public_comments view has exactly these
+export type PublicComment = Pick<Comment, 'id' | 'article_id' | 'parent_id' | 'author_name' | 'content' | 'created_at' | 'upvotes'>;
+
+export const PUBLIC_COMMENT_COLUMNS = 'id, article_id, parent_id, author_name, content, created_at, upvotes';
+
+export interface CommentThread extends PublicComment {
+  replies: CommentThread[];
+  // Every comment below this one, at any depth
+  replyCount: number;
+}
+
+// Turns a flat list of an article's comments into reply trees of any depth. The sort
+// applies to top-level comments; replies always read oldest first so conversations
+// stay in order. Replies to comments that are missing from the list (not approved,
+// spam or deleted) are left out along with their parent.
+export function buildCommentThreads(comments: PublicComment[], sort: CommentSort = 'newest'): CommentThread[] {
+  const byParent = new Map<string | null, PublicComment[]>();
+  comments.forEach(comment => {
+    const siblings = byParent.get(comment.parent_id) || [];
+    siblings.push(comment);
+    byParent.set(comment.parent_id, siblings);
+  });
+
+  const build = (comment: PublicComment): CommentThread => {
+    const replies = (byParent.get(comment.id) || [])
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(build);
+
+    return {
+      ...comment,
+      replies,
+      replyCount: replies.reduce((total, reply) => total + 1 + reply.replyCount, 0)
+    };
+  };
+
+  const newestFirst = (a: PublicComment, b: PublicComment) => b.created_at.localeCompare(a.created_at);
+  const compare = {
+    newest: newestFirst,
+    oldest: (a: PublicComment, b: PublicComment) => a.created_at.localeCompare(b.created_at),
+    top: (a: PublicComment, b: PublicComment) => (b.upvotes || 0) - (a.upvotes || 0) || newestFirst(a, b)
+  }[sort];
+
+  return (byParent.get(null) || [])
+    .sort(compare)
+    .map(build);
+}
+
+// Comments go through the submit-comment edge function, which scores them for spam
+// and records the sender's IP server-side
+export async function submitComment(comment: NewComment): Promise<SubmittedComment> {
+  const { data, error } = await supabase.functions.invoke('submit-comment', {
+    body: comment
+  });
+
+  if (error) {
+    // Non-2xx responses carry { error: { code, message } } in the response body
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error?.message || error.message);
+  }
+  if (data?.error) throw new Error(data.error.message);
+
+  return data.comment as SubmittedComment;
+}
+
+// Used by the /unsubscribe page that notification emails link to
+export async function unsubscribeFromCommentEmails(email: string, token: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('comment-unsubscribe', {
+    body: { email, token }
+  });
+
+  if (error) {
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error?.message || error.message);
+  }
+  if (data?.error) throw new Error(data.error.message);
+}
+
+const VOTED_COMMENTS_KEY = 'votedComments';
+const REPORTED_COMMENTS_KEY = 'reportedComments';
+
+// The server keeps the real record; these only remember what this browser did so the
+// buttons can show it
+function readCommentIds(key: string): Set<string> {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(key) || '[]'));
+  } catch {
+    return new Set();
+  }
+}
+
+function writeCommentIds(key: string, ids: Set<string>) {
+  localStorage.setItem(key, JSON.stringify(Array.from(ids)));
+}
+
+export function getVotedComments(): Set<string> {
+  return readCommentIds(VOTED_COMMENTS_KEY);
+}
+
+export function getReportedComments(): Set<string> {
+  return readCommentIds(REPORTED_COMMENTS_KEY);
+}
+
+async function invokeCommentFeedback(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke('comment-feedback', { body });
+
+  if (error) {
+    const response = await error.context?.json?.().catch(() => null);
+    throw new Error(response?.error?.message || error.message);
+  }
+  if (data?.error) throw new Error(data.error.message);
+
+  return data;
+}
+
+// Returns the comment's new vote count
+export async function voteComment(commentId: string, upvote: boolean): Promise<number> {
+  const data = await invokeCommentFeedback({ action: upvote ? 'upvote' : 'unvote', commentId });
+
+  const voted = getVotedComments();
+  if (upvote) {
+    voted.add(commentId);
+  } else {
+    voted.delete(commentId);
+  }
+  writeCommentIds(VOTED_COMMENTS_KEY, voted);
+
+  return data.upvotes;
+}
+
+export async function reportComment(commentId: string, reason: CommentReportReason, details?: string): Promise<void> {
+  await invokeCommentFeedback({ action: 'report', commentId, reason, details });
+
+  const reported = getReportedComments();
+  reported.add(commentId);
+  writeCommentIds(REPORTED_COMMENTS_KEY, reported);
+}
+
+export interface ReportedComment {
+  comment: Comment;
+  reports: CommentReport[];
+  // Sum of the reason weights, so one harassment report outranks two off-topic ones
+  priority: number;
+}
+
+// Comments with unresolved reports, most urgent first
+export async function fetchReportQueue(): Promise<ReportedComment[]> {
+  const { data, error } = await supabase
+    .from('comment_reports')
+    .select(`
+      *,
+      comment:comments (
+        *,
+        article:articles (
+          id,
+          title,
+          slug
+        )
+      )
+    `)
+    .is('resolved_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const queue = new Map<string, ReportedComment>();
+  (data || []).forEach(({ comment, ...report }) => {
+    if (!comment) return;
+    const entry: ReportedComment = queue.get(report.comment_id) || { comment, reports: [], priority: 0 };
+    entry.reports.push(report);
+    entry.priority += COMMENT_REPORT_REASONS[report.reason as CommentReportReason]?.weight || 1;
+    queue.set(report.comment_id, entry);
+  });
+
+  return Array.from(queue.values()).sort((a, b) =>
+    b.priority - a.priority || b.reports[0].created_at.localeCompare(a.reports[0].created_at)
+  );
+}
+
+// Closes every open report on a comment. 'actioned' means the comment was dealt with
+// (rejected, marked as spam or deleted); 'dismissed' means it was fine.
+// Returns the ids of the reports it closed, so an undo can reopen exactly those
+export async function resolveCommentReports(commentId: string, resolution: 'dismissed' | 'actioned'): Promise<string[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { data, error } = await supabase
+    .from('comment_reports')
+    .update({
+      resolution,
+      resolved_at: new Date().toISOString(),
+      resolved_by: user?.id || null
+    })
+    .eq('comment_id', commentId)
+    .is('resolved_at', null)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).map(report => report.id);
+}
+
+export async function reopenCommentReports(reportIds: string[]): Promise<void> {
+  if (reportIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('comment_reports')
+    .update({ resolution: null, resolved_at: null, resolved_by: null })
+    .in('id', reportIds);
+
+  if (error) throw error;
+}
+
+export type ModerationDecision = 'approve' | 'reject' | 'spam';
+
+export type CommentModerationState = Pick<Comment, 'id' | 'is_approved' | 'is_spam' | 'moderated_at'>;
+
+const DECISION_CHANGES: Record<ModerationDecision, Pick<Comment, 'is_approved' | 'is_spam'>> = {
+  approve: { is_approved: true, is_spam: false },
+  reject: { is_approved: false, is_spam: false },
+  spam: { is_approved: false, is_spam: true }
+};
+
+// Waiting for a moderator: neither decided on nor caught by the spam filter
+export function isPendingComment(comment: Comment): boolean {
+  return !comment.is_approved && !comment.is_spam && !comment.moderated_at;
+}
+
+export function isRejectedComment(comment: Comment): boolean {
+  return !comment.is_approved && !comment.is_spam && !!comment.moderated_at;
+}
+
+export function moderationChanges(decision: ModerationDecision): Pick<Comment, 'is_approved' | 'is_spam' | 'moderated_at'> {
+  return { ...DECISION_CHANGES[decision], moderated_at: new Date().toISOString() };
+}
+
+export async function moderateComments(commentIds: string[], decision: ModerationDecision): Promise<void> {
+  if (commentIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('comments')
+    .update({
+      ...moderationChanges(decision),
+      updated_at: new Date().toISOString()
+    })
+    .in('id', commentIds);
+
+  if (error) throw error;
+}
+
+// Puts comments back the way they were before a decision, for undo. Comments that
+// shared a state (the usual case after a bulk action) are restored in one update.
+export async function restoreCommentModeration(states: CommentModerationState[]): Promise<void> {
+  const groups = new Map<string, string[]>();
+  states.forEach(({ id, ...state }) => {
+    const key = JSON.stringify(state);
+    groups.set(key, [...(groups.get(key) || []), id]);
+  });
+
+  await Promise.all(Array.from(groups.entries()).map(async ([key, ids]) => {
+    const { error } = await supabase
+      .from('comments')
+      .update({ ...JSON.parse(key), updated_at: new Date().toISOString() })
+      .in('id', ids);
+
+    if (error) throw error;
+  }));
+}
+
+export interface NewCommentBan {
+  kind: CommentBanKind;
+  // Email address, IP address or CIDR range, depending on kind
+  value: string;
+  reason?: string;
+  // Days until the ban lapses; null bans for good
+  days: number | null;
+  commentId?: string | null;
+}
+
+export const COMMENT_BAN_KIND_LABELS: Record<CommentBanKind, string> = {
+  email: 'Email',
+  ip: 'IP address',
+  ip_range: 'IP range'
+};
+
+export const COMMENT_BAN_DURATIONS: { label: string; days: number | null }[] = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '1 year', days: 365 },
+  { label: 'Permanent', days: null }
+];
+
+// The /24 network around an IPv4 address, e.g. 203.0.113.7 -> 203.0.113.0/24
+export function ipv4Range(ip: string): string | null {
+  const octets = ip.trim().split('.');
+  if (octets.length !== 4 || octets.some(octet => !/^\d{1,3}$/.test(octet) || Number(octet) > 255)) {
+    return null;
+  }
+  return `${octets.slice(0, 3).join('.')}.0/24`;
+}
+
+export function isCommentBanActive(ban: CommentBan): boolean {
+  return !ban.expires_at || new Date(ban.expires_at).getTime() > Date.now();
+}
+
+// Bans are read by the submit-comment edge function before a comment is scored
+export async function fetchCommentBans(): Promise<CommentBan[]> {
+  const { data, error } = await supabase
+    .from('comment_bans')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createCommentBan(ban: NewCommentBan): Promise<CommentBan> {
+  const value = ban.value.trim();
+  const { data, error } = await supabase
+    .from('comment_bans')
+    .insert({
+      kind: ban.kind,
+      email: ban.kind === 'email' ? value.toLowerCase() : null,
+      ip_range: ban.kind === 'email' ? null : value,
+      reason: ban.reason?.trim() || null,
+      expires_at: ban.days ? new Date(Date.now() + ban.days * 24 * 60 * 60 * 1000).toISOString() : null,
+      comment_id: ban.commentId || null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // 22P02: Postgres could not parse the IP address or range
+    if (error.code === '22P02') {
+      throw new Error(ban.kind === 'ip_range'
+        ? 'Enter a network range such as 203.0.113.0/24'
+        : 'Enter a valid IP address');
+    }
+    // 23514: a network range saved as a single IP
+    if (error.code === '23514' && ban.kind === 'ip') {
+      throw new Error('Enter a single IP address, or ban an IP range instead');
+    }
+    throw error;
+  }
+
+  return data;
+}
+
+export async function liftCommentBan(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('comment_bans')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
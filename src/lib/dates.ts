@@ -0,0 +1,45 @@
+// Calendar-day helpers pinned to the newsroom's timezone. Day strings are
+// plain `YYYY-MM-DD` values in Europe/Belgrade, never UTC dates.
+export const SITE_TIMEZONE = 'Europe/Belgrade';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const siteDayFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: SITE_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+});
+
+export function toSiteDay(date: Date | string = new Date()): string {
+  return siteDayFormatter.format(typeof date === 'string' ? new Date(date) : date);
+}
+
+export function addDays(day: string, amount: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  return new Date(date.getTime() + amount * DAY_MS).toISOString().split('T')[0];
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+export function formatSiteDay(day: string, options: Intl.DateTimeFormatOptions): string {
+  // Day strings carry no time, so format them as UTC to keep the calendar date intact
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+export function formatSiteTime(date: string | Date): string {
+  return new Date(date).toLocaleTimeString('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: SITE_TIMEZONE
+  });
+}
+
+// Value for a datetime-local input, which expects the browser's local time
+export function toDateTimeLocal(date: string | Date | null): string {
+  if (!date) return '';
+  const value = new Date(date);
+  return new Date(value.getTime() - value.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
@@ -0,0 +1,103 @@
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+// Above this many DP cells the diff falls back to coarser line tokens
+const MAX_DIFF_CELLS = 4_000_000;
+
+export function tokenizeText(text: string): string[] {
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+export function tokenizeHtml(html: string): string[] {
+  return html.split(/(<[^>]+>|\s+)/).filter(Boolean);
+}
+
+function tokenizeLines(text: string): string[] {
+  return text.split(/(\n)/).filter(Boolean);
+}
+
+export function htmlToText(html: string): string {
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote|tr|figure)>/gi, '$&\n');
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], value: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    parts.push({ type, value });
+  }
+}
+
+export function diffTokens(before: string[], after: string[]): DiffPart[] {
+  // Edits are usually local, so trimming the shared prefix and suffix keeps the table small
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const parts: DiffPart[] = [];
+
+  if (prefix > 0) pushPart(parts, 'equal', before.slice(0, prefix).join(''));
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    const joinedA = a.join('');
+    const joinedB = b.join('');
+    const linesA = tokenizeLines(joinedA);
+    const linesB = tokenizeLines(joinedB);
+    if ((linesA.length + 1) * (linesB.length + 1) > MAX_DIFF_CELLS) {
+      if (joinedA) pushPart(parts, 'removed', joinedA);
+      if (joinedB) pushPart(parts, 'added', joinedB);
+    } else {
+      diffTokens(linesA, linesB).forEach(part => pushPart(parts, part.type, part.value));
+    }
+  } else {
+    // Longest common subsequence table, filled from the end
+    const width = b.length + 1;
+    const table = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        table[i * width + j] = a[i] === b[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        pushPart(parts, 'equal', a[i]);
+        i++;
+        j++;
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        pushPart(parts, 'removed', a[i++]);
+      } else {
+        pushPart(parts, 'added', b[j++]);
+      }
+    }
+    while (i < a.length) pushPart(parts, 'removed', a[i++]);
+    while (j < b.length) pushPart(parts, 'added', b[j++]);
+  }
+
+  if (suffix > 0) pushPart(parts, 'equal', before.slice(before.length - suffix).join(''));
+
+  return parts;
+}
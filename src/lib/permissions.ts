@@ -0,0 +1,83 @@
+export type Role =
+  | 'admin'
+  | 'editor_in_chief'
+  | 'editor'
+  | 'author'
+  | 'moderator'
+  | 'ad_manager'
+  | 'subscriber';
+
+export type Permission =
+  | 'dashboard.view'
+  | 'articles.write'
+  | 'articles.review'
+  | 'articles.delete'
+  | 'categories.manage'
+  | 'breaking_news.manage'
+  | 'comments.moderate'
+  | 'ads.manage'
+  | 'analytics.view'
+  | 'site_content.manage'
+  | 'settings.manage'
+  | 'users.manage';
+
+export const ROLES: Role[] = ['admin', 'editor_in_chief', 'editor', 'author', 'moderator', 'ad_manager', 'subscriber'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  editor_in_chief: 'Editor-in-chief',
+  editor: 'Editor',
+  author: 'Author',
+  moderator: 'Moderator',
+  ad_manager: 'Ad manager',
+  subscriber: 'Subscriber'
+};
+
+export const ROLE_BADGE_CLASSES: Record<Role, string> = {
+  admin: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  editor_in_chief: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  editor: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  author: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  moderator: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  ad_manager: 'bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200',
+  subscriber: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+};
+
+// Keep in sync with the role_permissions seed in supabase/migrations
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'dashboard.view', 'articles.write', 'articles.review', 'articles.delete', 'categories.manage',
+    'breaking_news.manage', 'comments.moderate', 'ads.manage', 'analytics.view', 'site_content.manage',
+    'settings.manage', 'users.manage'
+  ],
+  editor_in_chief: [
+    'dashboard.view', 'articles.write', 'articles.review', 'articles.delete', 'categories.manage',
+    'breaking_news.manage', 'comments.moderate', 'analytics.view', 'site_content.manage'
+  ],
+  editor: ['dashboard.view', 'articles.write', 'articles.review', 'breaking_news.manage', 'comments.moderate'],
+  author: ['dashboard.view', 'articles.write'],
+  moderator: ['dashboard.view', 'comments.moderate'],
+  ad_manager: ['dashboard.view', 'ads.manage'],
+  subscriber: []
+};
+
+export function isRole(role: string | null | undefined): role is Role {
+  return !!role && Object.hasOwn(ROLE_PERMISSIONS, role);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function rolesWith(permission: Permission): Role[] {
+  return ROLES.filter(role => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+export function getRoleLabel(role: string | null | undefined): string {
+  if (!role) return 'No role';
+  return isRole(role) ? ROLE_LABELS[role] : role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+export function getRoleBadgeClass(role: string | null | undefined): string {
+  return isRole(role) ? ROLE_BADGE_CLASSES[role] : ROLE_BADGE_CLASSES.subscriber;
+}
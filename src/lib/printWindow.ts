@@ -0,0 +1,60 @@
+// Previews and printable reports open in a window of their own with plain HTML, so
+// they print (or save as PDF from the print dialog) without the app around them.
+
+const BASE_STYLES = `
+  body {
+    font-family: Arial, sans-serif;
+    padding: 20px;
+    color: #111827;
+  }
+  @media print {
+    body { padding: 0; }
+    .no-print { display: none; }
+  }
+`;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+interface PrintWindowOptions {
+  styles?: string;
+  width?: number;
+  height?: number;
+  // Open the print dialog straight away
+  print?: boolean;
+}
+
+// Returns false when the browser blocked the popup
+export function openPrintWindow(
+  title: string,
+  body: string,
+  { styles = '', width = 800, height = 600, print = false }: PrintWindowOptions = {}
+): boolean {
+  const printWindow = window.open('', '_blank', `width=${width},height=${height}`);
+  if (!printWindow) return false;
+
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${escapeHtml(title)}</title>
+      <style>${BASE_STYLES}${styles}</style>
+    </head>
+    <body>
+      ${body}
+    </body>
+    </html>
+  `);
+  printWindow.document.close();
+
+  if (print) {
+    printWindow.focus();
+    printWindow.print();
+  }
+  return true;
+}
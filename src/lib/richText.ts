@@ -0,0 +1,153 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+
+interface EmbedProvider {
+  name: string;
+  pattern: RegExp;
+  toEmbedUrl: (match: RegExpMatchArray) => string;
+}
+
+// Only these providers may be embedded; anything else stays a plain link
+export const EMBED_PROVIDERS: EmbedProvider[] = [
+  {
+    name: 'YouTube',
+    pattern: /^https?:\/\/(?:www\.|m\.)?(?:youtube(?:-nocookie)?\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/)|youtu\.be\/)([\w-]{11})/,
+    toEmbedUrl: match => `https://www.youtube-nocookie.com/embed/${match[1]}`
+  },
+  {
+    name: 'Vimeo',
+    pattern: /^https?:\/\/(?:www\.|player\.)?vimeo\.com\/(?:video\/)?(\d+)/,
+    toEmbedUrl: match => `https://player.vimeo.com/video/${match[1]}`
+  },
+  {
+    name: 'Spotify',
+    pattern: /^https?:\/\/open\.spotify\.com\/(?:embed\/)?(track|album|playlist|episode|show)\/(\w+)/,
+    toEmbedUrl: match => `https://open.spotify.com/embed/${match[1]}/${match[2]}`
+  }
+];
+
+export function toEmbedUrl(url: string): string | null {
+  for (const provider of EMBED_PROVIDERS) {
+    const match = url.trim().match(provider.pattern);
+    if (match) return provider.toEmbedUrl(match);
+  }
+  return null;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    embed: {
+      setEmbed: (options: { src: string }) => ReturnType;
+    };
+  }
+}
+
+// Block-level iframe embed, serialized as <figure data-embed><iframe></iframe></figure>
+export const Embed = Node.create({
+  name: 'embed',
+  group: 'block',
+  atom: true,
+  draggable: true,
+
+  addAttributes() {
+    return {
+      src: { default: null }
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'figure[data-embed]',
+        getAttrs: element => {
+          const src = (element as HTMLElement).querySelector('iframe')?.getAttribute('src');
+          return src && toEmbedUrl(src) ? { src: toEmbedUrl(src) } : false;
+        }
+      },
+      {
+        tag: 'iframe[src]',
+        getAttrs: element => {
+          const src = (element as HTMLElement).getAttribute('src');
+          return src && toEmbedUrl(src) ? { src: toEmbedUrl(src) } : false;
+        }
+      }
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'figure',
+      { 'data-embed': '', class: 'article-embed' },
+      ['iframe', mergeAttributes(HTMLAttributes, {
+        frameborder: '0',
+        allowfullscreen: 'true',
+        loading: 'lazy',
+        allow: 'encrypted-media; picture-in-picture'
+      })]
+    ];
+  },
+
+  addCommands() {
+    return {
+      setEmbed: options => ({ commands }) => {
+        const src = toEmbedUrl(options.src);
+        if (!src) return false;
+        return commands.insertContent({ type: this.name, attrs: { src } });
+      }
+    };
+  }
+});
+
+// Word and Google Docs paste a lot of presentational markup; keep the structure only
+export function cleanPastedHtml(html: string): string {
+  const cleaned = html
+    .replace(/<!--\[if[\s\S]*?<!\[endif\]-->/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(style|meta|link|xml|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<(meta|link)[^>]*\/?>/gi, '')
+    .replace(/<\/?o:p[^>]*>/gi, '')
+    .replace(/<\/?(v|w|m):[^>]*>/gi, '');
+
+  const doc = new DOMParser().parseFromString(cleaned, 'text/html');
+
+  // Google Docs wraps the whole paste in <b id="docs-internal-guid-..."> and marks
+  // real emphasis with inline styles, so translate those before styles are dropped
+  doc.body.querySelectorAll('b[id^="docs-internal-guid"]').forEach(element => {
+    element.replaceWith(...Array.from(element.childNodes));
+  });
+
+  doc.body.querySelectorAll<HTMLElement>('span[style]').forEach(element => {
+    const weight = element.style.fontWeight;
+    let replacement: HTMLElement = element;
+    if (weight === 'bold' || Number(weight) >= 600) {
+      const strong = doc.createElement('strong');
+      strong.append(...Array.from(replacement.childNodes));
+      replacement.append(strong);
+      replacement = strong;
+    }
+    if (element.style.fontStyle === 'italic') {
+      const em = doc.createElement('em');
+      em.append(...Array.from(replacement.childNodes));
+      replacement.append(em);
+    }
+  });
+
+  doc.body.querySelectorAll('*').forEach(element => {
+    element.removeAttribute('style');
+    element.removeAttribute('class');
+    element.removeAttribute('lang');
+    element.removeAttribute('id');
+    Array.from(element.attributes)
+      .filter(attribute => attribute.name.startsWith('data-') && attribute.name !== 'data-embed')
+      .forEach(attribute => element.removeAttribute(attribute.name));
+  });
+
+  doc.body.querySelectorAll('span, font').forEach(element => {
+    element.replaceWith(...Array.from(element.childNodes));
+  });
+
+  return doc.body.innerHTML;
+}
+
+export function isEmptyHtml(html: string): boolean {
+  return html.replace(/<p>\s*<\/p>/g, '').trim() === '';
+}
@@ -0,0 +1,156 @@
+import DOMPurify, { Config } from 'dompurify';
+import { toEmbedUrl } from './richText';
+
+export interface SanitizeReportItem {
+  kind: 'element' | 'attribute' | 'link';
+  name: string;
+  // Tag the attribute was removed from, e.g. "img" for onerror
+  on?: string;
+  count: number;
+}
+
+export interface SanitizeResult {
+  html: string;
+  removed: SanitizeReportItem[];
+}
+
+// Everything the rich text editor can produce, and nothing else
+const ARTICLE_CONFIG: Config = {
+  ALLOWED_TAGS: [
+    'p', 'br', 'h2', 'h3', 'h4', 'strong', 'b', 'em', 'i', 's', 'u',
+    'a', 'ul', 'ol', 'li', 'blockquote', 'hr', 'img', 'figure', 'figcaption',
+    'table', 'colgroup', 'col', 'thead', 'tbody', 'tr', 'th', 'td', 'iframe'
+  ],
+  ALLOWED_ATTR: [
+    'href', 'target', 'rel', 'src', 'alt', 'title', 'colspan', 'rowspan', 'style',
+    'class', 'data-embed', 'frameborder', 'allowfullscreen', 'loading', 'allow'
+  ],
+  ALLOWED_URI_REGEXP: /^(?:(?:https?|mailto):|[^a-z]|[a-z+.-]+(?:[^a-z+.\-:]|$))/i,
+  ALLOW_DATA_ATTR: false,
+  KEEP_CONTENT: true
+};
+
+const TABLE_WIDTH_STYLE = /^(?:min-)?width:\s*\d+px;?$/;
+const EMBED_ALLOW = 'encrypted-media; picture-in-picture';
+const SAFE_LINK = /^(?:https?:\/\/|mailto:)/i;
+// The parser wrappers show up in DOMPurify.removed but are not content
+const IGNORED_ELEMENTS = new Set(['html', 'head', 'body']);
+
+const purifier = DOMPurify();
+let detached: Element[] = [];
+
+// Attributes that are allowed by name but only with the values the editor writes
+purifier.addHook('uponSanitizeAttribute', (node, data) => {
+  const tag = node.nodeName.toLowerCase();
+  const value = data.attrValue;
+
+  switch (data.attrName) {
+    case 'style':
+      data.keepAttr = (tag === 'table' || tag === 'col') && TABLE_WIDTH_STYLE.test(value);
+      break;
+    case 'class':
+      data.keepAttr = tag === 'figure' && value === 'article-embed';
+      break;
+    case 'data-embed':
+      data.keepAttr = tag === 'figure';
+      break;
+    case 'frameborder':
+    case 'allowfullscreen':
+      data.keepAttr = tag === 'iframe';
+      break;
+    case 'loading':
+      data.keepAttr = tag === 'iframe' || tag === 'img';
+      break;
+    case 'allow':
+      data.keepAttr = tag === 'iframe' && value === EMBED_ALLOW;
+      break;
+    case 'src':
+      if (tag === 'iframe') {
+        data.keepAttr = toEmbedUrl(value) === value;
+      } else if (tag === 'img') {
+        data.keepAttr = /^https?:\/\//i.test(value) || value.startsWith('/');
+      }
+      break;
+  }
+});
+
+purifier.addHook('afterSanitizeAttributes', node => {
+  const element = node as Element;
+  const tag = element.nodeName.toLowerCase();
+
+  // An embed or image that lost its source is an empty box; drop it entirely
+  if ((tag === 'iframe' || tag === 'img') && !element.getAttribute('src')) {
+    detached.push(element);
+    element.remove();
+    return;
+  }
+
+  if (tag === 'a' && element.hasAttribute('target')) {
+    element.setAttribute('target', '_blank');
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+function summarize(removed: typeof DOMPurify.removed): SanitizeReportItem[] {
+  const items = new Map<string, SanitizeReportItem>();
+  const add = (item: Omit<SanitizeReportItem, 'count'>) => {
+    const key = `${item.kind}:${item.name}:${item.on || ''}`;
+    const existing = items.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      items.set(key, { ...item, count: 1 });
+    }
+  };
+
+  removed.forEach(entry => {
+    if ('element' in entry) {
+      const name = entry.element.nodeName.toLowerCase().replace(/^#/, '');
+      if (!IGNORED_ELEMENTS.has(name) && name !== 'text') add({ kind: 'element', name });
+    } else if (entry.attribute && !detached.includes(entry.from as Element)) {
+      add({ kind: 'attribute', name: entry.attribute.name.toLowerCase(), on: entry.from.nodeName.toLowerCase() });
+    }
+  });
+
+  detached.forEach(element => add({ kind: 'element', name: element.nodeName.toLowerCase() }));
+
+  return Array.from(items.values());
+}
+
+export function sanitizeArticleHtml(html: string): SanitizeResult {
+  detached = [];
+  const clean = purifier.sanitize(html || '', ARTICLE_CONFIG) as string;
+  return { html: clean, removed: summarize(purifier.removed) };
+}
+
+function isLinkKey(key: string): boolean {
+  return key.startsWith('social_') || key.endsWith('_url');
+}
+
+// Site content is rendered as text (or as an href for link keys), so markup is
+// never wanted there
+export function sanitizeSiteContent(key: string, value: string): { value: string; removed: SanitizeReportItem[] } {
+  if (isLinkKey(key)) {
+    const trimmed = (value || '').trim();
+    if (trimmed === '' || SAFE_LINK.test(trimmed)) return { value: trimmed, removed: [] };
+    return { value: '', removed: [{ kind: 'link', name: trimmed, count: 1 }] };
+  }
+
+  detached = [];
+  const fragment = purifier.sanitize(value || '', { ALLOWED_TAGS: ['#text'], KEEP_CONTENT: true, RETURN_DOM_FRAGMENT: true });
+  return { value: fragment.textContent || '', removed: summarize(purifier.removed) };
+}
+
+export function describeSanitizeReport(removed: SanitizeReportItem[]): string[] {
+  return removed.map(item => {
+    const times = item.count > 1 ? ` (×${item.count})` : '';
+    switch (item.kind) {
+      case 'element':
+        return item.name === 'comment' ? `HTML comment${times}` : `<${item.name}> element${times}`;
+      case 'attribute':
+        return `"${item.name}" attribute on <${item.on}>${times}`;
+      case 'link':
+        return `Link "${item.name}" (only http, https and mailto links are allowed)`;
+    }
+  });
+}
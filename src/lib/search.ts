@@ -0,0 +1,231 @@
+import { supabase } from './supabase';
+
+export type SearchSort = 'relevance' | 'published_at-desc' | 'published_at-asc' | 'title';
+
+export interface SearchResult {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  featured_image_url: string | null;
+  category: string | null;
+  author_name: string | null;
+  published_at: string | null;
+  reading_time: number | null;
+  rank: number;
+  // Title and body excerpt with matched words wrapped in HIGHLIGHT_START/END
+  title_highlight: string;
+  snippet: string | null;
+}
+
+export interface SearchFilters {
+  category?: string | null;
+  // Articles must carry every one of these tags
+  tags?: string[];
+  author?: string | null;
+  language?: string | null;
+  since?: string | null;
+  until?: string | null;
+}
+
+export interface SearchOptions extends SearchFilters {
+  query: string;
+  sort?: SearchSort;
+  page?: number;
+  pageSize?: number;
+}
+
+// Filters as the search page keeps them in its URL
+export interface SearchFilterState {
+  category: string;
+  tags: string[];
+  author: string;
+  language: string;
+  // Preset window in days, or empty for the custom from/to range
+  date: string;
+  from: string;
+  to: string;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilterState = {
+  category: '',
+  tags: [],
+  author: '',
+  language: '',
+  date: '',
+  from: '',
+  to: ''
+};
+
+export function hasSearchFilters(filters: SearchFilterState) {
+  return Boolean(
+    filters.category || filters.tags.length || filters.author || filters.language ||
+    filters.date || filters.from || filters.to
+  );
+}
+
+export type SearchFacetName = 'category' | 'tag' | 'author' | 'language' | 'date';
+
+export interface SearchFacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export type SearchFacets = Record<SearchFacetName, SearchFacetValue[]>;
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+// Control characters the search_articles RPC uses around matches; they never occur
+// in article text, so there is nothing to escape
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+const HIGHLIGHT_PATTERN = new RegExp(`${HIGHLIGHT_START}([^${HIGHLIGHT_END}]*)${HIGHLIGHT_END}`, 'g');
+
+function filterParams({ category, tags, author, language, since, until }: SearchFilters) {
+  return {
+    p_category: category || null,
+    p_tags: tags?.length ? tags : null,
+    p_author: author || null,
+    p_language: language || null,
+    p_since: since || null,
+    p_until: until || null
+  };
+}
+
+export async function searchArticles({
+  query,
+  sort = 'relevance',
+  page = 1,
+  pageSize = 12,
+  ...filters
+}: SearchOptions): Promise<{ results: SearchResult[]; total: number }> {
+  const { data, error } = await supabase.rpc('search_articles', {
+    p_query: query,
+    ...filterParams(filters),
+    p_sort: sort,
+    p_limit: pageSize,
+    p_offset: (page - 1) * pageSize
+  });
+
+  if (error) throw error;
+
+  const rows = (data || []) as (SearchResult & { total_count: number })[];
+  return {
+    results: rows.map(({ total_count, ...result }) => result),
+    total: rows[0]?.total_count || 0
+  };
+}
+
+// Counts per facet value, each computed with every other filter applied, so a reader
+// can see what switching to a different value would return
+export async function fetchSearchFacets(query: string, filters: SearchFilters): Promise<SearchFacets> {
+  const { data, error } = await supabase.rpc('search_facets', {
+    p_query: query,
+    ...filterParams(filters)
+  });
+
+  if (error) throw error;
+
+  const facets: SearchFacets = { category: [], tag: [], author: [], language: [], date: [] };
+  for (const row of (data || []) as { facet: SearchFacetName; value: string; label: string; hits: number }[]) {
+    facets[row.facet]?.push({ value: row.value, label: row.label, count: Number(row.hits) });
+  }
+  return facets;
+}
+
+export function splitHighlights(text: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(HIGHLIGHT_PATTERN)) {
+    if (match.index! > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, match.index), match: false });
+    }
+    parts.push({ text: match[1], match: true });
+    lastIndex = match.index! + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex), match: false });
+  }
+
+  return parts;
+}
+
+export interface Suggestion {
+  kind: 'article' | 'category' | 'tag';
+  label: string;
+  // Article or category slug, or the tag itself
+  value: string;
+}
+
+export async function fetchSuggestions(query: string, limit = 5): Promise<Suggestion[]> {
+  const { data, error } = await supabase.rpc('search_suggestions', { p_query: query, p_limit: limit });
+  if (error) throw error;
+  return (data || []) as Suggestion[];
+}
+
+export async function fetchTrendingSearches(limit = 5): Promise<string[]> {
+  const { data, error } = await supabase.rpc('trending_searches', { p_limit: limit });
+  if (error) throw error;
+  return (data || []).map((row: { term: string }) => row.term);
+}
+
+// Logging must never get in the way of searching, so failures are only reported. The
+// server counts the term's results itself, without the reader's filters.
+export async function logSearch(term: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('log_search', { p_term: term });
+  if (error) {
+    console.error('Error logging search:', error);
+    return null;
+  }
+  return data as string | null;
+}
+
+export async function logSearchClick(queryId: string, articleId: string, position: number) {
+  const { error } = await supabase.rpc('log_search_click', {
+    p_query_id: queryId,
+    p_article_id: articleId,
+    p_position: position
+  });
+  if (error) console.error('Error logging search click:', error);
+}
+
+const RECENT_SEARCHES_KEY = 'recentSearches';
+const MAX_RECENT_SEARCHES = 8;
+
+export function getRecentSearches(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(term => typeof term === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentSearches(terms: string[]) {
+  localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(terms.slice(0, MAX_RECENT_SEARCHES)));
+}
+
+export function addRecentSearch(term: string): string[] {
+  const trimmed = term.trim();
+  if (!trimmed) return getRecentSearches();
+  const terms = [trimmed, ...getRecentSearches().filter(t => t.toLowerCase() !== trimmed.toLowerCase())];
+  saveRecentSearches(terms);
+  return terms.slice(0, MAX_RECENT_SEARCHES);
+}
+
+export function removeRecentSearch(term: string): string[] {
+  const terms = getRecentSearches().filter(t => t !== term);
+  saveRecentSearches(terms);
+  return terms;
+}
+
+export function clearRecentSearches(): string[] {
+  localStorage.removeItem(RECENT_SEARCHES_KEY);
+  return [];
+}
@@ -31,6 +31,39 @@ export interface Article {
   meta_description: string | null;
   workflow_status: string | null;
   scheduled_publish_date: string | null;
+  reviewer_id: string | null;
+  review_comment: string | null;
+}
+
+export interface ArticleWorkflowEvent {
+  id: string;
+  article_id: string;
+  from_status: string;
+  to_status: string;
+  actor_id: string | null;
+  comment: string | null;
+  created_at: string;
+}
+
+export interface ArticleRevision {
+  id: string;
+  article_id: string;
+  revision_number: number;
+  title: string;
+  slug: string;
+  content: string;
+  excerpt: string | null;
+  author_name: string | null;
+  category: string | null;
+  featured_image_url: string | null;
+  tags: string[] | null;
+  reading_time: number | null;
+  language: string | null;
+  meta_title: string | null;
+  meta_description: string | null;
+  editor_id: string | null;
+  editor_name: string | null;
+  created_at: string;
 }
 
 export interface Profile {
@@ -49,7 +82,11 @@ export interface BreakingNews {
   link_url: string | null;
   is_active: boolean;
   priority: number;
+  starts_at: string | null;
   expires_at: string | null;
+  killed_at: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface Category {
@@ -63,6 +100,9 @@ export interface Category {
   is_active: boolean;
 }
 
+export type AdLanguage = 'sr' | 'en';
+export type AdDevice = 'mobile' | 'tablet' | 'desktop';
+
 export interface Advertisement {
   id: string;
   name: string;
@@ -72,6 +112,14 @@ export interface Advertisement {
   is_active: boolean;
   impressions: number;
   clicks: number;
+  weight: number;
+  frequency_cap: number | null;
+  impression_goal: number | null;
+  is_house_ad: boolean;
+  target_categories: string[];
+  target_tags: string[];
+  target_languages: AdLanguage[];
+  target_devices: AdDevice[];
   start_date: string | null;
   end_date: string | null;
   created_by: string | null;
@@ -79,6 +127,20 @@ export interface Advertisement {
   updated_at: string;
 }
 
+// One row per ad per Belgrade calendar day, maintained from ad_events
+export interface AdDailyStat {
+  ad_id: string;
+  day: string;
+  impressions: number;
+  clicks: number;
+}
+
+export interface SpamReason {
+  code: 'honeypot' | 'links' | 'blocklist' | 'repeated' | 'velocity';
+  message: string;
+  points: number;
+}
+
 export interface Comment {
   id: string;
   article_id: string;
@@ -91,11 +153,48 @@ export interface Comment {
   parent_id: string | null;
   created_at: string;
   updated_at: string;
+  // Set by the spam filter in the submit-comment edge function
+  spam_score: number;
+  spam_reasons: SpamReason[];
+  held_for_review: boolean;
+  // When a moderator approved, rejected or marked it as spam; null while pending
+  moderated_at: string | null;
+  // Kept in sync by triggers on comment_votes and comment_reports
+  upvotes: number;
+  open_reports: number;
   // Joined fields
   article?: Article;
   replies?: Comment[];
 }
 
+export type CommentReportReason = 'spam' | 'abuse' | 'harassment' | 'misinformation' | 'off_topic' | 'other';
+
+export interface CommentReport {
+  id: string;
+  comment_id: string;
+  reason: CommentReportReason;
+  details: string | null;
+  created_at: string;
+  resolution: 'dismissed' | 'actioned' | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+}
+
+export type CommentBanKind = 'email' | 'ip' | 'ip_range';
+
+export interface CommentBan {
+  id: string;
+  kind: CommentBanKind;
+  email: string | null;
+  // Postgres cidr: single IPs come back as /32 (or /128 for IPv6)
+  ip_range: string | null;
+  reason: string | null;
+  expires_at: string | null;
+  comment_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
 export interface CommentStats {
   total: number;
   pending: number;
@@ -112,6 +211,8 @@ export interface CommentTrend {
 export interface ArticleView {
   id: string;
   article_id: string;
-  ip_address: string;
+  ip_address: string | null;
+  visitor_hash: string | null;
+  view_day: string | null;
   viewed_at: string;
 }
@@ -0,0 +1,87 @@
+import { supabase, Article } from './supabase';
+import { rolesWith } from './permissions';
+
+export type WorkflowStatus = 'draft' | 'in_review' | 'approved' | 'scheduled' | 'published' | 'archived';
+
+export interface WorkflowTransition {
+  from: WorkflowStatus;
+  to: WorkflowStatus;
+  label: string;
+  roles: string[];
+  requiresComment?: boolean;
+  requiresSchedule?: boolean;
+}
+
+const EDITORS: string[] = rolesWith('articles.review');
+
+export const NEWSROOM_ROLES: string[] = rolesWith('articles.write');
+
+export const WORKFLOW_LABELS: Record<WorkflowStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived'
+};
+
+export const WORKFLOW_BADGE_CLASSES: Record<WorkflowStatus, string> = {
+  draft: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  in_review: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  approved: 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-200',
+  scheduled: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  published: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  archived: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+};
+
+// Keep in sync with transition_article() in supabase/migrations
+export const WORKFLOW_TRANSITIONS: WorkflowTransition[] = [
+  { from: 'draft', to: 'in_review', label: 'Submit for review', roles: NEWSROOM_ROLES },
+  { from: 'draft', to: 'published', label: 'Publish now', roles: EDITORS },
+  { from: 'draft', to: 'scheduled', label: 'Schedule publication', roles: EDITORS, requiresSchedule: true },
+  { from: 'in_review', to: 'approved', label: 'Approve', roles: EDITORS },
+  { from: 'in_review', to: 'draft', label: 'Reject', roles: EDITORS, requiresComment: true },
+  { from: 'approved', to: 'published', label: 'Publish now', roles: EDITORS },
+  { from: 'approved', to: 'scheduled', label: 'Schedule publication', roles: EDITORS, requiresSchedule: true },
+  { from: 'approved', to: 'draft', label: 'Send back to author', roles: EDITORS, requiresComment: true },
+  { from: 'scheduled', to: 'scheduled', label: 'Reschedule', roles: EDITORS, requiresSchedule: true },
+  { from: 'scheduled', to: 'published', label: 'Publish now', roles: EDITORS },
+  { from: 'scheduled', to: 'approved', label: 'Unschedule', roles: EDITORS },
+  { from: 'published', to: 'archived', label: 'Archive', roles: EDITORS },
+  { from: 'published', to: 'draft', label: 'Unpublish', roles: EDITORS },
+  { from: 'archived', to: 'draft', label: 'Restore to draft', roles: EDITORS }
+];
+
+export function getWorkflowStatus(article: Pick<Article, 'workflow_status' | 'status'>): WorkflowStatus {
+  if (article.workflow_status && Object.hasOwn(WORKFLOW_LABELS, article.workflow_status)) {
+    return article.workflow_status as WorkflowStatus;
+  }
+  // Rows saved before the workflow existed only carry the legacy status
+  return Object.hasOwn(WORKFLOW_LABELS, article.status) ? article.status as WorkflowStatus : 'draft';
+}
+
+export function getAllowedTransitions(from: WorkflowStatus, role: string | null | undefined): WorkflowTransition[] {
+  if (!role) return [];
+  return WORKFLOW_TRANSITIONS.filter(t => t.from === from && t.roles.includes(role));
+}
+
+export function findTransition(from: WorkflowStatus, to: WorkflowStatus): WorkflowTransition | undefined {
+  return WORKFLOW_TRANSITIONS.find(t => t.from === from && t.to === to);
+}
+
+export async function transitionArticle(
+  articleId: string,
+  to: WorkflowStatus,
+  options: { comment?: string; scheduledAt?: string | null; reviewerId?: string | null } = {}
+): Promise<Article> {
+  const { data, error } = await supabase.rpc('transition_article', {
+    p_article_id: articleId,
+    p_to_status: to,
+    p_comment: options.comment || null,
+    p_scheduled_at: options.scheduledAt || null,
+    p_reviewer_id: options.reviewerId || null
+  });
+
+  if (error) throw error;
+  return data as Article;
+}
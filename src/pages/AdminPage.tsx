@@ -1,28 +1,19 @@
-import React, { useEffect } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import React from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { Permission, hasPermission } from '../lib/permissions';
 import { Shield, FileText, FolderOpen, Users, MessageSquare, AlertCircle, BarChart, Settings, Megaphone, Search } from 'lucide-react';
 
 export function AdminPage() {
-  const { user, profile } = useAuth();
-  const navigate = useNavigate();
+  const { profile } = useAuth();
 
-  useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/login');
-    }
-  }, [user, profile, navigate]);
-
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
-  const adminCards = [
+  const adminCards: Array<{ title: string; description: string; icon: typeof Settings; link: string; color: string; permission: Permission }> = [
     {
       title: 'Settings & SEO',
       description: 'Manage site settings, SEO, and social media integration',
       icon: Settings,
       link: '/admin/settings',
+      permission: 'settings.manage',
       color: 'bg-gray-600'
     },
     {
@@ -30,6 +21,7 @@ export function AdminPage() {
       description: 'Create and manage articles with custom author names',
       icon: FileText,
       link: '/admin/articles',
+      permission: 'articles.write',
       color: 'bg-blue-600'
     },
     {
@@ -37,6 +29,7 @@ export function AdminPage() {
       description: 'Manage ads and monitor performance metrics',
       icon: Megaphone,
       link: '/admin/ads',
+      permission: 'ads.manage',
       color: 'bg-pink-600'
     },
     {
@@ -44,6 +37,7 @@ export function AdminPage() {
       description: 'Manage contact info, social links, and policies',
       icon: Settings,
       link: '/admin/content',
+      permission: 'site_content.manage',
       color: 'bg-teal-600'
     },
     {
@@ -51,6 +45,7 @@ export function AdminPage() {
       description: 'Organize categories',
       icon: FolderOpen,
       link: '/admin/categories',
+      permission: 'categories.manage',
       color: 'bg-green-600'
     },
     {
@@ -58,6 +53,7 @@ export function AdminPage() {
       description: 'Manage users',
       icon: Users,
       link: '/admin/users',
+      permission: 'users.manage',
       color: 'bg-purple-600'
     },
     {
@@ -65,6 +61,7 @@ export function AdminPage() {
       description: 'Moderate comments',
       icon: MessageSquare,
       link: '/admin/comments',
+      permission: 'comments.moderate',
       color: 'bg-yellow-600'
     },
     {
@@ -72,6 +69,7 @@ export function AdminPage() {
       description: 'Manage breaking news',
       icon: AlertCircle,
       link: '/admin/breaking-news',
+      permission: 'breaking_news.manage',
       color: 'bg-red-600'
     },
     {
@@ -79,6 +77,7 @@ export function AdminPage() {
       description: 'View site statistics',
       icon: BarChart,
       link: '/admin/analytics',
+      permission: 'analytics.view',
       color: 'bg-indigo-600'
     }
   ];
@@ -101,7 +100,7 @@ export function AdminPage() {
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {adminCards.map((card) => {
+          {adminCards.filter(card => hasPermission(profile?.role, card.permission)).map((card) => {
             const Icon = card.icon;
             
             return (
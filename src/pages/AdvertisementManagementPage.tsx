@@ -1,6 +1,5 @@
 import React, { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
 import { useAdminAdvertisements, Advertisement } from '../hooks/useAdminAdvertisements';
 import { Plus, Edit, Trash2, ArrowLeft, Search, Filter, BarChart3, Eye, ToggleLeft, ToggleRight } from 'lucide-react';
 
@@ -21,7 +20,6 @@ export function AdvertisementManagementPage() {
     status: 'all'
   });
   const [showFilters, setShowFilters] = useState(false);
-  const { user, profile } = useAuth();
   const navigate = useNavigate();
   
   const {
@@ -36,30 +34,19 @@ export function AdvertisementManagementPage() {
   } = useAdminAdvertisements();
 
   useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-      return;
-    }
-  }, [user, profile, navigate]);
-
-  useEffect(() => {
-    if (user && profile?.role === 'admin') {
-      setLoading(adsLoading);
-      setError(adsError || '');
-    }
-  }, [user, profile, adsLoading, adsError]);
+    setLoading(adsLoading);
+    setError(adsError || '');
+  }, [adsLoading, adsError]);
 
   useEffect(() => {
-    if (user && profile?.role === 'admin') {
-      // Convert 'all' status to undefined for the filter function
-      const filterParams = {
-        ...filters,
-        status: filters.status === 'all' ? undefined : filters.status
-      };
-      const filtered = getFilteredAdvertisements(filterParams);
-      setAdvertisements(filtered);
-    }
-  }, [allAdvertisements, filters, user, profile]);
+    // Convert 'all' status to undefined for the filter function
+    const filterParams = {
+      ...filters,
+      status: filters.status === 'all' ? undefined : filters.status
+    };
+    const filtered = getFilteredAdvertisements(filterParams);
+    setAdvertisements(filtered);
+  }, [allAdvertisements, filters]);
 
   const handleDelete = async (id: string, name: string) => {
     const userConfirmed = confirm(`Are you sure you want to delete "${name}"?\n\nThis action cannot be undone.`);
@@ -145,16 +132,20 @@ export function AdvertisementManagementPage() {
     return new Date(dateString).toLocaleDateString();
   };
 
+  const formatRotation = (ad: Advertisement) => {
+    const parts = [ad.is_house_ad ? 'House ad' : `Weight ${ad.weight}`];
+    if (ad.frequency_cap) parts.push(`${ad.frequency_cap}/day per visitor`);
+    if (ad.target_categories?.length) parts.push(ad.target_categories.join(', '));
+    if (ad.target_languages?.length) parts.push(ad.target_languages.map(language => language.toUpperCase()).join('/'));
+    return parts.join(' · ');
+  };
+
   const formatPlacement = (placement: string) => {
     return placement.charAt(0).toUpperCase() + placement.slice(1);
   };
 
   const stats = getAdvertisementStats();
 
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="container mx-auto px-4 py-8">
@@ -171,14 +162,24 @@ export function AdvertisementManagementPage() {
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
             Advertisement Management
           </h1>
-          <Link
-            to="/admin/ads/create"
-            className="inline-flex items-center gap-2 px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium"
-            style={{ minHeight: '44px' }}
-          >
-            <Plus className="h-5 w-5" />
-            <span>Create Advertisement</span>
-          </Link>
+          <div className="flex gap-2">
+            <Link
+              to="/admin/ads/reports"
+              className="inline-flex items-center gap-2 px-6 py-3 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors font-medium"
+              style={{ minHeight: '44px' }}
+            >
+              <BarChart3 className="h-5 w-5" />
+              <span>Reports</span>
+            </Link>
+            <Link
+              to="/admin/ads/create"
+              className="inline-flex items-center gap-2 px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium"
+              style={{ minHeight: '44px' }}
+            >
+              <Plus className="h-5 w-5" />
+              <span>Create Advertisement</span>
+            </Link>
+          </div>
         </div>
 
         {/* Statistics Cards */}
@@ -359,6 +360,9 @@ export function AdvertisementManagementPage() {
                         </td>
                         <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
                           {formatPlacement(ad.placement)}
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatRotation(ad)}
+                          </div>
                         </td>
                         <td className="px-6 py-4">
                           <div className="flex items-center gap-2">
@@ -440,7 +444,7 @@ export function AdvertisementManagementPage() {
                           {ad.name}
                         </h3>
                         <p className="text-sm text-gray-500 dark:text-gray-400">
-                          {formatPlacement(ad.placement)}
+                          {formatPlacement(ad.placement)} · {formatRotation(ad)}
                         </p>
                         {ad.link_url && (
                           <p className="text-sm text-gray-500 dark:text-gray-400 truncate max-w-xs">
@@ -0,0 +1,426 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Calendar, Download, Eye, MousePointer, Printer, TrendingUp } from 'lucide-react';
+import { useAdminAdvertisements } from '../hooks/useAdminAdvertisements';
+import { getPresetRange, AnalyticsRange, MAX_RANGE_DAYS } from '../hooks/useAnalytics';
+import { MetricsCard } from '../components/MetricsCard';
+import { AnalyticsChart } from '../components/AnalyticsChart';
+import { AdDailyStat } from '../lib/supabase';
+import { AD_PLACEMENT_OPTIONS, getAdPlacementLabel } from '../lib/ads';
+import {
+  buildCampaignReport,
+  campaignReportToCsv,
+  campaignReportToHtml,
+  downloadCsv,
+  formatCtr,
+  formatReportDay,
+  AdReportTotals,
+  CAMPAIGN_REPORT_PRINT_STYLES
+} from '../lib/adReports';
+import { openPrintWindow } from '../lib/printWindow';
+import { addDays, daysBetween, formatSiteDay, toSiteDay } from '../lib/dates';
+
+type ReportRangePreset = '7d' | '30d' | '90d' | 'campaign' | 'custom';
+
+const RANGE_OPTIONS: { id: ReportRangePreset; label: string }[] = [
+  { id: '7d', label: '7 days' },
+  { id: '30d', label: '30 days' },
+  { id: '90d', label: '90 days' },
+  { id: 'campaign', label: 'Campaign period' },
+  { id: 'custom', label: 'Custom' }
+];
+
+interface ReportTableProps {
+  headers: string[];
+  rows: { key: string; cells: React.ReactNode[]; totals: AdReportTotals }[];
+}
+
+function ReportTable({ headers, rows }: ReportTableProps) {
+  const headerClass = 'px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider';
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="bg-gray-50 dark:bg-gray-700">
+          <tr>
+            {headers.map(header => (
+              <th key={header} className={`${headerClass} text-left`}>{header}</th>
+            ))}
+            <th className={`${headerClass} text-right`}>Impressions</th>
+            <th className={`${headerClass} text-right`}>Clicks</th>
+            <th className={`${headerClass} text-right`}>CTR</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+          {rows.map(row => (
+            <tr key={row.key} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+              {row.cells.map((cell, index) => (
+                <td key={index} className="px-6 py-3 text-sm text-gray-900 dark:text-white">{cell}</td>
+              ))}
+              <td className="px-6 py-3 text-sm text-right text-gray-900 dark:text-white">{row.totals.impressions.toLocaleString()}</td>
+              <td className="px-6 py-3 text-sm text-right text-gray-900 dark:text-white">{row.totals.clicks.toLocaleString()}</td>
+              <td className="px-6 py-3 text-sm text-right text-gray-900 dark:text-white">{formatCtr(row.totals.ctr)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function AdvertisementReportsPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { advertisements, loading: adsLoading, fetchDailyStats } = useAdminAdvertisements();
+
+  // Linked from an ad's analytics tab as /admin/ads/reports?ad=<id>
+  const linkedAdId = searchParams.get('ad');
+
+  const [rangePreset, setRangePreset] = useState<ReportRangePreset>(linkedAdId ? 'campaign' : '30d');
+  const [customRange, setCustomRange] = useState<AnalyticsRange>(() => getPresetRange('30d'));
+  const [placement, setPlacement] = useState('');
+  // null means every advertisement in the placement
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(linkedAdId ? new Set([linkedAdId]) : null);
+  const [stats, setStats] = useState<AdDailyStat[]>([]);
+  const [statsLoading, setStatsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const placementAds = useMemo(
+    () => advertisements.filter(ad => !placement || ad.placement === placement),
+    [advertisements, placement]
+  );
+
+  const selectedAds = useMemo(
+    () => placementAds.filter(ad => !selectedIds || selectedIds.has(ad.id)),
+    [placementAds, selectedIds]
+  );
+
+  // From the earliest start to the latest end among the selected ads, never past today.
+  // A campaign that has not started yet reports today alone, which is empty; one longer
+  // than MAX_RANGE_DAYS reports its most recent days.
+  const campaignRange = useMemo((): AnalyticsRange => {
+    const today = toSiteDay();
+    const starts = selectedAds.map(ad => toSiteDay(ad.start_date || ad.created_at));
+    const ends = selectedAds.map(ad => (ad.end_date ? toSiteDay(ad.end_date) : today));
+    if (starts.length === 0) return getPresetRange('30d');
+
+    const earliestStart = starts.reduce((earliest, day) => (day < earliest ? day : earliest));
+    const latestEnd = ends.reduce((latest, day) => (day > latest ? day : latest));
+    const to = latestEnd > today ? today : latestEnd;
+    const oldestAllowed = addDays(to, -(MAX_RANGE_DAYS - 1));
+    const from = earliestStart > to ? to : earliestStart < oldestAllowed ? oldestAllowed : earliestStart;
+    return { from, to };
+  }, [selectedAds]);
+
+  const range = rangePreset === 'custom'
+    ? customRange
+    : rangePreset === 'campaign' ? campaignRange : getPresetRange(rangePreset);
+
+  // Switching ranges quickly can leave older requests in flight; only the latest one
+  // may update the report
+  const latestStatsRequest = useRef(0);
+
+  const loadStats = useCallback(async () => {
+    const request = ++latestStatsRequest.current;
+    try {
+      setStatsLoading(true);
+      setError('');
+
+      if (daysBetween(range.from, range.to) < 0 || daysBetween(range.from, range.to) >= MAX_RANGE_DAYS) {
+        throw new Error(`Choose a range of 1 to ${MAX_RANGE_DAYS} days`);
+      }
+
+      const rows = await fetchDailyStats(range.from, range.to);
+      if (request !== latestStatsRequest.current) return;
+      setStats(rows);
+    } catch (err: any) {
+      if (request !== latestStatsRequest.current) return;
+      console.error('Error loading campaign report:', err);
+      setError(err.message || 'Failed to load campaign report');
+      setStats([]);
+    } finally {
+      if (request === latestStatsRequest.current) {
+        setStatsLoading(false);
+      }
+    }
+  }, [range.from, range.to, fetchDailyStats]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const report = useMemo(
+    () => buildCampaignReport(selectedAds, stats, range.from, range.to),
+    [selectedAds, stats, range.from, range.to]
+  );
+
+  const chartLabelOptions: Intl.DateTimeFormatOptions = report.daily.length <= 7
+    ? { weekday: 'short' }
+    : { month: 'short', day: 'numeric' };
+  const chartData = (metric: 'impressions' | 'clicks') => report.daily.map(row => ({
+    label: formatSiteDay(row.day, chartLabelOptions),
+    value: row[metric],
+    date: row.day
+  }));
+
+  const reportTitle = selectedAds.length === 1
+    ? `Campaign report: ${selectedAds[0].name}`
+    : `Campaign report${placement ? `: ${getAdPlacementLabel(placement)}` : ''}`;
+  const fileName = `campaign-report-${range.from}-to-${range.to}`;
+
+  const toggleAd = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev || placementAds.map(ad => ad.id));
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleExportCsv = () => {
+    downloadCsv(`${fileName}.csv`, campaignReportToCsv(report));
+  };
+
+  const handlePrint = () => {
+    const opened = openPrintWindow(reportTitle, campaignReportToHtml(report, reportTitle), {
+      styles: CAMPAIGN_REPORT_PRINT_STYLES,
+      width: 1000,
+      height: 800,
+      print: true
+    });
+    if (!opened) {
+      setError('Allow pop-ups for this site to print the report');
+    }
+  };
+
+  const loading = adsLoading || statsLoading;
+  const canExport = !loading && selectedAds.length > 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8">
+        <button
+          onClick={() => navigate('/admin/ads')}
+          className="inline-flex items-center gap-2 mb-6 px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          style={{ minHeight: '44px' }}
+        >
+          <ArrowLeft className="h-5 w-5" />
+          <span>Back to Advertisements</span>
+        </button>
+
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+              Campaign Reports
+            </h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {formatReportDay(range.from)} – {formatReportDay(range.to)} · Days are counted in Belgrade time
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExportCsv}
+              disabled={!canExport}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ minHeight: '44px' }}
+            >
+              <Download className="h-5 w-5" />
+              <span>Export CSV</span>
+            </button>
+            <button
+              onClick={handlePrint}
+              disabled={!canExport}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ minHeight: '44px' }}
+            >
+              <Printer className="h-5 w-5" />
+              <span>Print / PDF</span>
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Calendar className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+            <div className="flex flex-wrap gap-1 bg-gray-100 dark:bg-gray-700 p-1 rounded-lg">
+              {RANGE_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setRangePreset(option.id)}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    rangePreset === option.id
+                      ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {rangePreset === 'custom' && (
+              <div className="flex items-center gap-2 text-sm">
+                <input
+                  type="date"
+                  value={customRange.from}
+                  max={customRange.to}
+                  onChange={(e) => e.target.value && setCustomRange(prev => ({ ...prev, from: e.target.value }))}
+                  className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+                <span className="text-gray-500 dark:text-gray-400">to</span>
+                <input
+                  type="date"
+                  value={customRange.to}
+                  min={customRange.from}
+                  onChange={(e) => e.target.value && setCustomRange(prev => ({ ...prev, to: e.target.value }))}
+                  className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="report-placement" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Placement
+            </label>
+            <select
+              id="report-placement"
+              value={placement}
+              onChange={(e) => {
+                setPlacement(e.target.value);
+                setSelectedIds(null);
+              }}
+              className="w-full md:w-64 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white"
+              style={{ minHeight: '44px' }}
+            >
+              <option value="">All placements</option>
+              {AD_PLACEMENT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <fieldset>
+            <div className="flex items-center justify-between mb-2">
+              <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Creatives ({selectedAds.length} of {placementAds.length})
+              </legend>
+              <div className="flex gap-3 text-sm">
+                <button type="button" onClick={() => setSelectedIds(null)} className="text-red-600 hover:text-red-700">
+                  Select all
+                </button>
+                <button type="button" onClick={() => setSelectedIds(new Set())} className="text-red-600 hover:text-red-700">
+                  Clear
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 max-h-48 overflow-y-auto">
+              {placementAds.map(ad => (
+                <label key={ad.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={!selectedIds || selectedIds.has(ad.id)}
+                    onChange={() => toggleAd(ad.id)}
+                    className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                  />
+                  <span className="truncate">{ad.name}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+
+        {/* Totals */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <MetricsCard
+            title="Impressions"
+            value={report.totals.impressions.toLocaleString()}
+            icon={Eye}
+            iconColor="text-purple-600 dark:text-purple-400"
+            loading={loading}
+          />
+          <MetricsCard
+            title="Clicks"
+            value={report.totals.clicks.toLocaleString()}
+            icon={MousePointer}
+            iconColor="text-blue-600 dark:text-blue-400"
+            loading={loading}
+          />
+          <MetricsCard
+            title="Click-Through Rate"
+            value={formatCtr(report.totals.ctr)}
+            icon={TrendingUp}
+            iconColor="text-orange-600 dark:text-orange-400"
+            loading={loading}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <AnalyticsChart
+            title="Daily Impressions"
+            data={chartData('impressions')}
+            type="area"
+            color="rgb(147, 51, 234)"
+            loading={loading}
+          />
+          <AnalyticsChart
+            title="Daily Clicks"
+            data={chartData('clicks')}
+            type="bar"
+            color="rgb(59, 130, 246)"
+            loading={loading}
+          />
+        </div>
+
+        {!loading && (
+          <div className="space-y-6">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden">
+              <h2 className="px-6 py-4 text-lg font-semibold text-gray-900 dark:text-white">By Creative</h2>
+              <ReportTable
+                headers={['Advertisement', 'Placement']}
+                rows={report.byCreative.map(row => ({
+                  key: row.ad.id,
+                  cells: [row.ad.name, getAdPlacementLabel(row.ad.placement)],
+                  totals: row
+                }))}
+              />
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden">
+              <h2 className="px-6 py-4 text-lg font-semibold text-gray-900 dark:text-white">By Placement</h2>
+              <ReportTable
+                headers={['Placement']}
+                rows={report.byPlacement.map(row => ({
+                  key: row.placement,
+                  cells: [getAdPlacementLabel(row.placement)],
+                  totals: row
+                }))}
+              />
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden">
+              <h2 className="px-6 py-4 text-lg font-semibold text-gray-900 dark:text-white">Daily</h2>
+              <ReportTable
+                headers={['Date']}
+                rows={[...report.daily].reverse().map(row => ({
+                  key: row.day,
+                  cells: [formatReportDay(row.day)],
+                  totals: row
+                }))}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
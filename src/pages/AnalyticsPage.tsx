@@ -1,9 +1,9 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
-import { useAnalytics } from '../hooks/useAnalytics';
+import { useAnalytics, getPresetRange, AnalyticsRange, AnalyticsRangePreset } from '../hooks/useAnalytics';
 import { useLiveMetrics } from '../hooks/useLiveMetrics';
 import { useArticleAnalytics } from '../hooks/useArticleAnalytics';
+import { useSearchAnalytics } from '../hooks/useSearchAnalytics';
 import { MetricsCard } from '../components/MetricsCard';
 import { AnalyticsChart } from '../components/AnalyticsChart';
 import { ActivityFeed } from '../components/ActivityFeed';
@@ -19,36 +19,41 @@ import {
   Activity,
   RefreshCw,
   Calendar,
-  Target
+  Target,
+  Search,
+  SearchX
 } from 'lucide-react';
 
 export function AnalyticsPage() {
-  const { user, profile } = useAuth();
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState<'overview' | 'articles' | 'users' | 'ads'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'articles' | 'users' | 'ads' | 'search'>('overview');
+  const [rangePreset, setRangePreset] = useState<AnalyticsRangePreset>('7d');
+  const [customRange, setCustomRange] = useState<AnalyticsRange>(() => getPresetRange('30d'));
 
-  const { data: analyticsData, loading: analyticsLoading, error: analyticsError, refetch: refetchAnalytics } = useAnalytics();
+  const range = rangePreset === 'custom' ? customRange : getPresetRange(rangePreset);
+  const rangeLabel = {
+    '7d': 'Last 7 Days',
+    '30d': 'Last 30 Days',
+    '90d': 'Last 90 Days',
+    custom: `${customRange.from} – ${customRange.to}`
+  }[rangePreset];
+
+  const { data: analyticsData, loading: analyticsLoading, error: analyticsError, refetch: refetchAnalytics } = useAnalytics(range);
   const { metrics: liveMetrics, loading: liveLoading, refetch: refetchLive } = useLiveMetrics();
   const { data: articleData, loading: articlesLoading, error: articlesError, refetch: refetchArticles } = useArticleAnalytics();
-
-  useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-    }
-  }, [user, profile, navigate]);
-
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
+  const { data: searchData, loading: searchLoading, error: searchError, refetch: refetchSearch } = useSearchAnalytics(range);
 
   const handleRefresh = () => {
     refetchAnalytics();
     refetchLive();
     refetchArticles();
+    refetchSearch();
   };
 
-  const isLoading = analyticsLoading || liveLoading || articlesLoading;
-  const hasError = analyticsError || articlesError;
+  const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  const isLoading = analyticsLoading || liveLoading || articlesLoading || searchLoading;
+  const hasError = analyticsError || articlesError || searchError;
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -83,7 +88,7 @@ export function AnalyticsPage() {
         {hasError && (
           <div className="bg-red-100 dark:bg-red-900 border border-red-400 text-red-700 dark:text-red-300 px-4 py-3 rounded mb-6">
             <p className="font-medium">Error loading analytics data:</p>
-            <p className="text-sm">{analyticsError || articlesError}</p>
+            <p className="text-sm">{analyticsError || articlesError || searchError}</p>
           </div>
         )}
 
@@ -114,13 +119,59 @@ export function AnalyticsPage() {
           </div>
         </div>
 
+        {/* Date Range */}
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <Calendar className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+          <div className="flex space-x-1 bg-gray-100 dark:bg-gray-800 p-1 rounded-lg">
+            {([
+              { id: '7d', label: '7 days' },
+              { id: '30d', label: '30 days' },
+              { id: '90d', label: '90 days' },
+              { id: 'custom', label: 'Custom' }
+            ] as const).map(option => (
+              <button
+                key={option.id}
+                onClick={() => setRangePreset(option.id)}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  rangePreset === option.id
+                    ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {rangePreset === 'custom' && (
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                type="date"
+                value={customRange.from}
+                max={customRange.to}
+                onChange={(e) => e.target.value && setCustomRange(prev => ({ ...prev, from: e.target.value }))}
+                className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+              <span className="text-gray-500 dark:text-gray-400">to</span>
+              <input
+                type="date"
+                value={customRange.to}
+                min={customRange.from}
+                onChange={(e) => e.target.value && setCustomRange(prev => ({ ...prev, to: e.target.value }))}
+                className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </div>
+          )}
+          <span className="text-xs text-gray-500 dark:text-gray-400">Days are counted in Belgrade time</span>
+        </div>
+
         {/* Tab Navigation */}
         <div className="flex space-x-1 mb-6 bg-gray-100 dark:bg-gray-800 p-1 rounded-lg w-fit">
           {[
             { id: 'overview', label: 'Overview', icon: BarChart },
             { id: 'articles', label: 'Articles', icon: FileText },
             { id: 'users', label: 'Users', icon: Users },
-            { id: 'ads', label: 'Advertisements', icon: Target }
+            { id: 'ads', label: 'Advertisements', icon: Target },
+            { id: 'search', label: 'Search', icon: Search }
           ].map(tab => {
             const Icon = tab.icon;
             return (
@@ -178,7 +229,7 @@ export function AnalyticsPage() {
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {/* Views Chart */}
               <AnalyticsChart
-                title="Views Over Time (Last 7 Days)"
+                title={`Views Over Time (${rangeLabel})`}
                 data={analyticsData?.recentViews || []}
                 type="area"
                 color="rgb(59, 130, 246)"
@@ -187,7 +238,7 @@ export function AnalyticsPage() {
               
               {/* Comments Chart */}
               <AnalyticsChart
-                title="Comments Over Time (Last 7 Days)"
+                title={`Comments Over Time (${rangeLabel})`}
                 data={analyticsData?.recentComments || []}
                 type="line"
                 color="rgb(16, 185, 129)"
@@ -367,7 +418,7 @@ export function AnalyticsPage() {
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">User Registration Trends</h3>
               <AnalyticsChart
-                title="New Users (Last 7 Days)"
+                title={`New Users (${rangeLabel})`}
                 data={analyticsData?.recentUsers || []}
                 type="line"
                 color="rgb(168, 85, 247)"
@@ -455,6 +506,128 @@ export function AnalyticsPage() {
             </div>
           </div>
         )}
+
+        {/* Search Tab */}
+        {activeTab === 'search' && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <MetricsCard
+                title="Searches"
+                value={searchData?.totalSearches || 0}
+                icon={Search}
+                iconColor="text-blue-600 dark:text-blue-400"
+                loading={searchLoading}
+              />
+              <MetricsCard
+                title="Distinct Queries"
+                value={searchData?.uniqueTerms || 0}
+                icon={BarChart}
+                iconColor="text-purple-600 dark:text-purple-400"
+                loading={searchLoading}
+              />
+              <MetricsCard
+                title="Zero-Result Searches"
+                value={searchData ? formatPercent(searchData.totalSearches ? searchData.zeroResultSearches / searchData.totalSearches : 0) : '0%'}
+                icon={SearchX}
+                iconColor="text-red-600 dark:text-red-400"
+                loading={searchLoading}
+              />
+              <MetricsCard
+                title="Click-Through Rate"
+                value={searchData ? formatPercent(searchData.clickThroughRate) : '0%'}
+                icon={MousePointer}
+                iconColor="text-green-600 dark:text-green-400"
+                loading={searchLoading}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Top Queries */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Top Queries ({rangeLabel})</h3>
+                {searchLoading ? (
+                  <div className="space-y-3">
+                    {Array.from({ length: 5 }).map((_, i) => (
+                      <div key={i} className="animate-pulse flex items-center justify-between">
+                        <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+                        <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-12"></div>
+                      </div>
+                    ))}
+                  </div>
+                ) : searchData?.topQueries && searchData.topQueries.length > 0 ? (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                        <th className="pb-2 font-medium">Query</th>
+                        <th className="pb-2 font-medium text-right">Searches</th>
+                        <th className="pb-2 font-medium text-right">Clicks</th>
+                        <th className="pb-2 font-medium text-right">CTR</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                      {searchData.topQueries.map(query => (
+                        <tr key={query.term}>
+                          <td className="py-2 pr-2 text-gray-900 dark:text-white font-medium break-all">{query.term}</td>
+                          <td className="py-2 text-right text-gray-600 dark:text-gray-400">{query.searches}</td>
+                          <td className="py-2 text-right text-gray-600 dark:text-gray-400">{query.clicks}</td>
+                          <td className={`py-2 text-right font-semibold ${
+                            query.clickThroughRate < 0.1 ? 'text-orange-600 dark:text-orange-400' : 'text-green-600 dark:text-green-400'
+                          }`}>
+                            {formatPercent(query.clickThroughRate)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-gray-500 dark:text-gray-400 text-center py-4">No searches in this period</p>
+                )}
+              </div>
+
+              {/* Zero-Result Queries */}
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Queries With No Results</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                  Readers looked for these and found nothing on their latest search — possible coverage gaps.
+                </p>
+                {searchLoading ? (
+                  <div className="space-y-3">
+                    {Array.from({ length: 5 }).map((_, i) => (
+                      <div key={i} className="animate-pulse flex items-center justify-between">
+                        <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+                        <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-12"></div>
+                      </div>
+                    ))}
+                  </div>
+                ) : searchData?.zeroResultQueries && searchData.zeroResultQueries.length > 0 ? (
+                  <div className="space-y-3">
+                    {searchData.zeroResultQueries.map(query => (
+                      <div key={query.term} className="flex items-center justify-between border-b border-gray-100 dark:border-gray-700 last:border-b-0 pb-3 last:pb-0">
+                        <div className="pr-2 min-w-0">
+                          <div className="text-sm font-medium text-gray-900 dark:text-white break-all">{query.term}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            Last searched {new Date(query.lastSearchedAt).toLocaleString('en-US', {
+                              month: 'short',
+                              day: 'numeric',
+                              hour: '2-digit',
+                              minute: '2-digit'
+                            })}
+                          </div>
+                        </div>
+                        <div className="text-right flex-shrink-0">
+                          <div className="text-lg font-bold text-red-600 dark:text-red-400">{query.searches}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">searches</div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-500 dark:text-gray-400 text-center py-4">Every query found something</p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,10 +1,12 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { Clock, User, ArrowLeft, Eye, Share2 } from 'lucide-react';
 import { supabase, Article } from '../lib/supabase';
+import { sanitizeArticleHtml } from '../lib/sanitize';
 import { useLanguage } from '../contexts/LanguageContext';
 import { CommentsSection } from '../components/CommentsSection';
 import { RelatedArticles } from '../components/RelatedArticles';
+import { AdManager } from '../components/AdManager';
 import { SocialShareButtons, FloatingShareButton, ArticleShareHeader } from '../components/SocialShareButtons';
 
 export function ArticlePage() {
@@ -64,31 +66,14 @@ export function ArticlePage() {
     }
   };
 
-  const recordArticleView = async (articleId: string) => {
-    try {
-      // Get client IP
-      const response = await fetch('https://api.ipify.org?format=json');
-      const { ip } = await response.json();
-
-      // Check if view already exists for this IP today
-      const today = new Date().toISOString().split('T')[0];
-      const { data: existingView } = await supabase
-        .from('article_views')
-        .select('id')
-        .eq('article_id', articleId)
-        .eq('ip_address', ip)
-        .gte('viewed_at', today)
-        .single();
-
-      // Only record if no view exists for today
-      if (!existingView) {
-        await supabase
-          .from('article_views')
-          .insert([{ article_id: articleId, ip_address: ip }]);
-      }
-    } catch (error) {
-      console.error('Error recording article view:', error);
-    }
+  const recordArticleView = (articleId: string) => {
+    // Fire-and-forget: the edge function fingerprints, deduplicates and filters bots server-side
+    supabase.functions
+      .invoke('record-article-view', { body: { articleId } })
+      .then(({ error }) => {
+        if (error) console.error('Error recording article view:', error);
+      })
+      .catch(error => console.error('Error recording article view:', error));
   };
 
   const fetchRelatedArticles = async (articleId: string, category?: string | null, tags?: string[] | null) => {
@@ -211,6 +196,13 @@ export function ArticlePage() {
     }
   }, [article]);
 
+  // Content is sanitized on save too; this covers rows written before that or outside the form
+  const articleContent = article?.content;
+  const contentHtml = useMemo(
+    () => (articleContent ? sanitizeArticleHtml(articleContent).html : ''),
+    [articleContent]
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
@@ -327,7 +319,7 @@ export function ArticlePage() {
                 <div className="prose dark:prose-invert max-w-none">
                   <div
                     className="text-lg leading-relaxed text-gray-800 dark:text-gray-200"
-                    dangerouslySetInnerHTML={{ __html: article.content }}
+                    dangerouslySetInnerHTML={{ __html: contentHtml }}
                   />
                 </div>
 
@@ -365,13 +357,15 @@ export function ArticlePage() {
               excludeIds={relatedArticles.map(a => a.id)}
             />
 
-            {/* Advertisement Placeholder */}
-            <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg">
-              <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">Advertisement</h3>
-              <div className="bg-gray-200 dark:bg-gray-700 aspect-square rounded-lg flex items-center justify-center">
-                <span className="text-gray-500 dark:text-gray-400">Ad Space</span>
-              </div>
-            </div>
+            {/* Sidebar Advertisements, targeted at this article */}
+            <AdManager
+              placement="sidebar_rectangle"
+              className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-lg"
+              maxAds={1}
+              category={article.category}
+              tags={article.tags}
+              language={article.language}
+            />
           </div>
         </div>
       </div>
@@ -2,7 +2,17 @@ import React, { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { supabase, Article } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Plus, Edit, Trash2, ArrowLeft, Search, Filter, CheckSquare, Square } from 'lucide-react';
+import { usePermission } from '../hooks/usePermission';
+import { rolesWith } from '../lib/permissions';
+import {
+  WorkflowStatus,
+  WORKFLOW_LABELS,
+  WORKFLOW_BADGE_CLASSES,
+  getWorkflowStatus,
+  getAllowedTransitions,
+  transitionArticle
+} from '../lib/workflow';
+import { Plus, Edit, Trash2, ArrowLeft, Search, Filter, CheckSquare, Square, ClipboardCheck, Check, X, UserCheck, CalendarClock } from 'lucide-react';
 
 export function ArticlesManagementPage() {
   const [articles, setArticles] = useState<Article[]>([]);
@@ -17,17 +27,18 @@ export function ArticlesManagementPage() {
   const [selectedArticles, setSelectedArticles] = useState<Set<string>>(new Set());
   const [categories, setCategories] = useState<any[]>([]);
   const [showBulkActions, setShowBulkActions] = useState(false);
+  const [queueView, setQueueView] = useState<'all' | 'review'>('all');
+  const [reviewers, setReviewers] = useState<Record<string, string>>({});
   const articlesPerPage = 10;
   const { user, profile } = useAuth();
   const navigate = useNavigate();
+  const canReview = usePermission('articles.review');
+  const canDelete = usePermission('articles.delete');
 
   useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-      return;
-    }
     fetchArticles();
     fetchCategories();
+    fetchReviewers();
 
     // Set up realtime subscription for articles table
     const articlesSubscription = supabase
@@ -49,7 +60,7 @@ export function ArticlesManagementPage() {
       console.log('Unsubscribing from articles changes');
       articlesSubscription.unsubscribe();
     };
-  }, [user, profile, navigate]);
+  }, []);
 
   const fetchArticles = async () => {
     try {
@@ -83,6 +94,60 @@ export function ArticlesManagementPage() {
     }
   };
 
+  const fetchReviewers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .in('role', rolesWith('articles.review'));
+
+      if (error) throw error;
+      setReviewers(Object.fromEntries((data || []).map(p => [p.id, p.full_name || p.email])));
+    } catch (error) {
+      console.error('Error fetching reviewers:', error);
+    }
+  };
+
+  const handleTransition = async (article: Article, to: WorkflowStatus) => {
+    let comment: string | undefined;
+
+    if (to === 'draft' && getWorkflowStatus(article) === 'in_review') {
+      const reason = prompt(`Why is "${article.title}" being rejected?\n\nThe author will see this comment.`);
+      if (!reason || !reason.trim()) return;
+      comment = reason.trim();
+    }
+
+    try {
+      setError('');
+      setSuccess('');
+      await transitionArticle(article.id, to, { comment });
+      setSuccess(`"${article.title}" is now ${WORKFLOW_LABELS[to].toLowerCase()}`);
+      await fetchArticles();
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error: any) {
+      console.error('Workflow transition error:', error);
+      setError(error.message || `Failed to update "${article.title}"`);
+    }
+  };
+
+  const handleAssignToMe = async (article: Article) => {
+    if (!user) return;
+
+    try {
+      setError('');
+      const { error } = await supabase
+        .from('articles')
+        .update({ reviewer_id: user.id })
+        .eq('id', article.id);
+
+      if (error) throw error;
+      await fetchArticles();
+    } catch (error: any) {
+      console.error('Error assigning reviewer:', error);
+      setError(error.message || 'Failed to assign reviewer');
+    }
+  };
+
   const handleDelete = async (id: string, title: string) => {
     // Use a more prominent confirmation dialog
     const userConfirmed = confirm(`Are you sure you want to delete "${title}"?\n\nThis action cannot be undone.`);
@@ -140,9 +205,16 @@ export function ArticlesManagementPage() {
       );
     }
 
+    // Review queue: oldest submissions first, so nothing waits too long
+    if (queueView === 'review') {
+      filtered = filtered
+        .filter(article => getWorkflowStatus(article) === 'in_review')
+        .sort((a, b) => new Date(a.updated_at).getTime() - new Date(b.updated_at).getTime());
+    }
+
     // Status filter
     if (statusFilter) {
-      filtered = filtered.filter(article => article.status === statusFilter);
+      filtered = filtered.filter(article => getWorkflowStatus(article) === statusFilter);
     }
 
     // Category filter
@@ -152,7 +224,9 @@ export function ArticlesManagementPage() {
 
     setFilteredArticles(filtered);
     setCurrentPage(1); // Reset to first page when filtering
-  }, [articles, searchTerm, statusFilter, categoryFilter]);
+  }, [articles, searchTerm, statusFilter, categoryFilter, queueView]);
+
+  const reviewCount = articles.filter(article => getWorkflowStatus(article) === 'in_review').length;
 
   // Pagination
   const totalPages = Math.ceil(filteredArticles.length / articlesPerPage);
@@ -202,17 +276,21 @@ export function ArticlesManagementPage() {
         if (error) throw error;
         setSuccess(`${selectedArticles.size} article(s) deleted successfully`);
       } else if (action === 'publish' || action === 'unpublish') {
-        const status = action === 'publish' ? 'published' : 'draft';
-        const { error } = await supabase
-          .from('articles')
-          .update({ 
-            status,
-            published_at: action === 'publish' ? new Date().toISOString() : null
-          })
-          .in('id', selectedIds);
+        const target: WorkflowStatus = action === 'publish' ? 'published' : 'draft';
+        const eligible = articles.filter(article =>
+          selectedArticles.has(article.id) &&
+          getAllowedTransitions(getWorkflowStatus(article), profile?.role).some(t => t.to === target && !t.requiresComment)
+        );
+
+        if (eligible.length === 0) {
+          throw new Error(`None of the selected articles can be ${action}ed from their current status`);
+        }
 
-        if (error) throw error;
-        setSuccess(`${selectedArticles.size} article(s) ${action}ed successfully`);
+        const results = await Promise.allSettled(eligible.map(article => transitionArticle(article.id, target)));
+        const succeeded = results.filter(r => r.status === 'fulfilled').length;
+        const skipped = selectedArticles.size - succeeded;
+
+        setSuccess(`${succeeded} article(s) ${action}ed successfully${skipped > 0 ? `, ${skipped} skipped` : ''}`);
       }
 
       setSelectedArticles(new Set());
@@ -232,10 +310,6 @@ export function ArticlesManagementPage() {
     setCurrentPage(1);
   };
 
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -260,16 +334,52 @@ export function ArticlesManagementPage() {
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
             Manage Articles
           </h1>
-          <Link
-            to="/admin/articles/create"
-            className="inline-flex items-center gap-2 px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium"
-            style={{ minHeight: '44px' }}
-          >
-            <Plus className="h-5 w-5" />
-            <span>Create Article</span>
-          </Link>
+          <div className="flex gap-3">
+            <Link
+              to="/admin/articles/scheduled"
+              className="inline-flex items-center gap-2 px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors font-medium"
+              style={{ minHeight: '44px' }}
+            >
+              <CalendarClock className="h-5 w-5" />
+              <span>Scheduled</span>
+            </Link>
+            <Link
+              to="/admin/articles/create"
+              className="inline-flex items-center gap-2 px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium"
+              style={{ minHeight: '44px' }}
+            >
+              <Plus className="h-5 w-5" />
+              <span>Create Article</span>
+            </Link>
+          </div>
         </div>
 
+        {/* Queue Tabs */}
+        {canReview && (
+          <div className="flex space-x-1 mb-6 bg-gray-100 dark:bg-gray-800 p-1 rounded-lg w-fit">
+            {[
+              { id: 'all', label: 'All Articles', icon: Filter },
+              { id: 'review', label: `Needs Review (${reviewCount})`, icon: ClipboardCheck }
+            ].map(tab => {
+              const Icon = tab.icon;
+              return (
+                <button
+                  key={tab.id}
+                  onClick={() => setQueueView(tab.id as 'all' | 'review')}
+                  className={`inline-flex items-center gap-2 px-4 py-2 rounded-md font-medium transition-colors ${
+                    queueView === tab.id
+                      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                  {tab.label}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         {/* Search and Filters */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -295,10 +405,9 @@ export function ArticlesManagementPage() {
                 style={{ minHeight: '44px' }}
               >
                 <option value="">All Statuses</option>
-                <option value="draft">Draft</option>
-                <option value="published">Published</option>
-                <option value="scheduled">Scheduled</option>
-                <option value="archived">Archived</option>
+                {Object.entries(WORKFLOW_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
               </select>
             </div>
 
@@ -341,7 +450,7 @@ export function ArticlesManagementPage() {
         </div>
 
         {/* Bulk Actions Bar */}
-        {showBulkActions && (
+        {showBulkActions && canReview && (
           <div className="bg-blue-50 dark:bg-blue-900 border border-blue-200 dark:border-blue-700 rounded-lg p-4 mb-6">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
@@ -365,13 +474,15 @@ export function ArticlesManagementPage() {
                 >
                   Unpublish
                 </button>
-                <button
-                  onClick={() => handleBulkAction('delete')}
-                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium"
-                  style={{ minHeight: '44px' }}
-                >
-                  Delete
-                </button>
+                {canDelete && (
+                  <button
+                    onClick={() => handleBulkAction('delete')}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium"
+                    style={{ minHeight: '44px' }}
+                  >
+                    Delete
+                  </button>
+                )}
                 <button
                   onClick={() => {
                     setSelectedArticles(new Set());
@@ -475,21 +586,52 @@ export function ArticlesManagementPage() {
                           {article.category || 'N/A'}
                         </td>
                         <td className="px-6 py-4">
-                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                            article.status === 'published'
-                              ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                              : article.status === 'draft'
-                              ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
-                              : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
-                          }`}>
-                            {article.status}
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${WORKFLOW_BADGE_CLASSES[getWorkflowStatus(article)]}`}>
+                            {WORKFLOW_LABELS[getWorkflowStatus(article)]}
                           </span>
+                          {getWorkflowStatus(article) === 'in_review' && (
+                            <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                              {article.reviewer_id
+                                ? `Reviewer: ${article.reviewer_id === user?.id ? 'you' : reviewers[article.reviewer_id] || 'assigned'}`
+                                : 'Unassigned'}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
                           {article.published_at ? new Date(article.published_at).toLocaleDateString() : 'Not published'}
                         </td>
                         <td className="px-6 py-4">
                           <div className="flex gap-2">
+                            {canReview && getWorkflowStatus(article) === 'in_review' && (
+                              <>
+                                <button
+                                  onClick={() => handleTransition(article, 'approved')}
+                                  className="inline-flex items-center justify-center p-2 text-green-600 hover:bg-green-50 dark:hover:bg-green-900 rounded transition-colors"
+                                  style={{ minWidth: '44px', minHeight: '44px' }}
+                                  title="Approve"
+                                >
+                                  <Check className="h-5 w-5" />
+                                </button>
+                                <button
+                                  onClick={() => handleTransition(article, 'draft')}
+                                  className="inline-flex items-center justify-center p-2 text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900 rounded transition-colors"
+                                  style={{ minWidth: '44px', minHeight: '44px' }}
+                                  title="Reject with comment"
+                                >
+                                  <X className="h-5 w-5" />
+                                </button>
+                                {user && article.reviewer_id !== user.id && (
+                                  <button
+                                    onClick={() => handleAssignToMe(article)}
+                                    className="inline-flex items-center justify-center p-2 text-purple-600 hover:bg-purple-50 dark:hover:bg-purple-900 rounded transition-colors"
+                                    style={{ minWidth: '44px', minHeight: '44px' }}
+                                    title="Assign to me"
+                                  >
+                                    <UserCheck className="h-5 w-5" />
+                                  </button>
+                                )}
+                              </>
+                            )}
                             <Link
                               to={`/admin/articles/edit/${article.id}`}
                               className="inline-flex items-center justify-center p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900 rounded transition-colors"
@@ -498,14 +640,16 @@ export function ArticlesManagementPage() {
                             >
                               <Edit className="h-5 w-5" />
                             </Link>
-                            <button
-                              onClick={() => handleDelete(article.id, article.title)}
-                              className="inline-flex items-center justify-center p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900 rounded transition-colors"
-                              style={{ minWidth: '44px', minHeight: '44px' }}
-                              title="Delete Article"
-                            >
-                              <Trash2 className="h-5 w-5" />
-                            </button>
+                            {canDelete && (
+                              <button
+                                onClick={() => handleDelete(article.id, article.title)}
+                                className="inline-flex items-center justify-center p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900 rounded transition-colors"
+                                style={{ minWidth: '44px', minHeight: '44px' }}
+                                title="Delete Article"
+                              >
+                                <Trash2 className="h-5 w-5" />
+                              </button>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -542,14 +686,8 @@ export function ArticlesManagementPage() {
                         </span>
                       </div>
                       <div className="flex items-center gap-2 mb-2">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                          article.status === 'published'
-                            ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                            : article.status === 'draft'
-                            ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
-                            : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
-                        }`}>
-                          {article.status}
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${WORKFLOW_BADGE_CLASSES[getWorkflowStatus(article)]}`}>
+                          {WORKFLOW_LABELS[getWorkflowStatus(article)]}
                         </span>
                         <span className="text-sm text-gray-500 dark:text-gray-400">
                           {article.published_at ? new Date(article.published_at).toLocaleDateString() : 'Not published'}
@@ -558,6 +696,27 @@ export function ArticlesManagementPage() {
                     </div>
                   </div>
                   
+                  {canReview && getWorkflowStatus(article) === 'in_review' && (
+                    <div className="flex gap-3 mt-4 pt-3 border-t border-gray-200 dark:border-gray-600">
+                      <button
+                        onClick={() => handleTransition(article, 'approved')}
+                        className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium"
+                        style={{ minHeight: '48px' }}
+                      >
+                        <Check className="h-5 w-5" />
+                        <span>Approve</span>
+                      </button>
+                      <button
+                        onClick={() => handleTransition(article, 'draft')}
+                        className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors font-medium"
+                        style={{ minHeight: '48px' }}
+                      >
+                        <X className="h-5 w-5" />
+                        <span>Reject</span>
+                      </button>
+                    </div>
+                  )}
+
                   <div className="flex gap-3 mt-4 pt-3 border-t border-gray-200 dark:border-gray-600">
                     <Link
                       to={`/admin/articles/edit/${article.id}`}
@@ -567,14 +726,16 @@ export function ArticlesManagementPage() {
                       <Edit className="h-5 w-5" />
                       <span>Edit Article</span>
                     </Link>
-                    <button
-                      onClick={() => handleDelete(article.id, article.title)}
-                      className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium"
-                      style={{ minHeight: '48px' }}
-                    >
-                      <Trash2 className="h-5 w-5" />
-                      <span>Delete</span>
-                    </button>
+                    {canDelete && (
+                      <button
+                        onClick={() => handleDelete(article.id, article.title)}
+                        className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors font-medium"
+                        style={{ minHeight: '48px' }}
+                      >
+                        <Trash2 className="h-5 w-5" />
+                        <span>Delete</span>
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
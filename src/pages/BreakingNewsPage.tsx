@@ -1,20 +1,144 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
-import { ArrowLeft, AlertCircle } from 'lucide-react';
+import { ArrowLeft, AlertCircle, Plus, Edit, Trash2, Power, ChevronUp, ChevronDown, Clock, ExternalLink } from 'lucide-react';
+import { supabase, BreakingNews } from '../lib/supabase';
+import { BreakingNewsForm } from '../components/BreakingNewsForm';
+import { BreakingNewsTicker } from '../components/EnhancedBreakingNewsBanner';
+import {
+  BREAKING_NEWS_BADGE_CLASSES,
+  BREAKING_NEWS_STATUS_LABELS,
+  MAX_PRIORITY,
+  MIN_PRIORITY,
+  getBreakingNewsStatus,
+  killBreakingNews,
+  msUntilNextBreakingNewsChange,
+  subscribeToBreakingNews
+} from '../lib/breakingNews';
+
+type FormState = { mode: 'create' } | { mode: 'edit'; item: BreakingNews } | null;
 
 export function BreakingNewsPage() {
-  const { user, profile } = useAuth();
+  const [items, setItems] = useState<BreakingNews[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [form, setForm] = useState<FormState>(null);
+  const [now, setNow] = useState(() => Date.now());
   const navigate = useNavigate();
 
   useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
+    fetchItems();
+
+    return subscribeToBreakingNews({ onChange: fetchItems });
+  }, []);
+
+  // Keep the status badges honest as start and expiry times pass
+  useEffect(() => {
+    const delay = msUntilNextBreakingNewsChange(items, now);
+    if (delay === null) return;
+
+    const timer = setTimeout(() => setNow(Date.now()), delay);
+    return () => clearTimeout(timer);
+  }, [items, now]);
+
+  const fetchItems = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('breaking_news')
+        .select('*')
+        .order('priority', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setItems(data || []);
+      setNow(Date.now());
+    } catch (err: any) {
+      console.error('Error fetching breaking news:', err);
+      setError(err.message || 'Failed to load breaking news');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const flash = (message: string) => {
+    setSuccess(message);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  const handleSaved = (message: string) => {
+    setForm(null);
+    flash(message);
+    fetchItems();
+  };
+
+  const handleKill = async (item: BreakingNews) => {
+    try {
+      setError('');
+      await killBreakingNews(item.id);
+      flash(`"${item.title}" was taken down everywhere`);
+      fetchItems();
+    } catch (err: any) {
+      console.error('Error killing breaking news:', err);
+      setError(err.message || 'Failed to take down breaking news');
     }
-  }, [user, profile, navigate]);
+  };
+
+  const handlePriority = async (item: BreakingNews, change: number) => {
+    const priority = Math.min(MAX_PRIORITY, Math.max(MIN_PRIORITY, item.priority + change));
+    if (priority === item.priority) return;
 
-  if (!user || profile?.role !== 'admin') {
-    return null;
+    try {
+      const { error } = await supabase
+        .from('breaking_news')
+        .update({ priority })
+        .eq('id', item.id);
+
+      if (error) throw error;
+      fetchItems();
+    } catch (err: any) {
+      console.error('Error updating priority:', err);
+      setError(err.message || 'Failed to update priority');
+    }
+  };
+
+  const handleDelete = async (item: BreakingNews) => {
+    if (!confirm(`Are you sure you want to delete "${item.title}"?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('breaking_news')
+        .delete()
+        .eq('id', item.id);
+
+      if (error) throw error;
+      flash('Breaking news deleted successfully');
+      fetchItems();
+    } catch (err: any) {
+      console.error('Error deleting breaking news:', err);
+      setError(err.message || 'Failed to delete breaking news');
+    }
+  };
+
+  const formatDateTime = (value: string) => {
+    return new Date(value).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const liveItems = items.filter(item => getBreakingNewsStatus(item, now) === 'live');
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">Loading breaking news...</p>
+        </div>
+      </div>
+    );
   }
 
   return (
@@ -30,48 +154,156 @@ export function BreakingNewsPage() {
         </button>
 
         <div className="flex justify-between items-center mb-6">
-          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white flex items-center gap-3">
+            <AlertCircle className="h-8 w-8 text-red-600" />
             Breaking News Management
           </h1>
+          {!form && (
+            <button
+              onClick={() => setForm({ mode: 'create' })}
+              className="inline-flex items-center gap-2 bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg transition-colors"
+              style={{ minHeight: '44px' }}
+            >
+              <Plus className="h-5 w-5" />
+              New Breaking News
+            </button>
+          )}
         </div>
 
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 text-center">
-          <div className="bg-red-100 dark:bg-red-900 w-20 h-20 rounded-full flex items-center justify-center mx-auto mb-4">
-            <AlertCircle className="h-10 w-10 text-red-600 dark:text-red-300" />
+        {success && (
+          <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-6">
+            {success}
           </div>
-          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
-            Breaking News Management
+        )}
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
+            {error}
+          </div>
+        )}
+
+        {form && (
+          <BreakingNewsForm
+            key={form.mode === 'edit' ? form.item.id : 'new'}
+            mode={form.mode}
+            item={form.mode === 'edit' ? form.item : undefined}
+            onSaved={handleSaved}
+            onCancel={() => setForm(null)}
+          />
+        )}
+
+        {/* What readers see right now */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+            On air now ({liveItems.length})
           </h2>
-          <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-md mx-auto">
-            Breaking news management is coming soon. Quickly publish urgent news updates and alerts.
-          </p>
-          <div className="space-y-3">
-            <div className="text-left max-w-md mx-auto bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
-              <h3 className="font-semibold text-gray-900 dark:text-white mb-2">Planned Features:</h3>
-              <ul className="space-y-2 text-gray-700 dark:text-gray-300 text-sm">
-                <li className="flex items-start gap-2">
-                  <span className="text-red-600 dark:text-red-400">•</span>
-                  <span>Quick publish breaking news alerts</span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-red-600 dark:text-red-400">•</span>
-                  <span>Display banner notifications on homepage</span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-red-600 dark:text-red-400">•</span>
-                  <span>Send push notifications to subscribers</span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-red-600 dark:text-red-400">•</span>
-                  <span>Schedule and expire breaking news</span>
-                </li>
-                <li className="flex items-start gap-2">
-                  <span className="text-red-600 dark:text-red-400">•</span>
-                  <span>Priority display across all pages</span>
-                </li>
-              </ul>
+          {liveItems.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-sm">No breaking news is live.</p>
+          ) : (
+            <div className="rounded-lg overflow-hidden">
+              <BreakingNewsTicker breakingNews={liveItems.slice(0, 3)} />
             </div>
-          </div>
+          )}
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden">
+          {items.length === 0 ? (
+            <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+              No breaking news yet
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {items.map(item => {
+                const status = getBreakingNewsStatus(item, now);
+                const canKill = status === 'live' || status === 'scheduled';
+
+                return (
+                  <li key={item.id} className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+                    {/* Priority */}
+                    <div className="flex md:flex-col items-center gap-1 text-gray-500 dark:text-gray-400">
+                      <button
+                        onClick={() => handlePriority(item, 1)}
+                        disabled={item.priority >= MAX_PRIORITY}
+                        className="p-1 hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+                        aria-label="Raise priority"
+                      >
+                        <ChevronUp className="h-5 w-5" />
+                      </button>
+                      <span className="text-sm font-semibold w-6 text-center">{item.priority}</span>
+                      <button
+                        onClick={() => handlePriority(item, -1)}
+                        disabled={item.priority <= MIN_PRIORITY}
+                        className="p-1 hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+                        aria-label="Lower priority"
+                      >
+                        <ChevronDown className="h-5 w-5" />
+                      </button>
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${BREAKING_NEWS_BADGE_CLASSES[status]}`}>
+                          {BREAKING_NEWS_STATUS_LABELS[status]}
+                        </span>
+                        <h3 className="font-semibold text-gray-900 dark:text-white truncate">{item.title}</h3>
+                        {item.link_url && <ExternalLink className="h-4 w-4 text-gray-400 flex-shrink-0" />}
+                      </div>
+                      {item.content && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400 truncate">{item.content}</p>
+                      )}
+                      <div className="flex flex-wrap gap-x-4 text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {item.starts_at && (
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            Starts {formatDateTime(item.starts_at)}
+                          </span>
+                        )}
+                        {item.expires_at && (
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            Expires {formatDateTime(item.expires_at)}
+                          </span>
+                        )}
+                        {item.killed_at && status === 'killed' && (
+                          <span>Killed {formatDateTime(item.killed_at)}</span>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      {canKill && (
+                        <button
+                          onClick={() => handleKill(item)}
+                          className="inline-flex items-center gap-2 px-3 py-2 bg-gray-900 hover:bg-black text-white text-sm rounded-lg transition-colors"
+                          style={{ minHeight: '44px' }}
+                          title="Take this item down on every open page immediately"
+                        >
+                          <Power className="h-4 w-4" />
+                          Kill
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setForm({ mode: 'edit', item })}
+                        className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300 p-1 rounded transition-colors"
+                        style={{ minHeight: '44px', minWidth: '44px' }}
+                        aria-label="Edit"
+                      >
+                        <Edit className="h-4 w-4 mx-auto" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(item)}
+                        className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 p-1 rounded transition-colors"
+                        style={{ minHeight: '44px', minWidth: '44px' }}
+                        aria-label="Delete"
+                      >
+                        <Trash2 className="h-4 w-4 mx-auto" />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
         </div>
       </div>
     </div>
@@ -1,6 +1,5 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
 import { supabase, Category } from '../lib/supabase';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -24,7 +23,6 @@ import {
 } from 'lucide-react';
 
 export function CategoriesManagementPage() {
-  const { user, profile } = useAuth();
   const navigate = useNavigate();
   
   const [categories, setCategories] = useState<Category[]>([]);
@@ -36,12 +34,8 @@ export function CategoriesManagementPage() {
   const [draggedItem, setDraggedItem] = useState<string | null>(null);
 
   useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-      return;
-    }
     fetchCategories();
-  }, [user, profile, navigate]);
+  }, []);
 
   useEffect(() => {
     // Filter categories based on search term
@@ -187,10 +181,6 @@ export function CategoriesManagementPage() {
     setDraggedItem(null);
   };
 
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="container mx-auto px-4 py-8">
@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { ArticleCard } from '../components/ArticleCard';
+import { AdManager } from '../components/AdManager';
 import { supabase, Article, Category } from '../lib/supabase';
 import { useLanguage } from '../contexts/LanguageContext';
 import { ArrowLeft, Tag, Clock, FileText } from 'lucide-react';
@@ -182,6 +183,14 @@ export function CategoryPage() {
           </div>
         </div>
 
+        {/* Section sponsorships */}
+        <AdManager
+          placement="header_banner"
+          className="mb-8"
+          maxAds={1}
+          category={categoryMap[slug] || slug}
+        />
+
         {/* Articles Section */}
         <div className="space-y-6">
           <div className="flex items-center justify-between">
@@ -1,7 +1,21 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
-import { supabase, Comment, CommentStats, Article } from '../lib/supabase';
+import { supabase, Comment, CommentBan, CommentStats, Article } from '../lib/supabase';
+import {
+  CommentModerationState,
+  fetchCommentBans,
+  fetchReportQueue,
+  isPendingComment,
+  isRejectedComment,
+  liftCommentBan,
+  moderateComments,
+  moderationChanges,
+  ModerationDecision,
+  reopenCommentReports,
+  ReportedComment,
+  resolveCommentReports,
+  restoreCommentModeration
+} from '../lib/comments';
 import { Button } from '../components/ui/button';
 import { Badge } from '../components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
@@ -16,6 +30,10 @@ import {
 } from '../components/ui/table';
 import { CommentDetailsModal } from '../components/CommentDetailsModal';
 import { CommentActions } from '../components/CommentActions';
+import { CommentBanModal } from '../components/CommentBanModal';
+import { CommentBanList } from '../components/CommentBanList';
+import { CommentReportQueue } from '../components/CommentReportQueue';
+import { ModerationQueue } from '../components/ModerationQueue';
 import { 
   ArrowLeft, 
   Search, 
@@ -30,6 +48,8 @@ import {
   BarChart3,
   RefreshCw,
   Trash2,
+  CheckCheck,
+  ListChecks,
   Check,
   X
 } from 'lucide-react';
@@ -53,8 +73,22 @@ import {
   AlertDialogTrigger,
 } from '../components/ui/alert-dialog';
 
+const DECISION_LABELS: Record<ModerationDecision, string> = {
+  approve: 'Approved',
+  reject: 'Rejected',
+  spam: 'Marked as spam'
+};
+
+// The last thing a moderator did, with enough state to take it back
+interface ModerationAction {
+  label: string;
+  previous: CommentModerationState[];
+  banId?: string;
+  // Reports the action closed, reopened on undo so the comment returns to the report queue
+  resolvedReportIds?: string[];
+}
+
 export function CommentsManagementPage() {
-  const { user, profile } = useAuth();
   const navigate = useNavigate();
 
   // State
@@ -70,9 +104,16 @@ export function CommentsManagementPage() {
   });
   const [selectedComment, setSelectedComment] = useState<Comment | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [reportQueue, setReportQueue] = useState<ReportedComment[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
+  // Bans
+  const [bans, setBans] = useState<CommentBan[]>([]);
+  const [bansLoading, setBansLoading] = useState(true);
+  const [banComment, setBanComment] = useState<Comment | null>(null);
+  const [isBanModalOpen, setIsBanModalOpen] = useState(false);
+
   // Filters
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
@@ -82,15 +123,16 @@ export function CommentsManagementPage() {
   const [selectedComments, setSelectedComments] = useState<Set<string>>(new Set());
   const [bulkActionLoading, setBulkActionLoading] = useState(false);
 
-  useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-      return;
-    }
+  // Queue mode and undo
+  const [queueMode, setQueueMode] = useState(false);
+  const [lastAction, setLastAction] = useState<ModerationAction | null>(null);
+  const [error, setError] = useState('');
 
+  useEffect(() => {
     loadData();
+    loadBans();
     setupRealtimeSubscription();
-  }, [user, profile, navigate]);
+  }, []);
 
   useEffect(() => {
     filterComments();
@@ -99,7 +141,7 @@ export function CommentsManagementPage() {
   const loadData = async () => {
     try {
       setLoading(true);
-      await Promise.all([loadComments(), loadArticles(), loadStats()]);
+      await Promise.all([loadComments(), loadArticles(), loadStats(), loadReports()]);
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -128,10 +170,29 @@ export function CommentsManagementPage() {
     setComments(data || []);
   };
 
+  const loadReports = async () => {
+    try {
+      setReportQueue(await fetchReportQueue());
+    } catch (error) {
+      console.error('Error loading comment reports:', error);
+    }
+  };
+
+  const loadBans = async () => {
+    try {
+      setBansLoading(true);
+      setBans(await fetchCommentBans());
+    } catch (error) {
+      console.error('Error loading comment bans:', error);
+    } finally {
+      setBansLoading(false);
+    }
+  };
+
   const loadArticles = async () => {
     const { data, error } = await supabase
       .from('articles')
-      .select('id, title, slug, content, excerpt, featured_image_url, author_id, author_name, status, published_at, created_at, updated_at, tags, reading_time, language, category, meta_title, meta_description, workflow_status, scheduled_publish_date')
+      .select('id, title, slug, content, excerpt, featured_image_url, author_id, author_name, status, published_at, created_at, updated_at, tags, reading_time, language, category, meta_title, meta_description, workflow_status, scheduled_publish_date, reviewer_id, review_comment')
       .order('title');
 
     if (error) {
@@ -145,7 +206,7 @@ export function CommentsManagementPage() {
   const loadStats = async () => {
     const { data, error } = await supabase
       .from('comments')
-      .select('is_approved, is_spam');
+      .select('is_approved, is_spam, moderated_at');
 
     if (error) {
       console.error('Error loading stats:', error);
@@ -154,9 +215,9 @@ export function CommentsManagementPage() {
 
     const stats: CommentStats = {
       total: data?.length || 0,
-      pending: data?.filter(c => !c.is_approved && !c.is_spam).length || 0,
+      pending: data?.filter(c => isPendingComment(c as Comment)).length || 0,
       approved: data?.filter(c => c.is_approved).length || 0,
-      rejected: data?.filter(c => !c.is_approved && !c.is_spam).length || 0,
+      rejected: data?.filter(c => isRejectedComment(c as Comment)).length || 0,
       spam: data?.filter(c => c.is_spam).length || 0
     };
 
@@ -180,24 +241,30 @@ export function CommentsManagementPage() {
     };
   };
 
+  const matchesSearch = useCallback((comment: Comment) => {
+    const query = searchQuery.trim().toLowerCase();
+    return !query ||
+      comment.content.toLowerCase().includes(query) ||
+      comment.author_name.toLowerCase().includes(query) ||
+      comment.author_email.toLowerCase().includes(query);
+  }, [searchQuery]);
+
   const filterComments = () => {
     let filtered = [...comments];
 
     // Search filter
     if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(comment =>
-        comment.content.toLowerCase().includes(query) ||
-        comment.author_name.toLowerCase().includes(query) ||
-        comment.author_email.toLowerCase().includes(query)
-      );
+      filtered = filtered.filter(matchesSearch);
     }
 
     // Status filter
     if (statusFilter !== 'all') {
       switch (statusFilter) {
         case 'pending':
-          filtered = filtered.filter(c => !c.is_approved && !c.is_spam);
+          filtered = filtered.filter(isPendingComment);
+          break;
+        case 'rejected':
+          filtered = filtered.filter(isRejectedComment);
           break;
         case 'approved':
           filtered = filtered.filter(c => c.is_approved);
@@ -205,6 +272,9 @@ export function CommentsManagementPage() {
         case 'spam':
           filtered = filtered.filter(c => c.is_spam);
           break;
+        case 'reported':
+          filtered = filtered.filter(c => c.open_reports > 0);
+          break;
       }
     }
 
@@ -216,56 +286,122 @@ export function CommentsManagementPage() {
     setFilteredComments(filtered);
   };
 
-  const handleApproveComment = async (commentId: string) => {
-    const { error } = await supabase
-      .from('comments')
-      .update({ 
-        is_approved: true,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', commentId);
+  // Queue mode follows the search and article filters but always shows pending
+  // comments, oldest first
+  const queue = useMemo(() => comments
+    .filter(isPendingComment)
+    .filter(comment => matchesSearch(comment) && (articleFilter === 'all' || comment.article_id === articleFilter))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  [comments, matchesSearch, articleFilter]);
 
-    if (error) {
-      console.error('Error approving comment:', error);
-      return;
+  const filteredPending = filteredComments.filter(isPendingComment);
+
+  // Every approve/reject/spam goes through here so it can be undone. The change is
+  // applied locally first so queue mode moves on without waiting for the reload.
+  const applyDecision = async (commentIds: string[], decision: ModerationDecision, label: string, banId?: string) => {
+    const ids = new Set(commentIds);
+    const previous = comments
+      .filter(comment => ids.has(comment.id))
+      .map(({ id, is_approved, is_spam, moderated_at }) => ({ id, is_approved, is_spam, moderated_at }));
+    const changes = moderationChanges(decision);
+
+    setComments(prev => prev.map(comment => ids.has(comment.id) ? { ...comment, ...changes } : comment));
+
+    try {
+      setError('');
+      await moderateComments(commentIds, decision);
+      const resolvedReportIds = decision !== 'approve'
+        ? (await Promise.all(commentIds.map(resolveReportsFor))).flat()
+        : [];
+      setLastAction({ label, previous, banId, resolvedReportIds });
+    } catch (err: any) {
+      console.error(`Error applying "${decision}" to comments:`, err);
+      setError(err.message || 'Failed to moderate comments');
     }
 
     await loadData();
   };
 
+  const handleApproveComment = async (commentId: string) => {
+    await applyDecision([commentId], 'approve', DECISION_LABELS.approve);
+  };
+
   const handleRejectComment = async (commentId: string) => {
-    const { error } = await supabase
-      .from('comments')
-      .update({ 
-        is_approved: false,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', commentId);
+    await applyDecision([commentId], 'reject', DECISION_LABELS.reject);
+  };
 
-    if (error) {
-      console.error('Error rejecting comment:', error);
-      return;
+  const handleMarkSpam = async (commentId: string) => {
+    await applyDecision([commentId], 'spam', DECISION_LABELS.spam);
+  };
+
+  const handleQueueDecision = (comment: Comment, decision: ModerationDecision) => {
+    applyDecision([comment.id], decision, `${DECISION_LABELS[decision]}: ${comment.author_name}`);
+  };
+
+  const handleApproveAll = async (commentIds: string[]) => {
+    if (commentIds.length === 0) return;
+
+    setBulkActionLoading(true);
+    await applyDecision(commentIds, 'approve', `Approved ${commentIds.length} comment(s)`);
+    setSelectedComments(new Set());
+    setBulkActionLoading(false);
+  };
+
+  const handleUndo = async () => {
+    if (!lastAction) return;
+
+    const action = lastAction;
+    setLastAction(null);
+    try {
+      setError('');
+      await restoreCommentModeration(action.previous);
+      await reopenCommentReports(action.resolvedReportIds || []);
+      if (action.banId) {
+        await liftCommentBan(action.banId);
+        await loadBans();
+      }
+    } catch (err: any) {
+      console.error('Error undoing moderation action:', err);
+      setError(err.message || 'Failed to undo the last action');
     }
 
     await loadData();
   };
 
-  const handleMarkSpam = async (commentId: string) => {
-    const { error } = await supabase
-      .from('comments')
-      .update({ 
-        is_spam: true,
-        is_approved: false,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', commentId);
+  const handleBanned = async (ban: CommentBan) => {
+    await loadBans();
 
-    if (error) {
-      console.error('Error marking comment as spam:', error);
-      return;
+    // Banning from the queue also takes the comment out of it
+    if (queueMode && banComment && isPendingComment(banComment)) {
+      await applyDecision([banComment.id], 'reject', `Banned ${banComment.author_name}`, ban.id);
+    } else {
+      setLastAction({ label: `Banned ${banComment?.author_name || 'commenter'}`, previous: [], banId: ban.id });
     }
+  };
 
-    await loadData();
+  // Hiding a reported comment settles its reports
+  const resolveReportsFor = async (commentId: string): Promise<string[]> => {
+    if (!reportQueue.some(entry => entry.comment.id === commentId)) return [];
+    try {
+      return await resolveCommentReports(commentId, 'actioned');
+    } catch (error) {
+      console.error('Error resolving comment reports:', error);
+      return [];
+    }
+  };
+
+  const handleDismissReports = async (commentId: string) => {
+    try {
+      await resolveCommentReports(commentId, 'dismissed');
+      await loadData();
+    } catch (error) {
+      console.error('Error dismissing comment reports:', error);
+    }
+  };
+
+  const handleViewComment = (comment: Comment) => {
+    setSelectedComment(comment);
+    setIsModalOpen(true);
   };
 
   const handleDeleteComment = async (commentId: string) => {
@@ -282,53 +418,36 @@ export function CommentsManagementPage() {
     await loadData();
   };
 
-  const handleBulkApprove = async () => {
-    if (selectedComments.size === 0) return;
-
-    setBulkActionLoading(true);
-    try {
-      const { error } = await supabase
-        .from('comments')
-        .update({ 
-          is_approved: true,
-          updated_at: new Date().toISOString()
-        })
-        .in('id', Array.from(selectedComments));
+  const handleBanCommenter = (commentId: string) => {
+    setBanComment(comments.find(c => c.id === commentId) || null);
+    setIsBanModalOpen(true);
+  };
 
-      if (error) throw error;
+  const handleAddBan = () => {
+    setBanComment(null);
+    setIsBanModalOpen(true);
+  };
 
-      setSelectedComments(new Set());
-      await loadData();
+  const handleLiftBan = async (banId: string) => {
+    try {
+      await liftCommentBan(banId);
+      await loadBans();
     } catch (error) {
-      console.error('Error bulk approving comments:', error);
-    } finally {
-      setBulkActionLoading(false);
+      console.error('Error lifting comment ban:', error);
     }
   };
 
+  const handleBulkApprove = async () => {
+    await handleApproveAll(Array.from(selectedComments));
+  };
+
   const handleBulkMarkSpam = async () => {
     if (selectedComments.size === 0) return;
 
     setBulkActionLoading(true);
-    try {
-      const { error } = await supabase
-        .from('comments')
-        .update({ 
-          is_spam: true,
-          is_approved: false,
-          updated_at: new Date().toISOString()
-        })
-        .in('id', Array.from(selectedComments));
-
-      if (error) throw error;
-
-      setSelectedComments(new Set());
-      await loadData();
-    } catch (error) {
-      console.error('Error bulk marking comments as spam:', error);
-    } finally {
-      setBulkActionLoading(false);
-    }
+    await applyDecision(Array.from(selectedComments), 'spam', `Marked ${selectedComments.size} comment(s) as spam`);
+    setSelectedComments(new Set());
+    setBulkActionLoading(false);
   };
 
   const handleBulkDelete = async () => {
@@ -375,6 +494,10 @@ export function CommentsManagementPage() {
       return <Badge variant="destructive">Spam</Badge>;
     } else if (comment.is_approved) {
       return <Badge variant="default">Approved</Badge>;
+    } else if (isRejectedComment(comment)) {
+      return <Badge variant="outline">Rejected</Badge>;
+    } else if (comment.held_for_review) {
+      return <Badge variant="outline" title={`Spam score ${comment.spam_score}`}>Held</Badge>;
     } else {
       return <Badge variant="secondary">Pending</Badge>;
     }
@@ -382,14 +505,10 @@ export function CommentsManagementPage() {
 
   const refreshData = async () => {
     setRefreshing(true);
-    await loadData();
+    await Promise.all([loadData(), loadBans()]);
     setRefreshing(false);
   };
 
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="container mx-auto px-4 py-8">
@@ -420,8 +539,25 @@ export function CommentsManagementPage() {
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
             Comments Management
           </h1>
+          <Button
+            onClick={() => {
+              setQueueMode(!queueMode);
+              setLastAction(null);
+            }}
+            variant={queueMode ? 'default' : 'outline'}
+            className="gap-2"
+          >
+            <ListChecks className="h-4 w-4" />
+            {queueMode ? 'Exit Queue Mode' : `Queue Mode (${queue.length})`}
+          </Button>
         </div>
 
+        {error && (
+          <div className="mb-6 p-4 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 rounded-lg">
+            {error}
+          </div>
+        )}
+
         {/* Statistics Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
           <Card>
@@ -485,6 +621,16 @@ export function CommentsManagementPage() {
           </Card>
         </div>
 
+        {!queueMode && (
+          <CommentReportQueue
+            queue={reportQueue}
+            loading={loading}
+            onView={handleViewComment}
+            onDismiss={handleDismissReports}
+            onHide={handleRejectComment}
+          />
+        )}
+
         {/* Filters */}
         <Card className="mb-6">
           <CardContent className="p-4">
@@ -501,18 +647,22 @@ export function CommentsManagementPage() {
                 </div>
               </div>
 
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
-                <SelectTrigger className="w-full lg:w-48">
-                  <Filter className="h-4 w-4 mr-2" />
-                  <SelectValue placeholder="Filter by status" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="approved">Approved</SelectItem>
-                  <SelectItem value="spam">Spam</SelectItem>
-                </SelectContent>
-              </Select>
+              {!queueMode && (
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-full lg:w-48">
+                    <Filter className="h-4 w-4 mr-2" />
+                    <SelectValue placeholder="Filter by status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Status</SelectItem>
+                    <SelectItem value="pending">Pending</SelectItem>
+                    <SelectItem value="approved">Approved</SelectItem>
+                    <SelectItem value="rejected">Rejected</SelectItem>
+                    <SelectItem value="spam">Spam</SelectItem>
+                    <SelectItem value="reported">Reported</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
 
               <Select value={articleFilter} onValueChange={setArticleFilter}>
                 <SelectTrigger className="w-full lg:w-48">
@@ -529,179 +679,233 @@ export function CommentsManagementPage() {
                   ))}
                 </SelectContent>
               </Select>
+
+              {!queueMode && filteredPending.length > 0 && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" className="gap-2" disabled={bulkActionLoading}>
+                      <CheckCheck className="h-4 w-4" />
+                      Approve {filteredPending.length} Pending
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Approve Filtered Comments</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Approve all {filteredPending.length} pending comment(s) that match the current filters?
+                        They will appear on the site straight away.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleApproveAll(filteredPending.map(c => c.id))}>
+                        Approve
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
             </div>
           </CardContent>
         </Card>
 
-        {/* Bulk Actions */}
-        {selectedComments.size > 0 && (
-          <Card className="mb-6">
-            <CardContent className="p-4">
-              <div className="flex items-center justify-between">
-                <p className="text-sm text-gray-600 dark:text-gray-400">
-                  {selectedComments.size} comment(s) selected
-                </p>
-                <div className="flex gap-2">
-                  <Button
-                    onClick={handleBulkApprove}
-                    disabled={bulkActionLoading}
-                    size="sm"
-                    className="gap-2"
-                  >
-                    <Check className="h-4 w-4" />
-                    Approve
-                  </Button>
-                  
-                  <Button
-                    onClick={handleBulkMarkSpam}
-                    disabled={bulkActionLoading}
-                    variant="secondary"
-                    size="sm"
-                    className="gap-2"
-                  >
-                    <Flag className="h-4 w-4" />
-                    Mark Spam
-                  </Button>
-
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
+        {queueMode ? (
+          <ModerationQueue
+            queue={queue}
+            allComments={comments}
+            articles={articles}
+            paused={isBanModalOpen || isModalOpen}
+            lastActionLabel={lastAction?.label || null}
+            onDecision={handleQueueDecision}
+            onBan={(comment) => handleBanCommenter(comment.id)}
+            onUndo={handleUndo}
+            onApproveAll={() => handleApproveAll(queue.map(c => c.id))}
+            onExit={() => {
+              setQueueMode(false);
+              setLastAction(null);
+            }}
+          />
+        ) : (
+          <>
+            {/* Bulk Actions */}
+            {selectedComments.size > 0 && (
+              <Card className="mb-6">
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {selectedComments.size} comment(s) selected
+                    </p>
+                    <div className="flex gap-2">
                       <Button
-                        variant="destructive"
+                        onClick={handleBulkApprove}
+                        disabled={bulkActionLoading}
                         size="sm"
                         className="gap-2"
                       >
-                        <Trash2 className="h-4 w-4" />
-                        Delete
+                        <Check className="h-4 w-4" />
+                        Approve
+                      </Button>
+                      
+                      <Button
+                        onClick={handleBulkMarkSpam}
+                        disabled={bulkActionLoading}
+                        variant="secondary"
+                        size="sm"
+                        className="gap-2"
+                      >
+                        <Flag className="h-4 w-4" />
+                        Mark Spam
                       </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Delete Comments</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          Are you sure you want to delete {selectedComments.size} comment(s)? 
-                          This action cannot be undone.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction 
-                          onClick={handleBulkDelete}
-                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                        >
-                          Delete
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        )}
 
-        {/* Comments Table */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <MessageSquare className="h-5 w-5" />
-              Comments ({filteredComments.length})
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            {loading ? (
-              <div className="text-center py-8">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
-                <p className="mt-2 text-gray-600 dark:text-gray-400">Loading comments...</p>
-              </div>
-            ) : filteredComments.length === 0 ? (
-              <div className="text-center py-8">
-                <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                <p className="text-gray-600 dark:text-gray-400">No comments found</p>
-              </div>
-            ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead className="w-12">
-                      <input
-                        type="checkbox"
-                        checked={selectedComments.size === filteredComments.length && filteredComments.length > 0}
-                        onChange={handleSelectAll}
-                        className="rounded"
-                      />
-                    </TableHead>
-                    <TableHead>Comment</TableHead>
-                    <TableHead>Author</TableHead>
-                    <TableHead>Article</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Date</TableHead>
-                    <TableHead className="w-20">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredComments.map((comment) => (
-                    <TableRow key={comment.id}>
-                      <TableCell>
-                        <input
-                          type="checkbox"
-                          checked={selectedComments.has(comment.id)}
-                          onChange={() => handleSelectComment(comment.id)}
-                          className="rounded"
-                        />
-                      </TableCell>
-                      <TableCell>
-                        <div>
-                          <p className="font-medium text-gray-900 dark:text-white">
-                            {comment.content.length > 100
-                              ? `${comment.content.substring(0, 100)}...`
-                              : comment.content}
-                          </p>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div>
-                          <p className="font-medium text-gray-900 dark:text-white">
-                            {comment.author_name}
-                          </p>
-                          <p className="text-sm text-gray-500 dark:text-gray-400">
-                            {comment.author_email}
-                          </p>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <p className="text-sm text-gray-900 dark:text-white">
-                          {comment.article?.title.length > 30
-                            ? `${comment.article.title.substring(0, 30)}...`
-                            : comment.article?.title || 'Unknown Article'}
-                        </p>
-                      </TableCell>
-                      <TableCell>
-                        {getStatusBadge(comment)}
-                      </TableCell>
-                      <TableCell>
-                        <p className="text-sm text-gray-500 dark:text-gray-400">
-                          {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
-                        </p>
-                      </TableCell>
-                      <TableCell>
-                        <CommentActions
-                          commentId={comment.id}
-                          isApproved={comment.is_approved}
-                          isSpam={comment.is_spam}
-                          onApprove={handleApproveComment}
-                          onReject={handleRejectComment}
-                          onMarkSpam={handleMarkSpam}
-                          onDelete={handleDeleteComment}
-                          size="sm"
-                        />
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            className="gap-2"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            Delete
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Comments</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Are you sure you want to delete {selectedComments.size} comment(s)? 
+                              This action cannot be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction 
+                              onClick={handleBulkDelete}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
             )}
-          </CardContent>
-        </Card>
+
+            {/* Comments Table */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="h-5 w-5" />
+                  Comments ({filteredComments.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="text-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+                    <p className="mt-2 text-gray-600 dark:text-gray-400">Loading comments...</p>
+                  </div>
+                ) : filteredComments.length === 0 ? (
+                  <div className="text-center py-8">
+                    <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-600 dark:text-gray-400">No comments found</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">
+                          <input
+                            type="checkbox"
+                            checked={selectedComments.size === filteredComments.length && filteredComments.length > 0}
+                            onChange={handleSelectAll}
+                            className="rounded"
+                          />
+                        </TableHead>
+                        <TableHead>Comment</TableHead>
+                        <TableHead>Author</TableHead>
+                        <TableHead>Article</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead className="w-20">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredComments.map((comment) => (
+                        <TableRow key={comment.id}>
+                          <TableCell>
+                            <input
+                              type="checkbox"
+                              checked={selectedComments.has(comment.id)}
+                              onChange={() => handleSelectComment(comment.id)}
+                              className="rounded"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div>
+                              <p className="font-medium text-gray-900 dark:text-white">
+                                {comment.content.length > 100
+                                  ? `${comment.content.substring(0, 100)}...`
+                                  : comment.content}
+                              </p>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div>
+                              <p className="font-medium text-gray-900 dark:text-white">
+                                {comment.author_name}
+                              </p>
+                              <p className="text-sm text-gray-500 dark:text-gray-400">
+                                {comment.author_email}
+                              </p>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <p className="text-sm text-gray-900 dark:text-white">
+                              {comment.article?.title.length > 30
+                                ? `${comment.article.title.substring(0, 30)}...`
+                                : comment.article?.title || 'Unknown Article'}
+                            </p>
+                          </TableCell>
+                          <TableCell>
+                            {getStatusBadge(comment)}
+                          </TableCell>
+                          <TableCell>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                              {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                            </p>
+                          </TableCell>
+                          <TableCell>
+                            <CommentActions
+                              commentId={comment.id}
+                              isApproved={comment.is_approved}
+                              isSpam={comment.is_spam}
+                              onApprove={handleApproveComment}
+                              onReject={handleRejectComment}
+                              onMarkSpam={handleMarkSpam}
+                              onDelete={handleDeleteComment}
+                              onBan={handleBanCommenter}
+                              size="sm"
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <CommentBanList
+              bans={bans}
+              loading={bansLoading}
+              onAdd={handleAddBan}
+              onLift={handleLiftBan}
+            />
+          </>
+        )}
 
         {/* Comment Details Modal */}
         <CommentDetailsModal
@@ -716,6 +920,16 @@ export function CommentsManagementPage() {
           onMarkSpam={handleMarkSpam}
           onDelete={handleDeleteComment}
         />
+
+        <CommentBanModal
+          comment={banComment}
+          isOpen={isBanModalOpen}
+          onClose={() => {
+            setIsBanModalOpen(false);
+            setBanComment(null);
+          }}
+          onBanned={handleBanned}
+        />
       </div>
     </div>
   );
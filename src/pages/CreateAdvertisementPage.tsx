@@ -6,7 +6,7 @@ import { AdvertisementForm } from '../components/AdvertisementForm';
 
 export function CreateAdvertisementPage() {
   const navigate = useNavigate();
-  const { user, profile } = useAuth();
+  const { user } = useAuth();
   const { createAdvertisement } = useAdminAdvertisements();
 
   const handleSuccess = async () => {
@@ -37,16 +37,6 @@ export function CreateAdvertisementPage() {
     }
   };
 
-  React.useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-    }
-  }, [user, profile, navigate]);
-
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="container mx-auto px-4 py-8">
@@ -1,22 +1,10 @@
-import React, { useEffect } from 'react';
+import React from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
 import { ArrowLeft } from 'lucide-react';
 import { ArticleForm } from '../components/ArticleForm';
 
 export function CreateArticlePage() {
   const navigate = useNavigate();
-  const { user, profile } = useAuth();
-
-  useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-    }
-  }, [user, profile, navigate]);
-
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
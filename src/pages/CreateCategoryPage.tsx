@@ -1,22 +1,10 @@
-import React, { useEffect } from 'react';
+import React from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
 import { CategoryForm } from '../components/CategoryForm';
 
 export function CreateCategoryPage() {
-  const { user, profile } = useAuth();
   const navigate = useNavigate();
 
-  useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-    }
-  }, [user, profile, navigate]);
-
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="container mx-auto px-4 py-8">
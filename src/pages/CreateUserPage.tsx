@@ -1,10 +1,8 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
 import { ArrowLeft, UserPlus, Mail, Lock, User, Shield } from 'lucide-react';
-
-const ROLES = ['admin', 'editor', 'author', 'subscriber'];
+import { ROLES, ROLE_LABELS } from '../lib/permissions';
+import { createUser, inviteUser } from '../lib/adminUsers';
 
 interface UserFormData {
   email: string;
@@ -12,6 +10,7 @@ interface UserFormData {
   fullName: string;
   username: string;
   role: string;
+  invite: boolean;
 }
 
 export function CreateUserPage() {
@@ -20,38 +19,31 @@ export function CreateUserPage() {
     password: '',
     fullName: '',
     username: '',
-    role: 'subscriber'
+    role: 'subscriber',
+    invite: false
   });
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState('');
   const [error, setError] = useState('');
-  const { user, profile } = useAuth();
   const navigate = useNavigate();
 
-  useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-      return;
-    }
-  }, [user, profile, navigate]);
-
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
+    const { name, value, type } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: value
+      [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value
     }));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.email || !formData.password || !formData.fullName) {
+    if (!formData.email || !formData.fullName || (!formData.invite && !formData.password)) {
       setError('Please fill in all required fields');
       return;
     }
 
-    if (formData.password.length < 6) {
+    if (!formData.invite && formData.password.length < 6) {
       setError('Password must be at least 6 characters long');
       return;
     }
@@ -61,48 +53,25 @@ export function CreateUserPage() {
     setSuccess('');
 
     try {
-      // Create user with Supabase Auth
-      const { data: authData, error: authError } = await supabase.auth.signUp({
+      const newUser = {
         email: formData.email,
-        password: formData.password,
-        options: {
-          data: {
-            full_name: formData.fullName,
-            username: formData.username,
-            role: formData.role
-          }
-        }
-      });
-
-      if (authError) throw authError;
-
-      if (authData.user) {
-        // Create profile entry
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .insert({
-            id: authData.user.id,
-            user_id: authData.user.id,
-            username: formData.username || null,
-            full_name: formData.fullName,
-            role: formData.role,
-            avatar_url: null
-          });
-
-        if (profileError) {
-          console.error('Profile creation error:', profileError);
-          // Continue even if profile creation fails - user is already created
-        }
+        fullName: formData.fullName,
+        username: formData.username,
+        role: formData.role
+      };
 
+      if (formData.invite) {
+        await inviteUser(newUser);
+        setSuccess(`Invitation sent to ${formData.email}. They can sign in once they accept it.`);
+      } else {
+        await createUser({ ...newUser, password: formData.password });
         setSuccess('User created successfully! The user can now sign in with their credentials.');
-        console.log('User created, realtime subscription should update the users list automatically');
-        
-        // The UsersManagementPage will automatically refresh via realtime subscription
-        // Redirect after short delay to show success message
-        setTimeout(() => {
-          navigate('/admin/users');
-        }, 2000);
       }
+
+      // Redirect after short delay to show success message
+      setTimeout(() => {
+        navigate('/admin/users');
+      }, 2000);
     } catch (error: any) {
       console.error('Error creating user:', error);
       setError(error.message || 'Failed to create user');
@@ -111,10 +80,6 @@ export function CreateUserPage() {
     }
   };
 
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="container mx-auto px-4 py-8">
@@ -177,27 +142,41 @@ export function CreateUserPage() {
                 </div>
               </div>
 
+              {/* Invite */}
+              <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300" style={{ minHeight: '44px' }}>
+                <input
+                  type="checkbox"
+                  name="invite"
+                  checked={formData.invite}
+                  onChange={handleChange}
+                  className="h-4 w-4 text-purple-600 rounded border-gray-300 focus:ring-purple-500"
+                />
+                Send an invitation email and let the user choose their own password
+              </label>
+
               {/* Password */}
-              <div>
-                <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Password *
-                </label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
-                  <input
-                    type="password"
-                    id="password"
-                    name="password"
-                    value={formData.password}
-                    onChange={handleChange}
-                    required
-                    minLength={6}
-                    className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                    style={{ minHeight: '44px' }}
-                    placeholder="Enter secure password (min 6 characters)"
-                  />
+              {!formData.invite && (
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Password *
+                  </label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+                    <input
+                      type="password"
+                      id="password"
+                      name="password"
+                      value={formData.password}
+                      onChange={handleChange}
+                      required
+                      minLength={6}
+                      className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      style={{ minHeight: '44px' }}
+                      placeholder="Enter secure password (min 6 characters)"
+                    />
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* Full Name */}
               <div>
@@ -258,7 +237,7 @@ export function CreateUserPage() {
                   >
                     {ROLES.map(role => (
                       <option key={role} value={role}>
-                        {role.charAt(0).toUpperCase() + role.slice(1)}
+                        {ROLE_LABELS[role]}
                       </option>
                     ))}
                   </select>
@@ -286,12 +265,12 @@ export function CreateUserPage() {
                   {loading ? (
                     <>
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                      Creating...
+                      {formData.invite ? 'Sending...' : 'Creating...'}
                     </>
                   ) : (
                     <>
                       <UserPlus className="h-4 w-4" />
-                      Create User
+                      {formData.invite ? 'Send Invitation' : 'Create User'}
                     </>
                   )}
                 </button>
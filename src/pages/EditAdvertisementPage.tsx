@@ -1,6 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { useAdminAdvertisements, Advertisement } from '../hooks/useAdminAdvertisements';
 import { ArrowLeft, BarChart3, TrendingUp, MousePointer, Eye, Calendar } from 'lucide-react';
 import { AdvertisementForm } from '../components/AdvertisementForm';
@@ -8,7 +7,6 @@ import { AdvertisementForm } from '../components/AdvertisementForm';
 export function EditAdvertisementPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { user, profile } = useAuth();
   const { 
     getAdvertisementById, 
     updateAdvertisement,
@@ -22,11 +20,6 @@ export function EditAdvertisementPage() {
   const [activeTab, setActiveTab] = useState<'form' | 'analytics'>('form');
 
   useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-      return;
-    }
-
     if (id) {
       const ad = getAdvertisementById(id);
       if (ad) {
@@ -40,7 +33,7 @@ export function EditAdvertisementPage() {
       setError('Advertisement ID is required');
       setLoading(false);
     }
-  }, [id, user, profile, getAdvertisementById, navigate]);
+  }, [id, getAdvertisementById]);
 
   const handleSuccess = async () => {
     setSuccess('Advertisement updated successfully');
@@ -121,10 +114,6 @@ export function EditAdvertisementPage() {
     return { status: 'Active', color: 'text-green-600', bgColor: 'bg-green-100' };
   };
 
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -235,6 +224,15 @@ export function EditAdvertisementPage() {
 
           {activeTab === 'analytics' && (
             <>
+              <div className="flex justify-end mb-4">
+                <Link
+                  to={`/admin/ads/reports?ad=${id}`}
+                  className="inline-flex items-center gap-2 text-sm font-medium text-red-600 hover:text-red-700"
+                >
+                  <BarChart3 className="h-4 w-4" />
+                  <span>Daily campaign report</span>
+                </Link>
+              </div>
               {/* Key Metrics */}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
                 <div className="bg-blue-50 dark:bg-blue-900 rounded-lg p-4">
@@ -1,27 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { useAuth } from '../contexts/AuthContext';
 import { ArrowLeft } from 'lucide-react';
 import { ArticleForm } from '../components/ArticleForm';
+import { ArticleRevisionHistory } from '../components/ArticleRevisionHistory';
+import { getWorkflowStatus } from '../lib/workflow';
 
 export function EditArticlePage() {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
-  const { user, profile } = useAuth();
   const [loadingArticle, setLoadingArticle] = useState(true);
   const [error, setError] = useState('');
   const [articleData, setArticleData] = useState<any>(null);
+  const [formVersion, setFormVersion] = useState(0);
 
   useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-      return;
-    }
     if (id) {
       fetchArticle();
     }
-  }, [user, profile, navigate, id]);
+  }, [id]);
 
   const fetchArticle = async () => {
     try {
@@ -48,8 +45,12 @@ export function EditArticlePage() {
           language: data.language || 'sr',
           meta_title: data.meta_title || '',
           meta_description: data.meta_description || '',
-          publish_action: data.status === 'published' ? 'publish_now' : data.status === 'scheduled' ? 'schedule' : 'draft',
-          scheduled_date: data.scheduled_publish_date ? new Date(data.scheduled_publish_date).toISOString().slice(0, 16) : ''
+          workflow_status: getWorkflowStatus(data),
+          next_status: '',
+          scheduled_date: data.scheduled_publish_date ? new Date(data.scheduled_publish_date).toISOString().slice(0, 16) : '',
+          reviewer_id: data.reviewer_id || '',
+          review_comment: data.review_comment || '',
+          transition_comment: ''
         });
       }
     } catch (error: any) {
@@ -60,10 +61,6 @@ export function EditArticlePage() {
     }
   };
 
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
   if (loadingArticle) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
@@ -105,10 +102,22 @@ export function EditArticlePage() {
         </button>
 
         <ArticleForm 
+          key={formVersion}
           mode="edit" 
           articleId={id}
           initialData={articleData}
         />
+
+        {id && (
+          <ArticleRevisionHistory
+            articleId={id}
+            onRestored={async () => {
+              // Remount the form so it picks up the restored fields
+              await fetchArticle();
+              setFormVersion(version => version + 1);
+            }}
+          />
+        )}
       </div>
     </div>
   );
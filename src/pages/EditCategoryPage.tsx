@@ -1,6 +1,5 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useParams, Link } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
 import { supabase, Category } from '../lib/supabase';
 import { CategoryForm } from '../components/CategoryForm';
 import { Button } from '../components/ui/button';
@@ -8,7 +7,6 @@ import { Alert, AlertDescription } from '../components/ui/alert';
 import { ArrowLeft, AlertCircle, FolderOpen } from 'lucide-react';
 
 export function EditCategoryPage() {
-  const { user, profile } = useAuth();
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   
@@ -17,15 +15,10 @@ export function EditCategoryPage() {
   const [error, setError] = useState('');
 
   useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-      return;
-    }
-    
     if (id) {
       fetchCategory(id);
     }
-  }, [user, profile, navigate, id]);
+  }, [id]);
 
   const fetchCategory = async (categoryId: string) => {
     try {
@@ -45,10 +38,6 @@ export function EditCategoryPage() {
     }
   };
 
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
@@ -1,29 +1,14 @@
 import React, { useEffect, useState } from 'react';
-import { useNavigate, useParams, Link } from 'react-router-dom';
-import { useAuth } from '../contexts/AuthContext';
+import { useParams, Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { ArrowLeft, Edit, Mail, User, Shield, Activity, Key, Save } from 'lucide-react';
-
-const ROLES = ['admin', 'editor', 'author', 'subscriber'];
-
-interface UserProfile {
-  id: string;
-  user_id: string;
-  username: string | null;
-  full_name: string | null;
-  avatar_url: string | null;
-  role: string | null;
-  created_at: string;
-  updated_at: string;
-  email?: string;
-  status?: 'active' | 'inactive';
-}
+import { ROLES, ROLE_LABELS, getRoleBadgeClass, getRoleLabel } from '../lib/permissions';
+import { AdminUser, getUser, updateUser, setUserRole, resetUserPassword } from '../lib/adminUsers';
 
 interface UserFormData {
   fullName: string;
   username: string;
   role: string;
-  status: string;
 }
 
 interface UserActivity {
@@ -35,12 +20,11 @@ interface UserActivity {
 
 export function EditUserPage() {
   const { id } = useParams<{ id: string }>();
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [userProfile, setUserProfile] = useState<AdminUser | null>(null);
   const [formData, setFormData] = useState<UserFormData>({
     fullName: '',
     username: '',
-    role: 'subscriber',
-    status: 'active'
+    role: 'subscriber'
   });
   const [activity, setActivity] = useState<UserActivity[]>([]);
   const [loading, setLoading] = useState(true);
@@ -50,55 +34,23 @@ export function EditUserPage() {
   const [error, setError] = useState('');
   const [showPasswordReset, setShowPasswordReset] = useState(false);
   const [newPassword, setNewPassword] = useState('');
-  const { user, profile } = useAuth();
-  const navigate = useNavigate();
 
   useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-      return;
-    }
-
     if (id) {
       fetchUserProfile();
       fetchUserActivity();
     }
-  }, [user, profile, navigate, id]);
+  }, [id]);
 
   const fetchUserProfile = async () => {
     try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select(`
-          *,
-          auth.users!inner (
-            email
-          )
-        `)
-        .eq('id', id)
-        .single();
-
-      if (error) throw error;
-
-      const formattedUser = {
-        id: (data as any).id,
-        user_id: (data as any).user_id,
-        username: (data as any).username,
-        full_name: (data as any).full_name,
-        avatar_url: (data as any).avatar_url,
-        role: (data as any).role,
-        created_at: (data as any).created_at,
-        updated_at: (data as any).updated_at,
-        email: (data as any).auth?.users?.email || '',
-        status: 'active' as const // Default status
-      } as UserProfile;
-
-      setUserProfile(formattedUser);
+      const user = await getUser(id!);
+
+      setUserProfile(user);
       setFormData({
-        fullName: formattedUser.full_name || '',
-        username: formattedUser.username || '',
-        role: formattedUser.role || 'subscriber',
-        status: formattedUser.status || 'active'
+        fullName: user.full_name || '',
+        username: user.username || '',
+        role: user.role || 'subscriber'
       });
     } catch (error: any) {
       console.error('Error fetching user profile:', error);
@@ -183,17 +135,10 @@ export function EditUserPage() {
     setSuccess('');
 
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          full_name: formData.fullName,
-          username: formData.username || null,
-          role: formData.role,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id);
-
-      if (error) throw error;
+      await updateUser(id!, { fullName: formData.fullName, username: formData.username });
+      if (formData.role !== (userProfile?.role || 'subscriber')) {
+        await setUserRole(id!, formData.role);
+      }
 
       setSuccess('User updated successfully!');
       fetchUserProfile(); // Refresh data
@@ -216,12 +161,7 @@ export function EditUserPage() {
 
     try {
       setSaving(true);
-      const { error } = await supabase.auth.admin.updateUserById(
-        userProfile!.user_id,
-        { password: newPassword }
-      );
-
-      if (error) throw error;
+      await resetUserPassword(id!, newPassword);
 
       setSuccess('Password reset successfully!');
       setShowPasswordReset(false);
@@ -236,6 +176,23 @@ export function EditUserPage() {
     }
   };
 
+  const handleSendResetLink = async () => {
+    try {
+      setSaving(true);
+      await resetUserPassword(id!);
+
+      setSuccess(`Password reset link sent to ${userProfile?.email}`);
+      setShowPasswordReset(false);
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (error: any) {
+      console.error('Error sending password reset link:', error);
+      setError(error.message || 'Failed to send password reset link');
+      setTimeout(() => setError(''), 5000);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -246,15 +203,6 @@ export function EditUserPage() {
     });
   };
 
-  const getRoleBadgeColor = (role: string) => {
-    switch (role) {
-      case 'admin': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
-      case 'editor': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
-      case 'author': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
-      case 'subscriber': return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200';
-      default: return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200';
-    }
-  };
 
   if (loading) {
     return (
@@ -402,7 +350,7 @@ export function EditUserPage() {
                     >
                       {ROLES.map(role => (
                         <option key={role} value={role}>
-                          {role.charAt(0).toUpperCase() + role.slice(1)}
+                          {ROLE_LABELS[role]}
                         </option>
                       ))}
                     </select>
@@ -444,25 +392,37 @@ export function EditUserPage() {
                           />
                         </div>
                       </div>
-                      <button
-                        type="button"
-                        onClick={handlePasswordReset}
-                        disabled={saving}
-                        className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white rounded-lg transition-colors flex items-center gap-2"
-                        style={{ minHeight: '44px' }}
-                      >
-                        {saving ? (
-                          <>
-                            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                            Resetting...
-                          </>
-                        ) : (
-                          <>
-                            <Key className="h-4 w-4" />
-                            Reset Password
-                          </>
-                        )}
-                      </button>
+                      <div className="flex flex-wrap gap-3">
+                        <button
+                          type="button"
+                          onClick={handlePasswordReset}
+                          disabled={saving}
+                          className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white rounded-lg transition-colors flex items-center gap-2"
+                          style={{ minHeight: '44px' }}
+                        >
+                          {saving ? (
+                            <>
+                              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                              Resetting...
+                            </>
+                          ) : (
+                            <>
+                              <Key className="h-4 w-4" />
+                              Reset Password
+                            </>
+                          )}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={handleSendResetLink}
+                          disabled={saving}
+                          className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors flex items-center gap-2"
+                          style={{ minHeight: '44px' }}
+                        >
+                          <Mail className="h-4 w-4" />
+                          Email Reset Link Instead
+                        </button>
+                      </div>
                     </div>
                   )}
                 </div>
@@ -532,8 +492,8 @@ export function EditUserPage() {
                 <div className="pt-3 border-t">
                   <div className="flex items-center justify-between">
                     <span className="text-sm text-gray-600 dark:text-gray-400">Role:</span>
-                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getRoleBadgeColor(userProfile.role || 'subscriber')}`}>
-                      {userProfile.role ? userProfile.role.charAt(0).toUpperCase() + userProfile.role.slice(1) : 'No role'}
+                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getRoleBadgeClass(userProfile.role)}`}>
+                      {getRoleLabel(userProfile.role)}
                     </span>
                   </div>
                   <div className="flex items-center justify-between mt-2">
@@ -543,7 +503,7 @@ export function EditUserPage() {
                         ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
                         : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
                     }`}>
-                      {userProfile.status || 'active'}
+                      {userProfile.invited ? 'invited' : userProfile.status}
                     </span>
                   </div>
                   <div className="flex items-center justify-between mt-2">
@@ -552,6 +512,12 @@ export function EditUserPage() {
                       {formatDate(userProfile.created_at)}
                     </span>
                   </div>
+                  <div className="flex items-center justify-between mt-2">
+                    <span className="text-sm text-gray-600 dark:text-gray-400">Last sign-in:</span>
+                    <span className="text-sm text-gray-900 dark:text-white">
+                      {userProfile.last_sign_in_at ? formatDate(userProfile.last_sign_in_at) : 'Never'}
+                    </span>
+                  </div>
                 </div>
               </div>
             </div>
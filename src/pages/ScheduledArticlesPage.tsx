@@ -0,0 +1,221 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { supabase, Article } from '../lib/supabase';
+import { addDays, formatSiteDay, formatSiteTime, toSiteDay } from '../lib/dates';
+import { ArrowLeft, CalendarClock, ChevronLeft, ChevronRight, Clock } from 'lucide-react';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+function getMonthGrid(month: string): string[] {
+  // Weeks start on Monday; pad the grid with days from the neighbouring months
+  const firstDay = `${month}-01`;
+  const weekday = (new Date(`${firstDay}T00:00:00Z`).getUTCDay() + 6) % 7;
+  const gridStart = addDays(firstDay, -weekday);
+  return Array.from({ length: 42 }, (_, i) => addDays(gridStart, i));
+}
+
+function shiftMonth(month: string, amount: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, monthIndex - 1 + amount, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+export function ScheduledArticlesPage() {
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [month, setMonth] = useState(() => toSiteDay().slice(0, 7));
+  const navigate = useNavigate();
+
+  const today = toSiteDay();
+  const gridDays = getMonthGrid(month);
+
+  const fetchScheduled = useCallback(async () => {
+    try {
+      setError('');
+      // Pad the range by a day on each side; bucketing happens in Belgrade time below
+      const monthDays = getMonthGrid(month);
+      const from = addDays(monthDays[0], -1);
+      const to = addDays(monthDays[monthDays.length - 1], 2);
+
+      const { data, error } = await supabase
+        .from('articles')
+        .select('*')
+        .eq('workflow_status', 'scheduled')
+        .gte('scheduled_publish_date', `${from}T00:00:00Z`)
+        .lt('scheduled_publish_date', `${to}T00:00:00Z`)
+        .order('scheduled_publish_date', { ascending: true });
+
+      if (error) throw error;
+      setArticles(data || []);
+    } catch (error: any) {
+      console.error('Error fetching scheduled articles:', error);
+      setError(error.message || 'Failed to load scheduled articles');
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    fetchScheduled();
+
+    const scheduledSubscription = supabase
+      .channel('scheduled-articles-changes')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'articles' },
+        () => fetchScheduled()
+      )
+      .subscribe();
+
+    return () => {
+      scheduledSubscription.unsubscribe();
+    };
+  }, [fetchScheduled]);
+
+  const articlesByDay = articles.reduce<Record<string, Article[]>>((acc, article) => {
+    if (!article.scheduled_publish_date) return acc;
+    const day = toSiteDay(article.scheduled_publish_date);
+    (acc[day] = acc[day] || []).push(article);
+    return acc;
+  }, {});
+
+  const upcoming = articles.filter(article =>
+    article.scheduled_publish_date && toSiteDay(article.scheduled_publish_date).startsWith(month)
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8">
+        <button
+          onClick={() => navigate('/admin/articles')}
+          className="inline-flex items-center gap-2 mb-6 px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          style={{ minHeight: '44px' }}
+        >
+          <ArrowLeft className="h-5 w-5" />
+          <span>Back to Articles</span>
+        </button>
+
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white flex items-center gap-3">
+            <CalendarClock className="h-8 w-8 text-purple-600" />
+            Scheduled Articles
+          </h1>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setMonth(shiftMonth(month, -1))}
+              className="p-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+              style={{ minWidth: '44px', minHeight: '44px' }}
+              aria-label="Previous month"
+            >
+              <ChevronLeft className="h-5 w-5 mx-auto" />
+            </button>
+            <span className="w-40 text-center font-semibold text-gray-900 dark:text-white">
+              {formatSiteDay(`${month}-01`, { month: 'long', year: 'numeric' })}
+            </span>
+            <button
+              onClick={() => setMonth(shiftMonth(month, 1))}
+              className="p-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+              style={{ minWidth: '44px', minHeight: '44px' }}
+              aria-label="Next month"
+            >
+              <ChevronRight className="h-5 w-5 mx-auto" />
+            </button>
+            <button
+              onClick={() => setMonth(today.slice(0, 7))}
+              className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors font-medium"
+              style={{ minHeight: '44px' }}
+            >
+              Today
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {/* Calendar */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden mb-6">
+          <div className="grid grid-cols-7 bg-gray-50 dark:bg-gray-700">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="px-2 py-3 text-center text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                {day}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7 divide-x divide-y divide-gray-200 dark:divide-gray-600">
+            {gridDays.map(day => {
+              const dayArticles = articlesByDay[day] || [];
+              const inMonth = day.startsWith(month);
+              return (
+                <div
+                  key={day}
+                  className={`min-h-28 p-2 ${inMonth ? '' : 'bg-gray-50 dark:bg-gray-900 opacity-60'}`}
+                >
+                  <div className={`text-sm mb-1 ${
+                    day === today
+                      ? 'inline-flex items-center justify-center w-6 h-6 rounded-full bg-red-600 text-white font-semibold'
+                      : 'text-gray-600 dark:text-gray-400'
+                  }`}>
+                    {Number(day.slice(8))}
+                  </div>
+                  <div className="space-y-1">
+                    {dayArticles.map(article => (
+                      <Link
+                        key={article.id}
+                        to={`/admin/articles/edit/${article.id}`}
+                        className="block px-2 py-1 text-xs rounded bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200 hover:bg-purple-200 dark:hover:bg-purple-800 truncate"
+                        title={article.title}
+                      >
+                        {formatSiteTime(article.scheduled_publish_date!)} {article.title}
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Agenda */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Going out this month</h2>
+          {loading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <div key={i} className="animate-pulse h-4 bg-gray-200 dark:bg-gray-700 rounded w-2/3"></div>
+              ))}
+            </div>
+          ) : upcoming.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400 text-center py-4">Nothing is scheduled for this month</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-600">
+              {upcoming.map(article => (
+                <li key={article.id} className="py-3 flex items-center justify-between gap-4">
+                  <div>
+                    <Link
+                      to={`/admin/articles/edit/${article.id}`}
+                      className="text-sm font-medium text-gray-900 dark:text-white hover:text-red-600"
+                    >
+                      {article.title}
+                    </Link>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {article.author_name || 'Unknown'} · {article.category || 'N/A'}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-purple-700 dark:text-purple-300 flex-shrink-0">
+                    <Clock className="h-4 w-4" />
+                    {formatSiteDay(toSiteDay(article.scheduled_publish_date!), { weekday: 'short', month: 'short', day: 'numeric' })}
+                    {' '}{formatSiteTime(article.scheduled_publish_date!)}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,109 +1,134 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { SearchBar } from '../components/SearchBar';
 import { SearchResults } from '../components/SearchResults';
-import { supabase, Article } from '../lib/supabase';
+import { SearchFacetPanel } from '../components/SearchFacetPanel';
+import {
+  EMPTY_SEARCH_FILTERS,
+  fetchSearchFacets,
+  logSearch,
+  logSearchClick,
+  searchArticles,
+  SearchFacets,
+  SearchFilters,
+  SearchFilterState,
+  SearchResult,
+  SearchSort
+} from '../lib/search';
+import { addDays } from '../lib/dates';
 import { useLanguage } from '../contexts/LanguageContext';
 
 const ITEMS_PER_PAGE = 12;
 
+// URL parameter for each filter; tags repeat (?tag=a&tag=b)
+const FILTER_PARAMS: Record<Exclude<keyof SearchFilterState, 'tags'>, string> = {
+  category: 'category',
+  author: 'author',
+  language: 'lang',
+  date: 'date',
+  from: 'from',
+  to: 'to'
+};
+
+function readFilters(params: URLSearchParams): SearchFilterState {
+  return {
+    category: params.get(FILTER_PARAMS.category) || '',
+    tags: params.getAll('tag'),
+    author: params.get(FILTER_PARAMS.author) || '',
+    language: params.get(FILTER_PARAMS.language) || '',
+    date: params.get(FILTER_PARAMS.date) || '',
+    from: params.get(FILTER_PARAMS.from) || '',
+    to: params.get(FILTER_PARAMS.to) || ''
+  };
+}
+
+// Presets count back from now; a custom range covers whole days, "to" included
+function toSearchFilters(filters: SearchFilterState): SearchFilters {
+  const days = parseInt(filters.date, 10);
+
+  return {
+    category: filters.category || null,
+    tags: filters.tags,
+    author: filters.author || null,
+    language: filters.language || null,
+    since: days
+      ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+      : filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : null,
+    until: !days && filters.to ? new Date(`${addDays(filters.to, 1)}T00:00:00`).toISOString() : null
+  };
+}
+
 export function SearchPage() {
   const [searchParams, setSearchParams] = useSearchParams();
   const { t } = useLanguage();
-  const [articles, setArticles] = useState<(Article & { author_name?: string })[]>([]);
+  const [articles, setArticles] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(true);
   const [totalResults, setTotalResults] = useState(0);
-  const [selectedCategory, setSelectedCategory] = useState('');
-  const [dateRange, setDateRange] = useState('');
-  const [sortBy, setSortBy] = useState('published_at');
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [facetsLoading, setFacetsLoading] = useState(false);
+  const loggedTerm = useRef<string | null>(null);
+  const searchLogId = useRef<string | null>(null);
 
+  // Everything lives in the URL so a filtered search can be bookmarked or shared
   const searchTerm = searchParams.get('q') || '';
   const currentPage = parseInt(searchParams.get('page') || '1', 10);
-
-  // Fetch categories for filter dropdown
-  const [categories, setCategories] = useState<string[]>([]);
-
+  const sortBy = (searchParams.get('sort') || 'relevance') as SearchSort;
+  // Kept stable while only sorting or paging changes, so facets are not refetched
+  const filterKey = JSON.stringify(readFilters(searchParams));
+  const filters = useMemo((): SearchFilterState => JSON.parse(filterKey), [filterKey]);
+
+  // One log entry per term, whatever page or filters the reader arrived with; the
+  // server records how many results the bare term finds, so a filtered or shared link
+  // does not show up as a zero-result search
   useEffect(() => {
-    fetchCategories();
-  }, []);
-
-  useEffect(() => {
-    fetchArticles();
-  }, [searchParams, selectedCategory, dateRange, sortBy]);
+    if (!searchTerm.trim() || loggedTerm.current === searchTerm) return;
+
+    loggedTerm.current = searchTerm;
+    searchLogId.current = null;
+    logSearch(searchTerm).then(id => {
+      if (loggedTerm.current === searchTerm) searchLogId.current = id;
+    });
+  }, [searchTerm]);
+
+  // Facet counts only depend on the query and filters, not on sorting or paging
+  const fetchFacets = useCallback(async () => {
+    if (!searchTerm.trim()) {
+      setFacets(null);
+      return;
+    }
 
-  const fetchCategories = async () => {
+    setFacetsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('articles')
-        .select('category')
-        .not('category', 'is', null)
-        .eq('status', 'published');
-
-      if (error) throw error;
-
-      const uniqueCategories = [...new Set(data.map(item => item.category))].filter(Boolean) as string[];
-      setCategories(uniqueCategories);
+      setFacets(await fetchSearchFacets(searchTerm, toSearchFilters(filters)));
     } catch (error) {
-      console.error('Error fetching categories:', error);
+      console.error('Error fetching search facets:', error);
+    } finally {
+      setFacetsLoading(false);
     }
-  };
+  }, [searchTerm, filters]);
 
-  const fetchArticles = async () => {
+  useEffect(() => {
+    fetchFacets();
+  }, [fetchFacets]);
+
+  const fetchArticles = useCallback(async () => {
     setLoading(true);
     try {
-      let query = supabase
-        .from('articles')
-        .select('*', { count: 'exact' })
-        .eq('status', 'published');
-
-      // Apply search filter
-      if (searchTerm) {
-        query = query.or(`title.ilike.%${searchTerm}%,content.ilike.%${searchTerm}%,excerpt.ilike.%${searchTerm}%`);
-      }
-
-      // Apply category filter
-      if (selectedCategory) {
-        query = query.eq('category', selectedCategory);
-      }
-
-      // Apply date range filter
-      if (dateRange) {
-        const now = new Date();
-        const daysAgo = parseInt(dateRange);
-        const cutoffDate = new Date(now.getTime() - (daysAgo * 24 * 60 * 60 * 1000));
-        query = query.gte('published_at', cutoffDate.toISOString());
-      }
-
-      // Apply sorting
-      const isDateSort = sortBy.includes('date');
-      const ascending = sortBy.includes('asc');
-      
-      if (sortBy === 'relevance' && searchTerm) {
-        // For relevance, we'll order by publication date and let the database handle it
-        query = query.order('published_at', { ascending: false });
-      } else if (isDateSort) {
-        query = query.order('published_at', { ascending });
-      } else if (sortBy === 'title') {
-        query = query.order('title', { ascending });
-      }
-
-      // Apply pagination
-      const from = (currentPage - 1) * ITEMS_PER_PAGE;
-      const to = from + ITEMS_PER_PAGE - 1;
-      query = query.range(from, to);
-
-      const { data: articlesData, error, count } = await query;
-
-      if (error) throw error;
-
-      // Enhance articles with author_name
-      const articlesWithAuthor = (articlesData || []).map(article => ({
+      // Matching, ranking and highlighting happen in the search_articles RPC, which
+      // folds Cyrillic, Latin and diacritics so every spelling of a word matches
+      const { results, total } = await searchArticles({
+        query: searchTerm,
+        ...toSearchFilters(filters),
+        sort: sortBy,
+        page: currentPage,
+        pageSize: ITEMS_PER_PAGE
+      });
+
+      setArticles(results.map(article => ({
         ...article,
         author_name: article.author_name || 'Unknown Author'
-      }));
-
-      setArticles(articlesWithAuthor);
-      setTotalResults(count || 0);
+      })));
+      setTotalResults(total);
     } catch (error) {
       console.error('Error fetching articles:', error);
       setArticles([]);
@@ -111,10 +136,20 @@ export function SearchPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [searchTerm, filters, sortBy, currentPage]);
+
+  useEffect(() => {
+    fetchArticles();
+  }, [fetchArticles]);
 
   const totalPages = Math.ceil(totalResults / ITEMS_PER_PAGE);
 
+  const handleResultClick = (article: SearchResult, index: number) => {
+    if (searchLogId.current) {
+      logSearchClick(searchLogId.current, article.id, (currentPage - 1) * ITEMS_PER_PAGE + index + 1);
+    }
+  };
+
   const handlePageChange = (page: number) => {
     const newParams = new URLSearchParams(searchParams);
     newParams.set('page', page.toString());
@@ -122,40 +157,29 @@ export function SearchPage() {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const handleFilterChange = (filterType: string, value: string) => {
+  const handleFilterChange = (changes: Partial<SearchFilterState>) => {
+    const next = { ...filters, ...changes };
     const newParams = new URLSearchParams(searchParams);
-    
-    if (filterType === 'category') {
-      setSelectedCategory(value);
-      if (value) {
-        newParams.set('category', value);
-      } else {
-        newParams.delete('category');
-      }
-    } else if (filterType === 'date') {
-      setDateRange(value);
-      if (value) {
-        newParams.set('date', value);
+
+    (Object.keys(FILTER_PARAMS) as (keyof typeof FILTER_PARAMS)[]).forEach(key => {
+      if (next[key]) {
+        newParams.set(FILTER_PARAMS[key], next[key]);
       } else {
-        newParams.delete('date');
+        newParams.delete(FILTER_PARAMS[key]);
       }
-    } else if (filterType === 'sort') {
-      setSortBy(value);
-      newParams.set('sort', value);
-    }
-    
+    });
+    newParams.delete('tag');
+    next.tags.forEach(tag => newParams.append('tag', tag));
+
     newParams.set('page', '1'); // Reset to first page
     setSearchParams(newParams);
   };
 
-  // Category mapping for display
-  const categorySlugMap: Record<string, string> = {
-    'politics': 'politika',
-    'business': 'biznis',
-    'sports': 'sport',
-    'technology': 'tehnologija',
-    'culture': 'kultura',
-    'general': 'general'
+  const handleSortChange = (value: string) => {
+    const newParams = new URLSearchParams(searchParams);
+    newParams.set('sort', value);
+    newParams.set('page', '1');
+    setSearchParams(newParams);
   };
 
   return (
@@ -169,82 +193,54 @@ export function SearchPage() {
           <SearchBar autoFocus compact />
         </div>
 
-        {/* Filters */}
-        {(selectedCategory || dateRange || sortBy !== 'published_at') && (
-          <div className="max-w-4xl mx-auto mb-6">
-            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
-              <div className="flex flex-wrap items-center gap-4">
-                {/* Category Filter */}
-                <div className="flex-1 min-w-[200px]">
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    {t('search.category')}
-                  </label>
-                  <select
-                    value={selectedCategory}
-                    onChange={(e) => handleFilterChange('category', e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white"
-                  >
-                    <option value="">{t('search.allCategories')}</option>
-                    {categories.map(category => (
-                      <option key={category} value={category}>
-                        {t(`cat.${categorySlugMap[category.toLowerCase()] || category.toLowerCase()}`)}
-                      </option>
-                    ))}
-                  </select>
-                </div>
-
-                {/* Date Range Filter */}
-                <div className="flex-1 min-w-[200px]">
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    {t('search.dateRange')}
-                  </label>
-                  <select
-                    value={dateRange}
-                    onChange={(e) => handleFilterChange('date', e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white"
-                  >
-                    <option value="">{t('search.anyTime')}</option>
-                    <option value="7">{t('search.pastWeek')}</option>
-                    <option value="30">{t('search.pastMonth')}</option>
-                    <option value="90">{t('search.past3Months')}</option>
-                    <option value="365">{t('search.pastYear')}</option>
-                  </select>
-                </div>
-
-                {/* Sort Filter */}
-                <div className="flex-1 min-w-[200px]">
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    {t('search.sortBy')}
-                  </label>
-                  <select
-                    value={sortBy}
-                    onChange={(e) => handleFilterChange('sort', e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white"
-                  >
-                    <option value="published_at-desc">{t('search.newestFirst')}</option>
-                    <option value="published_at-asc">{t('search.oldestFirst')}</option>
-                    <option value="title">{t('search.titleAZ')}</option>
-                    {searchTerm && <option value="relevance">{t('search.relevance')}</option>}
-                  </select>
-                </div>
+        <div className={searchTerm ? 'grid grid-cols-1 lg:grid-cols-4 gap-6' : 'max-w-4xl mx-auto'}>
+          {/* Facets */}
+          {searchTerm && (
+            <aside className="lg:col-span-1">
+              <SearchFacetPanel
+                facets={facets}
+                loading={facetsLoading}
+                filters={filters}
+                onChange={handleFilterChange}
+                onClear={() => handleFilterChange(EMPTY_SEARCH_FILTERS)}
+              />
+            </aside>
+          )}
+
+          {/* Results */}
+          <div className={searchTerm ? 'lg:col-span-3' : ''}>
+            {searchTerm && (
+              <div className="flex justify-end items-center gap-2 mb-4">
+                <label htmlFor="search-sort" className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {t('search.sortBy')}
+                </label>
+                <select
+                  id="search-sort"
+                  value={sortBy}
+                  onChange={(e) => handleSortChange(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-600 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="relevance">{t('search.relevance')}</option>
+                  <option value="published_at-desc">{t('search.newestFirst')}</option>
+                  <option value="published_at-asc">{t('search.oldestFirst')}</option>
+                  <option value="title">{t('search.titleAZ')}</option>
+                </select>
               </div>
-            </div>
+            )}
+
+            <SearchResults
+              articles={articles}
+              loading={loading}
+              searchTerm={searchTerm}
+              totalResults={totalResults}
+              currentPage={currentPage}
+              totalPages={totalPages}
+              onPageChange={handlePageChange}
+              onResultClick={handleResultClick}
+            />
           </div>
-        )}
-
-        {/* Results */}
-        <div className="max-w-4xl mx-auto">
-          <SearchResults
-            articles={articles}
-            loading={loading}
-            searchTerm={searchTerm}
-            totalResults={totalResults}
-            currentPage={currentPage}
-            totalPages={totalPages}
-            onPageChange={handlePageChange}
-          />
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
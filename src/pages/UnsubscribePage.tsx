@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle, MailX } from 'lucide-react';
+import { unsubscribeFromCommentEmails } from '../lib/comments';
+
+export function UnsubscribePage() {
+  const [searchParams] = useSearchParams();
+  const email = searchParams.get('email') || '';
+  const token = searchParams.get('token') || '';
+
+  const [submitting, setSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Asks for a click rather than unsubscribing on load, so mail scanners that
+  // open links don't unsubscribe people
+  const handleUnsubscribe = async () => {
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      await unsubscribeFromCommentEmails(email, token);
+      setDone(true);
+    } catch (err: any) {
+      console.error('Error unsubscribing:', err);
+      setError(err.message || 'Failed to unsubscribe');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const validLink = email !== '' && token !== '';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-lg mx-auto bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 md:p-8 text-center">
+          {done ? (
+            <>
+              <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold mb-2 text-gray-900 dark:text-white">You're unsubscribed</h1>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">
+                We won't email <strong>{email}</strong> about comments anymore.
+              </p>
+            </>
+          ) : (
+            <>
+              <MailX className="h-12 w-12 text-red-600 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold mb-2 text-gray-900 dark:text-white">Comment notifications</h1>
+              {validLink ? (
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  Stop sending emails about approved comments and replies to <strong>{email}</strong>?
+                </p>
+              ) : (
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  This unsubscribe link is incomplete. Please use the link from the email you received.
+                </p>
+              )}
+
+              {error && (
+                <div className="mb-6 p-4 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 rounded-lg">
+                  {error}
+                </div>
+              )}
+
+              {validLink && (
+                <button
+                  onClick={handleUnsubscribe}
+                  disabled={submitting}
+                  className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors mb-4"
+                  style={{ minHeight: '44px' }}
+                >
+                  {submitting ? 'Unsubscribing...' : 'Unsubscribe'}
+                </button>
+              )}
+            </>
+          )}
+
+          <div>
+            <Link to="/" className="text-red-600 hover:text-red-700 dark:text-red-400">
+              Back to the homepage
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,39 +3,22 @@ import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import { ArrowLeft, Users, UserPlus, Search, Filter, Edit, Trash2, UserX, UserCheck } from 'lucide-react';
-
-interface UserProfile {
-  id: string;
-  user_id: string;
-  username: string | null;
-  full_name: string | null;
-  avatar_url: string | null;
-  role: string | null;
-  created_at: string;
-  updated_at: string;
-  email?: string;
-  status?: 'active' | 'inactive';
-}
-
-const ROLES = ['admin', 'editor', 'author', 'subscriber'];
+import { ROLES, ROLE_LABELS, getRoleBadgeClass, getRoleLabel } from '../lib/permissions';
+import { AdminUser, listUsers, setUserDisabled, deleteUser } from '../lib/adminUsers';
 
 export function UsersManagementPage() {
-  const [users, setUsers] = useState<UserProfile[]>([]);
-  const [filteredUsers, setFilteredUsers] = useState<UserProfile[]>([]);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [filteredUsers, setFilteredUsers] = useState<AdminUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [success, setSuccess] = useState('');
   const [error, setError] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState('');
   const [statusFilter, setStatusFilter] = useState('');
-  const { user, profile } = useAuth();
+  const { user: currentUser } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
-    if (!user || profile?.role !== 'admin') {
-      navigate('/');
-      return;
-    }
     fetchUsers();
 
     // Set up realtime subscription for profiles table
@@ -56,7 +39,7 @@ export function UsersManagementPage() {
     return () => {
       profilesSubscription.unsubscribe();
     };
-  }, [user, profile, navigate]);
+  }, []);
 
   useEffect(() => {
     filterUsers();
@@ -64,33 +47,7 @@ export function UsersManagementPage() {
 
   const fetchUsers = async () => {
     try {
-      // Join profiles with auth.users to get email
-      const { data, error } = await supabase
-        .from('profiles')
-        .select(`
-          *,
-          auth.users!inner (
-            email
-          )
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      const formattedUsers = data?.map((profile: any) => ({
-        id: profile.id,
-        user_id: profile.user_id,
-        username: profile.username,
-        full_name: profile.full_name,
-        avatar_url: profile.avatar_url,
-        role: profile.role,
-        created_at: profile.created_at,
-        updated_at: profile.updated_at,
-        email: profile.auth?.users?.email || '',
-        status: 'active' as const // Default status
-      } as UserProfile)) || [];
-
-      setUsers(formattedUsers);
+      setUsers(await listUsers());
     } catch (error: any) {
       console.error('Error fetching users:', error);
       setError(error.message || 'Failed to fetch users');
@@ -124,19 +81,10 @@ export function UsersManagementPage() {
 
   const handleToggleStatus = async (userId: string, currentStatus: string) => {
     try {
-      const newStatus = currentStatus === 'active' ? 'inactive' : 'active';
-      
-      const { error } = await supabase
-        .from('profiles')
-        .update({ 
-          role: currentStatus === 'active' ? 'subscriber' : profile?.role,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', userId);
+      const disable = currentStatus === 'active';
+      await setUserDisabled(userId, disable);
 
-      if (error) throw error;
-      
-      setSuccess(`User ${newStatus} successfully`);
+      setSuccess(`User ${disable ? 'deactivated' : 'activated'} successfully`);
       setTimeout(() => setSuccess(''), 3000);
       fetchUsers();
     } catch (error: any) {
@@ -154,13 +102,8 @@ export function UsersManagementPage() {
     }
 
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .delete()
-        .eq('id', userId);
+      await deleteUser(userId);
 
-      if (error) throw error;
-      
       setSuccess(`User "${userName}" deleted successfully`);
       setTimeout(() => setSuccess(''), 3000);
       fetchUsers();
@@ -171,15 +114,6 @@ export function UsersManagementPage() {
     }
   };
 
-  const getRoleBadgeColor = (role: string) => {
-    switch (role) {
-      case 'admin': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
-      case 'editor': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
-      case 'author': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
-      case 'subscriber': return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200';
-      default: return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200';
-    }
-  };
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -189,10 +123,6 @@ export function UsersManagementPage() {
     });
   };
 
-  if (!user || profile?.role !== 'admin') {
-    return null;
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
@@ -271,7 +201,7 @@ export function UsersManagementPage() {
                 <option value="">All Roles</option>
                 {ROLES.map(role => (
                   <option key={role} value={role}>
-                    {role.charAt(0).toUpperCase() + role.slice(1)}
+                    {ROLE_LABELS[role]}
                   </option>
                 ))}
               </select>
@@ -375,8 +305,8 @@ export function UsersManagementPage() {
                         {user.email}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getRoleBadgeColor(user.role || 'subscriber')}`}>
-                          {user.role ? user.role.charAt(0).toUpperCase() + user.role.slice(1) : 'No role'}
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getRoleBadgeClass(user.role)}`}>
+                          {getRoleLabel(user.role)}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -385,8 +315,13 @@ export function UsersManagementPage() {
                             ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
                             : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
                         }`}>
-                          {user.status || 'active'}
+                          {user.status}
                         </span>
+                        {user.invited && (
+                          <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+                            invited
+                          </span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                         {formatDate(user.created_at)}
@@ -400,25 +335,29 @@ export function UsersManagementPage() {
                           >
                             <Edit className="h-4 w-4" />
                           </button>
-                          <button
-                            onClick={() => handleToggleStatus(user.id, user.status || 'active')}
-                            className={`p-1 rounded transition-colors ${
-                              user.status === 'active'
-                                ? 'text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300'
-                                : 'text-green-600 hover:text-green-900 dark:text-green-400 dark:hover:text-green-300'
-                            }`}
-                            style={{ minHeight: '44px', minWidth: '44px' }}
-                            title={user.status === 'active' ? 'Deactivate user' : 'Activate user'}
-                          >
-                            {user.status === 'active' ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
-                          </button>
-                          <button
-                            onClick={() => handleDelete(user.id, user.full_name || user.email || 'Unknown User')}
-                            className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 p-1 rounded transition-colors"
-                            style={{ minHeight: '44px', minWidth: '44px' }}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </button>
+                          {user.id !== currentUser?.id && (
+                            <>
+                              <button
+                                onClick={() => handleToggleStatus(user.id, user.status)}
+                                className={`p-1 rounded transition-colors ${
+                                  user.status === 'active'
+                                    ? 'text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300'
+                                    : 'text-green-600 hover:text-green-900 dark:text-green-400 dark:hover:text-green-300'
+                                }`}
+                                style={{ minHeight: '44px', minWidth: '44px' }}
+                                title={user.status === 'active' ? 'Deactivate user' : 'Activate user'}
+                              >
+                                {user.status === 'active' ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                              </button>
+                              <button
+                                onClick={() => handleDelete(user.id, user.full_name || user.email || 'Unknown User')}
+                                className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300 p-1 rounded transition-colors"
+                                style={{ minHeight: '44px', minWidth: '44px' }}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </>
+                          )}
                         </div>
                       </td>
                     </tr>
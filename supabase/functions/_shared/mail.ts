@@ -0,0 +1,170 @@
+// Outgoing mail for edge functions. The transport is picked with MAIL_TRANSPORT so
+// production can use a real provider while local development catches everything:
+//
+//   resend   Resend HTTP API (RESEND_API_KEY)
+//   mailpit  Mailpit's send API, the mail catcher that ships with `supabase start`
+//            (MAILPIT_URL, default http://host.docker.internal:54324)
+//   file     writes each message as an .eml file to MAIL_OUTBOX_DIR (default /tmp/mail-outbox)
+//   log      prints messages to the function log (the default, local development only)
+//
+// Outside local development MAIL_TRANSPORT must be set: the log transport would put
+// recipients and their signed unsubscribe links in the logs and report every message
+// as delivered. Every transport sends from MAIL_FROM.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+function parseAddress(address: string): { name: string; email: string } {
+  const match = address.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  return match ? { name: match[1].replace(/^"|"$/g, ''), email: match[2] } : { name: '', email: address.trim() };
+}
+
+class ResendTransport implements MailTransport {
+  name = 'resend';
+
+  constructor(private apiKey: string, private from: string) {}
+
+  async send(message: MailMessage) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        headers: message.headers,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Resend rejected the message: ${await response.text()}`);
+    }
+  }
+}
+
+class MailpitTransport implements MailTransport {
+  name = 'mailpit';
+
+  constructor(private url: string, private from: string) {}
+
+  async send(message: MailMessage) {
+    const from = parseAddress(this.from);
+    const response = await fetch(`${this.url.replace(/\/$/, '')}/api/v1/send`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        From: { Email: from.email, Name: from.name },
+        To: [{ Email: message.to }],
+        Subject: message.subject,
+        Text: message.text,
+        HTML: message.html,
+        Headers: message.headers,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mailpit rejected the message: ${await response.text()}`);
+    }
+  }
+}
+
+class FileTransport implements MailTransport {
+  name = 'file';
+
+  constructor(private directory: string, private from: string) {}
+
+  async send(message: MailMessage) {
+    const boundary = `boundary-${crypto.randomUUID()}`;
+    const headers = {
+      'From': this.from,
+      'To': message.to,
+      'Subject': message.subject,
+      'Date': new Date().toUTCString(),
+      'MIME-Version': '1.0',
+      'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+      ...message.headers,
+    };
+
+    const eml = [
+      ...Object.entries(headers).map(([key, value]) => `${key}: ${value}`),
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      message.html,
+      `--${boundary}--`,
+      '',
+    ].join('\r\n');
+
+    await Deno.mkdir(this.directory, { recursive: true });
+    await Deno.writeTextFile(`${this.directory}/${Date.now()}-${crypto.randomUUID()}.eml`, eml);
+  }
+}
+
+class LogTransport implements MailTransport {
+  name = 'log';
+
+  constructor(private from: string) {}
+
+  send(message: MailMessage) {
+    console.log(`[mail] From: ${this.from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+    return Promise.resolve();
+  }
+}
+
+// `supabase start` serves functions behind the local gateway
+function isLocalDevelopment(): boolean {
+  try {
+    const { hostname } = new URL(Deno.env.get('SUPABASE_URL') || '');
+    return ['kong', 'localhost', '127.0.0.1', 'host.docker.internal'].includes(hostname);
+  } catch {
+    return false;
+  }
+}
+
+export function createMailTransport(): MailTransport {
+  const configured = Deno.env.get('MAIL_TRANSPORT');
+  if (!configured && !isLocalDevelopment()) {
+    throw new Error('MAIL_TRANSPORT is not configured');
+  }
+
+  const kind = configured || 'log';
+  const from = Deno.env.get('MAIL_FROM') || 'News <no-reply@localhost>';
+
+  switch (kind) {
+    case 'resend': {
+      const apiKey = Deno.env.get('RESEND_API_KEY');
+      if (!apiKey) {
+        throw new Error('RESEND_API_KEY is not configured');
+      }
+      return new ResendTransport(apiKey, from);
+    }
+    case 'mailpit':
+      return new MailpitTransport(Deno.env.get('MAILPIT_URL') || 'http://host.docker.internal:54324', from);
+    case 'file':
+      return new FileTransport(Deno.env.get('MAIL_OUTBOX_DIR') || '/tmp/mail-outbox', from);
+    case 'log':
+      return new LogTransport(from);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+}
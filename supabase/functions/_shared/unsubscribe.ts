@@ -0,0 +1,46 @@
+// Unsubscribe links carry the address and an HMAC of it, so nobody can unsubscribe
+// an address they did not receive mail at. Signed with NOTIFICATION_SIGNING_SECRET.
+
+async function signingKey(): Promise<CryptoKey> {
+  const secret = Deno.env.get('NOTIFICATION_SIGNING_SECRET');
+  if (!secret) {
+    throw new Error('NOTIFICATION_SIGNING_SECRET is not configured');
+  }
+
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function fromHex(hex: string): Uint8Array | null {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(hex)) return null;
+  return new Uint8Array(hex.match(/../g)!.map(pair => parseInt(pair, 16)));
+}
+
+export async function signUnsubscribeToken(email: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(), new TextEncoder().encode(email.toLowerCase()));
+  return toHex(signature);
+}
+
+export async function verifyUnsubscribeToken(email: string, token: string): Promise<boolean> {
+  const signature = fromHex(token);
+  if (!signature) return false;
+
+  // verify() compares in constant time
+  return crypto.subtle.verify('HMAC', await signingKey(), signature, new TextEncoder().encode(email.toLowerCase()));
+}
+
+export async function unsubscribeUrl(siteUrl: string, email: string): Promise<string> {
+  const params = new URLSearchParams({ email, token: await signUnsubscribeToken(email) });
+  return `${siteUrl.replace(/\/$/, '')}/unsubscribe?${params}`;
+}
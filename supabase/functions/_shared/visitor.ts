@@ -0,0 +1,60 @@
+// Anonymous visitor identification shared by the tracking and comment functions.
+// Visitors are a salted hash of IP and user agent (rotating daily where that is
+// enough), so the reader's IP never leaves our infrastructure and is never stored.
+
+export const BOT_USER_AGENT = /bot|crawl|spider|slurp|archiver|facebookexternalhit|embedly|preview|headless|lighthouse|pingdom|uptime|curl|wget|python-requests|httpclient|okhttp|go-http-client|java\//i;
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Each proxy appends the address it accepted the connection from to X-Forwarded-For,
+// so only the entries our own platform added can be trusted; everything to their
+// left arrived with the request and may be made up. TRUSTED_PROXY_HOPS is the number
+// of proxies in front of the functions (1 unless the site adds a CDN of its own).
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(Deno.env.get('TRUSTED_PROXY_HOPS')) || 1);
+
+const IPV4_PATTERN = /^(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)$/;
+const IPV6_PATTERN = /^[0-9a-f:]+(?:\.[\d.]+)?$/i;
+
+export function isIpAddress(value: string): boolean {
+  return IPV4_PATTERN.test(value) || (value.includes(':') && IPV6_PATTERN.test(value));
+}
+
+// 'unknown' when the trusted hop is missing or not an address; callers treat that as
+// one shared sender rather than skipping their checks
+export function getClientIp(req: Request): string {
+  const hops = (req.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  const ip = hops[hops.length - TRUSTED_PROXY_HOPS];
+
+  return ip && isIpAddress(ip) ? ip : 'unknown';
+}
+
+export function getBelgradeDay(date: Date): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'Europe/Belgrade',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+}
+
+async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function hashVisitor(salt: string, day: string, ip: string, userAgent: string): Promise<string> {
+  // The day is part of the input so hashes cannot be linked across days
+  return sha256Hex(`${salt}:${day}:${ip}:${userAgent}`);
+}
+
+// For records that must recognise the same reader on later days, like comment votes.
+// The address alone: a client picks its user agent freely, so mixing it in would
+// let one reader vote or report once per User-Agent header.
+export function hashSender(salt: string, ip: string): Promise<string> {
+  return sha256Hex(`${salt}:${ip}`);
+}
@@ -0,0 +1,306 @@
+// Counts ad impressions and clicks server-side.
+//
+//   POST { type: 'serve', adIds }
+//     Sent by AdManager when it shows ads. Returns a signed view token per ad.
+//   POST { type: 'impression', adId, view, visibleMs }
+//     Sent once an ad has been at least half visible for a second.
+//   GET ?ad=<adId>&view=<view token>
+//     The ad's click URL. Records the click and redirects to the advertiser.
+//
+// View tokens are signed with AD_VIEW_SIGNING_SECRET and bound to the ad, the
+// visitor and the time they were issued, so a script cannot mint its own. The unique
+// index on ad_events allows one impression and one click per ad per view. Bots, clicks without a viewable
+// impression and visitors over the daily limits still get their response or
+// redirect but are not counted. Deploy with --no-verify-jwt: click links are plain
+// navigations and carry no Authorization header.
+
+import { BOT_USER_AGENT, UUID_PATTERN, getBelgradeDay, getClientIp, hashVisitor } from '../_shared/visitor.ts';
+
+// IAB viewability: at least half the ad on screen for one continuous second. The
+// browser reports how long it watched, but only the token's age is trusted.
+const MIN_VISIBLE_MS = 1000;
+
+// A page left open longer than this has to be reloaded to count again
+const MAX_VIEW_AGE_MS = 6 * 60 * 60 * 1000;
+
+// No placement shows more than a handful of ads at once
+const MAX_ADS_PER_SERVE = 10;
+
+// Beyond these a visitor is refreshing or scripting, not reading
+const MAX_DAILY_IMPRESSIONS = 50;
+const MAX_DAILY_CLICKS = 10;
+
+type AdEventType = 'impression' | 'click';
+
+interface AdView {
+  viewId: string;
+  ageMs: number;
+}
+
+class AdEventError extends Error {
+  constructor(public code: string, message: string, public status = 400) {
+    super(message);
+  }
+}
+
+async function signingKey(): Promise<CryptoKey> {
+  const secret = Deno.env.get('AD_VIEW_SIGNING_SECRET');
+  if (!secret) {
+    throw new Error('AD_VIEW_SIGNING_SECRET is not configured');
+  }
+
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+function viewMessage(adId: string, viewId: string, issuedAt: number, visitorHash: string): Uint8Array {
+  return new TextEncoder().encode(`${adId.toLowerCase()}:${viewId}:${issuedAt}:${visitorHash}`);
+}
+
+// <view id>.<issued at, ms>.<hex HMAC>
+async function signView(adId: string, visitorHash: string): Promise<string> {
+  const viewId = crypto.randomUUID();
+  const issuedAt = Date.now();
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(), viewMessage(adId, viewId, issuedAt, visitorHash));
+  const hex = Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `${viewId}.${issuedAt}.${hex}`;
+}
+
+async function verifyView(adId: string, token: unknown, visitorHash: string): Promise<AdView | null> {
+  if (typeof token !== 'string') return null;
+
+  const [viewId, issued, hex] = token.split('.');
+  const issuedAt = Number(issued);
+  const ageMs = Date.now() - issuedAt;
+  if (!UUID_PATTERN.test(viewId || '') || !Number.isInteger(issuedAt) || ageMs < 0 || ageMs > MAX_VIEW_AGE_MS) {
+    return null;
+  }
+  if (!/^(?:[0-9a-f]{2})+$/i.test(hex || '')) return null;
+
+  const signature = new Uint8Array(hex.match(/../g)!.map(pair => parseInt(pair, 16)));
+  // verify() compares in constant time
+  const valid = await crypto.subtle.verify('HMAC', await signingKey(), signature, viewMessage(adId, viewId, issuedAt, visitorHash));
+
+  return valid ? { viewId, ageMs } : null;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const respond = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status,
+    });
+
+  const redirect = (location: string) =>
+    new Response(null, {
+      status: 302,
+      headers: { ...corsHeaders, 'Location': location, 'Cache-Control': 'no-store' },
+    });
+
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return respond({ error: { code: 'METHOD_NOT_ALLOWED', message: 'Use GET or POST' } }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const salt = Deno.env.get('VIEW_FINGERPRINT_SALT');
+  const siteUrl = Deno.env.get('SITE_URL') || '/';
+
+  const rest = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': serviceRoleKey,
+        'Authorization': `Bearer ${serviceRoleKey}`,
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new Error(`Database request failed: ${details}`);
+    }
+    return response.status === 204 ? null : response.json();
+  };
+
+  const findAd = async (adId: string): Promise<{ id: string; link_url: string | null; is_active: boolean } | null> => {
+    const [ad] = await rest(`advertisements?id=eq.${adId}&select=id,link_url,is_active`);
+    return ad || null;
+  };
+
+  // The daily visitor hash, or null for bots, which get no views and count for nothing
+  const identifyVisitor = async (): Promise<string | null> => {
+    if (!salt) {
+      throw new Error('VIEW_FINGERPRINT_SALT is not configured');
+    }
+
+    const userAgent = req.headers.get('user-agent') || '';
+    if (!userAgent || BOT_USER_AGENT.test(userAgent)) return null;
+
+    return hashVisitor(salt, getBelgradeDay(new Date()), getClientIp(req), userAgent);
+  };
+
+  // Returns why the event was not counted, or null once it is stored
+  const recordEvent = async (type: AdEventType, adId: string, viewId: string, visitorHash: string): Promise<string | null> => {
+    const eventDay = getBelgradeDay(new Date());
+    const limit = type === 'impression' ? MAX_DAILY_IMPRESSIONS : MAX_DAILY_CLICKS;
+
+    const todays = await rest(
+      `ad_events?ad_id=eq.${adId}&visitor_hash=eq.${visitorHash}&event_day=eq.${eventDay}` +
+      `&event_type=eq.${type}&select=id&limit=${limit}`
+    );
+    if (todays.length >= limit) return 'limit';
+
+    if (type === 'click') {
+      const impressions = await rest(
+        `ad_events?ad_id=eq.${adId}&view_id=eq.${viewId}&event_type=eq.impression&select=id&limit=1`
+      );
+      if (impressions.length === 0) return 'not_viewed';
+    }
+
+    // ad_events_count keeps ad_daily_stats and the advertisements counters in step
+    const inserted = await rest('ad_events?on_conflict=ad_id,event_type,view_id', {
+      method: 'POST',
+      headers: { 'Prefer': 'resolution=ignore-duplicates,return=representation' },
+      body: JSON.stringify({
+        ad_id: adId,
+        event_type: type,
+        view_id: viewId,
+        visitor_hash: visitorHash,
+        event_day: eventDay,
+      }),
+    });
+
+    return Array.isArray(inserted) && inserted.length > 0 ? null : 'duplicate';
+  };
+
+  if (req.method === 'GET') {
+    const params = new URL(req.url).searchParams;
+    const adId = params.get('ad') || '';
+    const view = params.get('view');
+
+    if (!UUID_PATTERN.test(adId)) {
+      return redirect(siteUrl);
+    }
+
+    try {
+      const ad = await findAd(adId);
+      if (!ad?.link_url || !/^https?:\/\//i.test(ad.link_url)) {
+        return redirect(siteUrl);
+      }
+
+      // The reader always reaches the advertiser, counted or not
+      try {
+        const visitorHash = ad.is_active && view ? await identifyVisitor() : null;
+        const verified = visitorHash ? await verifyView(adId, view, visitorHash) : null;
+        if (visitorHash && verified) {
+          await recordEvent('click', adId, verified.viewId, visitorHash);
+        }
+      } catch (error) {
+        console.error('Record click error:', error);
+      }
+
+      return redirect(ad.link_url);
+    } catch (error) {
+      console.error('Ad click error:', error);
+      return redirect(siteUrl);
+    }
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      throw new AdEventError('INVALID_BODY', 'Request body must be a JSON object');
+    }
+
+    const { type, adId, adIds, view, visibleMs } = body;
+
+    if (type === 'serve') {
+      if (!Array.isArray(adIds) || adIds.length > MAX_ADS_PER_SERVE || !adIds.every(id => typeof id === 'string' && UUID_PATTERN.test(id))) {
+        throw new AdEventError('INVALID_ADS', `adIds must be a list of at most ${MAX_ADS_PER_SERVE} advertisement ids`);
+      }
+
+      const visitorHash = adIds.length > 0 ? await identifyVisitor() : null;
+      if (!visitorHash) {
+        return respond({ views: {} });
+      }
+
+      const active: { id: string }[] = await rest(`advertisements?id=in.(${adIds.join(',')})&is_active=eq.true&select=id`);
+      const views: Record<string, string> = {};
+      for (const ad of active) {
+        views[ad.id] = await signView(ad.id, visitorHash);
+      }
+
+      return respond({ views });
+    }
+
+    if (type !== 'impression') {
+      throw new AdEventError('INVALID_TYPE', 'Post serve or impression; clicks go through the click URL');
+    }
+    if (typeof adId !== 'string' || !UUID_PATTERN.test(adId)) {
+      throw new AdEventError('INVALID_AD', 'A valid adId is required');
+    }
+    // A page that says it saw the ad too briefly is taken at its word
+    if (typeof visibleMs === 'number' && visibleMs < MIN_VISIBLE_MS) {
+      return respond({ recorded: false, reason: 'not_viewable' });
+    }
+
+    const ad = await findAd(adId);
+    if (!ad) {
+      throw new AdEventError('AD_NOT_FOUND', 'Advertisement not found', 404);
+    }
+    if (!ad.is_active) {
+      return respond({ recorded: false, reason: 'inactive' });
+    }
+
+    const visitorHash = await identifyVisitor();
+    if (!visitorHash) {
+      return respond({ recorded: false, reason: 'bot' });
+    }
+
+    const verified = await verifyView(adId, view, visitorHash);
+    if (!verified) {
+      return respond({ recorded: false, reason: 'invalid_view' });
+    }
+    // Nobody can have watched the ad for a second before we handed it out
+    if (verified.ageMs < MIN_VISIBLE_MS) {
+      return respond({ recorded: false, reason: 'not_viewable' });
+    }
+
+    const reason = await recordEvent('impression', adId, verified.viewId, visitorHash);
+
+    return respond({ recorded: reason === null, reason: reason || undefined });
+  } catch (error) {
+    if (error instanceof AdEventError) {
+      return respond({ error: { code: error.code, message: error.message } }, error.status);
+    }
+
+    console.error('Ad event error:', error);
+
+    return respond({
+      error: {
+        code: 'AD_EVENT_ERROR',
+        message: error.message,
+      },
+    }, 500);
+  }
+});
@@ -0,0 +1,288 @@
+// User administration that needs the service role: listing auth users with their
+// emails, creating and inviting accounts, disabling, deleting, changing roles and
+// resetting passwords. The caller's own token is checked against has_permission()
+// so the role matrix in the database stays the only source of truth.
+
+const ROLES = ['admin', 'editor_in_chief', 'editor', 'author', 'moderator', 'ad_manager', 'subscriber'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Supabase has no permanent ban; a century is close enough
+const DISABLED_BAN_DURATION = '876000h';
+
+class AdminUsersError extends Error {
+  constructor(public code: string, message: string, public status = 400) {
+    super(message);
+  }
+}
+
+interface AuthUser {
+  id: string;
+  email?: string;
+  created_at: string;
+  last_sign_in_at?: string | null;
+  email_confirmed_at?: string | null;
+  invited_at?: string | null;
+  banned_until?: string | null;
+  user_metadata?: Record<string, unknown>;
+}
+
+interface ProfileRow {
+  id: string;
+  username: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+  role: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const respond = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status,
+    });
+
+  if (req.method !== 'POST') {
+    return respond({ error: { code: 'METHOD_NOT_ALLOWED', message: 'Use POST' } }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+  const serviceHeaders = {
+    'Content-Type': 'application/json',
+    'apikey': serviceRoleKey,
+    'Authorization': `Bearer ${serviceRoleKey}`,
+  };
+
+  const call = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${supabaseUrl}${path}`, {
+      ...init,
+      headers: { ...serviceHeaders, ...(init.headers || {}) },
+    });
+    const text = await response.text();
+    const body = text ? JSON.parse(text) : null;
+    if (!response.ok) {
+      const message = body?.msg || body?.message || body?.error_description || body?.error || text;
+      throw new AdminUsersError('UPSTREAM_ERROR', String(message), response.status >= 500 ? 502 : response.status);
+    }
+    return body;
+  };
+
+  const toAdminUser = (user: AuthUser, profile?: ProfileRow) => ({
+    id: user.id,
+    email: user.email || '',
+    full_name: profile?.full_name ?? (user.user_metadata?.full_name as string | undefined) ?? null,
+    username: profile?.username ?? null,
+    avatar_url: profile?.avatar_url ?? null,
+    role: profile?.role ?? null,
+    created_at: user.created_at,
+    updated_at: profile?.updated_at || user.created_at,
+    last_sign_in_at: user.last_sign_in_at || null,
+    status: user.banned_until && new Date(user.banned_until) > new Date() ? 'inactive' : 'active',
+    invited: !!user.invited_at && !user.email_confirmed_at,
+  });
+
+  const requireUserId = (value: unknown): string => {
+    if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+      throw new AdminUsersError('INVALID_USER', 'A valid userId is required');
+    }
+    return value;
+  };
+
+  const requireRole = (value: unknown): string => {
+    if (typeof value !== 'string' || !ROLES.includes(value)) {
+      throw new AdminUsersError('INVALID_ROLE', `Role must be one of: ${ROLES.join(', ')}`);
+    }
+    return value;
+  };
+
+  const upsertProfile = (id: string, fields: Partial<ProfileRow>) =>
+    call('/rest/v1/profiles?on_conflict=id', {
+      method: 'POST',
+      headers: { 'Prefer': 'resolution=merge-duplicates,return=minimal' },
+      body: JSON.stringify({ id, user_id: id, ...fields, updated_at: new Date().toISOString() }),
+    });
+
+  try {
+    const token = (req.headers.get('authorization') || '').replace(/^Bearer\s+/i, '');
+    if (!token) {
+      throw new AdminUsersError('UNAUTHORIZED', 'Sign in to manage users', 401);
+    }
+
+    const callerResponse = await fetch(`${supabaseUrl}/auth/v1/user`, {
+      headers: { 'apikey': anonKey, 'Authorization': `Bearer ${token}` },
+    });
+    if (!callerResponse.ok) {
+      throw new AdminUsersError('UNAUTHORIZED', 'Your session has expired', 401);
+    }
+    const caller: AuthUser = await callerResponse.json();
+
+    // Evaluated as the caller, so it is the same check the RLS policies use
+    const permissionResponse = await fetch(`${supabaseUrl}/rest/v1/rpc/has_permission`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'apikey': anonKey, 'Authorization': `Bearer ${token}` },
+      body: JSON.stringify({ p_permission: 'users.manage' }),
+    });
+    if (!permissionResponse.ok || (await permissionResponse.json()) !== true) {
+      throw new AdminUsersError('FORBIDDEN', 'Your role cannot manage users', 403);
+    }
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      throw new AdminUsersError('INVALID_BODY', 'Request body must be a JSON object');
+    }
+
+    const { action, ...params } = body;
+
+    // Nobody should be able to lock themselves out of the admin panel
+    if (['disable', 'delete', 'set_role'].includes(action) && params.userId === caller.id) {
+      throw new AdminUsersError('SELF_MODIFICATION', 'You cannot change your own account from here', 409);
+    }
+
+    switch (action) {
+      case 'list': {
+        const users: AuthUser[] = [];
+        const perPage = 1000;
+        for (let page = 1; ; page++) {
+          const batch = await call(`/auth/v1/admin/users?page=${page}&per_page=${perPage}`);
+          users.push(...(batch.users || []));
+          if (!batch.users || batch.users.length < perPage) break;
+        }
+
+        const profiles: ProfileRow[] = await call('/rest/v1/profiles?select=*');
+        const profilesById = new Map(profiles.map(profile => [profile.id, profile]));
+
+        return respond({
+          users: users
+            .map(user => toAdminUser(user, profilesById.get(user.id)))
+            .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+        });
+      }
+
+      case 'get': {
+        const userId = requireUserId(params.userId);
+        const user: AuthUser = await call(`/auth/v1/admin/users/${userId}`);
+        const [profile]: ProfileRow[] = await call(`/rest/v1/profiles?id=eq.${userId}&select=*`);
+        return respond({ user: toAdminUser(user, profile) });
+      }
+
+      case 'create':
+      case 'invite': {
+        const email = typeof params.email === 'string' ? params.email.trim().toLowerCase() : '';
+        if (!EMAIL_PATTERN.test(email)) {
+          throw new AdminUsersError('INVALID_EMAIL', 'A valid email address is required');
+        }
+        const role = requireRole(params.role || 'subscriber');
+        const fullName = typeof params.fullName === 'string' ? params.fullName.trim() : '';
+        const username = typeof params.username === 'string' && params.username.trim() ? params.username.trim() : null;
+        const metadata = { full_name: fullName, username };
+
+        let user: AuthUser;
+        if (action === 'create') {
+          if (typeof params.password !== 'string' || params.password.length < 6) {
+            throw new AdminUsersError('INVALID_PASSWORD', 'Password must be at least 6 characters long');
+          }
+          user = await call('/auth/v1/admin/users', {
+            method: 'POST',
+            body: JSON.stringify({ email, password: params.password, email_confirm: true, user_metadata: metadata }),
+          });
+        } else {
+          const redirect = typeof params.redirectTo === 'string' ? `?redirect_to=${encodeURIComponent(params.redirectTo)}` : '';
+          user = await call(`/auth/v1/invite${redirect}`, {
+            method: 'POST',
+            body: JSON.stringify({ email, data: metadata }),
+          });
+        }
+
+        await upsertProfile(user.id, { full_name: fullName || null, username, role });
+        const [profile]: ProfileRow[] = await call(`/rest/v1/profiles?id=eq.${user.id}&select=*`);
+        return respond({ user: toAdminUser(user, profile) });
+      }
+
+      case 'update': {
+        const userId = requireUserId(params.userId);
+        const fullName = typeof params.fullName === 'string' ? params.fullName.trim() : '';
+        if (!fullName) {
+          throw new AdminUsersError('INVALID_NAME', 'Full name is required');
+        }
+        const username = typeof params.username === 'string' && params.username.trim() ? params.username.trim() : null;
+        await upsertProfile(userId, { full_name: fullName, username });
+        return respond({ success: true });
+      }
+
+      case 'set_role': {
+        const userId = requireUserId(params.userId);
+        await upsertProfile(userId, { role: requireRole(params.role) });
+        return respond({ success: true });
+      }
+
+      case 'disable':
+      case 'enable': {
+        const userId = requireUserId(params.userId);
+        await call(`/auth/v1/admin/users/${userId}`, {
+          method: 'PUT',
+          body: JSON.stringify({ ban_duration: action === 'disable' ? DISABLED_BAN_DURATION : 'none' }),
+        });
+        return respond({ success: true });
+      }
+
+      case 'delete': {
+        const userId = requireUserId(params.userId);
+        await call(`/rest/v1/profiles?id=eq.${userId}`, { method: 'DELETE' });
+        await call(`/auth/v1/admin/users/${userId}`, { method: 'DELETE' });
+        return respond({ success: true });
+      }
+
+      case 'reset_password': {
+        const userId = requireUserId(params.userId);
+        if (typeof params.password === 'string' && params.password !== '') {
+          if (params.password.length < 6) {
+            throw new AdminUsersError('INVALID_PASSWORD', 'Password must be at least 6 characters long');
+          }
+          await call(`/auth/v1/admin/users/${userId}`, {
+            method: 'PUT',
+            body: JSON.stringify({ password: params.password }),
+          });
+          return respond({ success: true, method: 'password' });
+        }
+
+        // Without a new password, email the user a recovery link instead
+        const user: AuthUser = await call(`/auth/v1/admin/users/${userId}`);
+        await call('/auth/v1/recover', { method: 'POST', body: JSON.stringify({ email: user.email }) });
+        return respond({ success: true, method: 'email' });
+      }
+
+      default:
+        throw new AdminUsersError('UNKNOWN_ACTION', `Unknown action: ${action}`);
+    }
+  } catch (error) {
+    console.error('Admin users error:', error);
+
+    if (error instanceof AdminUsersError) {
+      return respond({ error: { code: error.code, message: error.message } }, error.status);
+    }
+
+    return respond({
+      error: {
+        code: 'ADMIN_USERS_ERROR',
+        message: error.message,
+      },
+    }, 500);
+  }
+});
@@ -0,0 +1,146 @@
+// Records reader upvotes and reports on comments. Readers are anonymous, so each
+// sender is identified by a salted hash of their IP; the address itself is never
+// stored.
+
+import { UUID_PATTERN, getClientIp, hashSender } from '../_shared/visitor.ts';
+
+const REPORT_REASONS = ['spam', 'abuse', 'harassment', 'misinformation', 'off_topic', 'other'];
+const MAX_DETAILS_LENGTH = 500;
+
+class CommentFeedbackError extends Error {
+  constructor(public code: string, message: string, public status = 400) {
+    super(message);
+  }
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const respond = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status,
+    });
+
+  if (req.method !== 'POST') {
+    return respond({ error: { code: 'METHOD_NOT_ALLOWED', message: 'Use POST' } }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const salt = Deno.env.get('COMMENT_FEEDBACK_SALT');
+
+    if (!salt) {
+      throw new Error('COMMENT_FEEDBACK_SALT is not configured');
+    }
+
+    const rest = async (path: string, init: RequestInit = {}) => {
+      const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': serviceRoleKey,
+          'Authorization': `Bearer ${serviceRoleKey}`,
+          ...init.headers,
+        },
+      });
+
+      if (!response.ok) {
+        const details = await response.text();
+        throw new Error(`Database request failed: ${details}`);
+      }
+      return response.status === 204 ? null : response.json();
+    };
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      throw new CommentFeedbackError('INVALID_BODY', 'Request body must be a JSON object');
+    }
+
+    const { action, commentId, reason, details } = body;
+
+    if (typeof commentId !== 'string' || !UUID_PATTERN.test(commentId)) {
+      throw new CommentFeedbackError('INVALID_COMMENT', 'A valid commentId is required');
+    }
+    if (!['upvote', 'unvote', 'report'].includes(action)) {
+      throw new CommentFeedbackError('INVALID_ACTION', 'action must be upvote, unvote or report');
+    }
+
+    // Only comments readers can actually see take votes and reports
+    const comments = await rest(`comments?id=eq.${commentId}&is_approved=is.true&is_spam=is.false&select=id`);
+    if (comments.length === 0) {
+      throw new CommentFeedbackError('COMMENT_NOT_FOUND', 'Comment not found', 404);
+    }
+
+    const senderHash = await hashSender(salt, getClientIp(req));
+
+    if (action === 'report') {
+      const reportDetails = typeof details === 'string' ? details.trim() : '';
+      if (!REPORT_REASONS.includes(reason)) {
+        throw new CommentFeedbackError('INVALID_REASON', `reason must be one of: ${REPORT_REASONS.join(', ')}`);
+      }
+      if (reportDetails.length > MAX_DETAILS_LENGTH) {
+        throw new CommentFeedbackError('INVALID_DETAILS', `Details must be at most ${MAX_DETAILS_LENGTH} characters`);
+      }
+
+      // A second report from the same reader is ignored rather than rejected
+      await rest('comment_reports?on_conflict=comment_id,reporter_hash', {
+        method: 'POST',
+        headers: { 'Prefer': 'resolution=ignore-duplicates,return=minimal' },
+        body: JSON.stringify({
+          comment_id: commentId,
+          reason,
+          details: reportDetails || null,
+          reporter_hash: senderHash,
+        }),
+      });
+
+      return respond({ reported: true });
+    }
+
+    if (action === 'upvote') {
+      await rest('comment_votes?on_conflict=comment_id,voter_hash', {
+        method: 'POST',
+        headers: { 'Prefer': 'resolution=ignore-duplicates,return=minimal' },
+        body: JSON.stringify({ comment_id: commentId, voter_hash: senderHash }),
+      });
+    } else {
+      await rest(`comment_votes?comment_id=eq.${commentId}&voter_hash=eq.${senderHash}`, {
+        method: 'DELETE',
+        headers: { 'Prefer': 'return=minimal' },
+      });
+    }
+
+    // The vote trigger has already updated the count
+    const [comment] = await rest(`comments?id=eq.${commentId}&select=upvotes`);
+
+    return respond({
+      upvotes: comment.upvotes,
+      voted: action === 'upvote',
+    });
+  } catch (error) {
+    if (error instanceof CommentFeedbackError) {
+      return respond({ error: { code: error.code, message: error.message } }, error.status);
+    }
+
+    console.error('Comment feedback error:', error);
+
+    return respond({
+      error: {
+        code: 'COMMENT_FEEDBACK_ERROR',
+        // The details are in the log; they can include database internals
+        message: 'Could not record that, please try again later',
+      },
+    }, 500);
+  }
+});
@@ -0,0 +1,72 @@
+// Handles the unsubscribe links in comment notification emails. The /unsubscribe
+// page posts the address and token from the link here.
+
+import { verifyUnsubscribeToken } from '../_shared/unsubscribe.ts';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const respond = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status,
+    });
+
+  if (req.method !== 'POST') {
+    return respond({ error: { code: 'METHOD_NOT_ALLOWED', message: 'Use POST' } }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // A mangled body is just another broken link
+    const body = await req.json().catch(() => null);
+    const { email, token } = body && typeof body === 'object' ? body : {};
+    const address = typeof email === 'string' ? email.trim().toLowerCase() : '';
+
+    if (!EMAIL_PATTERN.test(address) || typeof token !== 'string' || !(await verifyUnsubscribeToken(address, token))) {
+      return respond({ error: { code: 'INVALID_LINK', message: 'This unsubscribe link is not valid' } }, 400);
+    }
+
+    const headers = {
+      'Content-Type': 'application/json',
+      'apikey': serviceRoleKey,
+      'Authorization': `Bearer ${serviceRoleKey}`,
+    };
+
+    // Clicking the link twice is fine
+    const response = await fetch(`${supabaseUrl}/rest/v1/comment_email_unsubscribes?on_conflict=email`, {
+      method: 'POST',
+      headers: { ...headers, 'Prefer': 'resolution=ignore-duplicates,return=minimal' },
+      body: JSON.stringify({ email: address }),
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new Error(`Failed to record unsubscribe: ${details}`);
+    }
+
+    return respond({ unsubscribed: true, email: address });
+  } catch (error) {
+    console.error('Unsubscribe error:', error);
+
+    return respond({
+      error: {
+        code: 'UNSUBSCRIBE_ERROR',
+        message: error.message,
+      },
+    }, 500);
+  }
+});
@@ -0,0 +1,75 @@
+// Flips scheduled articles to published once their time has passed. Meant to be
+// invoked every minute by a cron job (see scripts/publish-scheduled.mjs for the
+// local invoker); the caller must present the service role key or CRON_SECRET.
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const cronSecret = Deno.env.get('CRON_SECRET');
+
+    const authorized =
+      req.headers.get('authorization') === `Bearer ${serviceRoleKey}` ||
+      (!!cronSecret && req.headers.get('x-cron-secret') === cronSecret);
+
+    if (!authorized) {
+      return new Response(
+        JSON.stringify({ error: { code: 'UNAUTHORIZED', message: 'Scheduler credentials required' } }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      );
+    }
+
+    const response = await fetch(`${supabaseUrl}/rest/v1/rpc/publish_due_articles`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': serviceRoleKey,
+        'Authorization': `Bearer ${serviceRoleKey}`,
+      },
+      body: JSON.stringify({}),
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new Error(`publish_due_articles failed: ${details}`);
+    }
+
+    const published = await response.json();
+
+    if (published.length > 0) {
+      console.log(`Published ${published.length} scheduled article(s):`, published.map((a: { slug: string }) => a.slug));
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        published,
+        ranAt: new Date().toISOString(),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    );
+  } catch (error) {
+    console.error('Scheduled publishing error:', error);
+
+    return new Response(
+      JSON.stringify({
+        error: {
+          code: 'SCHEDULER_ERROR',
+          message: error.message,
+        },
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
@@ -0,0 +1,100 @@
+// Records one article view per visitor per Belgrade calendar day. The visitor
+// fingerprint is derived here so the reader's IP never leaves our infrastructure
+// and is never stored.
+
+import { BOT_USER_AGENT, UUID_PATTERN, getBelgradeDay, getClientIp, hashVisitor } from '../_shared/visitor.ts';
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const respond = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status,
+    });
+
+  if (req.method !== 'POST') {
+    return respond({ error: { code: 'METHOD_NOT_ALLOWED', message: 'Use POST' } }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const salt = Deno.env.get('VIEW_FINGERPRINT_SALT');
+
+    if (!salt) {
+      throw new Error('VIEW_FINGERPRINT_SALT is not configured');
+    }
+
+    // A body that isn't JSON is the caller's mistake, not a failure to record
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return respond({ error: { code: 'INVALID_BODY', message: 'Request body must be a JSON object' } }, 400);
+    }
+
+    const { articleId } = body;
+
+    if (typeof articleId !== 'string' || !UUID_PATTERN.test(articleId)) {
+      return respond({ error: { code: 'INVALID_ARTICLE', message: 'A valid articleId is required' } }, 400);
+    }
+
+    const userAgent = req.headers.get('user-agent') || '';
+    if (!userAgent || BOT_USER_AGENT.test(userAgent)) {
+      return respond({ recorded: false, reason: 'bot' });
+    }
+
+    const now = new Date();
+    const viewDay = getBelgradeDay(now);
+    const visitorHash = await hashVisitor(salt, viewDay, getClientIp(req), userAgent);
+
+    // The unique index on (article_id, visitor_hash, view_day) does the per-day deduplication
+    const response = await fetch(
+      `${supabaseUrl}/rest/v1/article_views?on_conflict=article_id,visitor_hash,view_day`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': serviceRoleKey,
+          'Authorization': `Bearer ${serviceRoleKey}`,
+          'Prefer': 'resolution=ignore-duplicates,return=representation',
+        },
+        body: JSON.stringify({
+          article_id: articleId,
+          visitor_hash: visitorHash,
+          view_day: viewDay,
+          viewed_at: now.toISOString(),
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new Error(`Failed to record view: ${details}`);
+    }
+
+    const inserted = await response.json();
+
+    return respond({
+      recorded: Array.isArray(inserted) && inserted.length > 0,
+      reason: Array.isArray(inserted) && inserted.length > 0 ? undefined : 'duplicate',
+    });
+  } catch (error) {
+    console.error('Record view error:', error);
+
+    return respond({
+      error: {
+        code: 'VIEW_RECORD_ERROR',
+        message: error.message,
+      },
+    }, 500);
+  }
+});
@@ -0,0 +1,250 @@
+// Delivers queued comment notifications (see the comments_queue_notifications
+// trigger). Meant to be invoked every minute by a cron job (see
+// scripts/send-comment-notifications.mjs for the local invoker); the caller must
+// present the service role key or CRON_SECRET.
+
+import { createMailTransport, MailMessage } from '../_shared/mail.ts';
+import { unsubscribeUrl } from '../_shared/unsubscribe.ts';
+
+const BATCH_SIZE = 50;
+// Give up on a notification after this many failed sends
+const MAX_ATTEMPTS = 5;
+
+interface QueuedNotification {
+  id: string;
+  kind: 'approved' | 'reply';
+  recipient_email: string;
+  attempts: number;
+  comment: {
+    id: string;
+    author_name: string;
+    content: string;
+    parent_id: string | null;
+    is_approved: boolean;
+    is_spam: boolean;
+    article: { title: string; slug: string } | null;
+  } | null;
+}
+
+interface CommentState {
+  id: string;
+  is_approved: boolean;
+  is_spam: boolean;
+}
+
+const isPublic = (comment: CommentState | null | undefined) => !!comment && comment.is_approved && !comment.is_spam;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function excerpt(value: string, length = 280): string {
+  return value.length > length ? `${value.slice(0, length).trimEnd()}…` : value;
+}
+
+async function buildMessage(notification: QueuedNotification, siteUrl: string, siteName: string): Promise<MailMessage> {
+  const comment = notification.comment!;
+  const articleTitle = comment.article?.title || 'an article';
+  const commentUrl = `${siteUrl.replace(/\/$/, '')}/article/${comment.article?.slug || ''}#comments`;
+  const unsubscribe = await unsubscribeUrl(siteUrl, notification.recipient_email);
+
+  const subject = notification.kind === 'approved'
+    ? `Your comment on "${articleTitle}" is live`
+    : `${comment.author_name} replied to your comment on "${articleTitle}"`;
+  const intro = notification.kind === 'approved'
+    ? `Your comment on "${articleTitle}" has been approved and is now visible to other readers:`
+    : `${comment.author_name} replied to your comment on "${articleTitle}":`;
+
+  const text = [
+    intro,
+    '',
+    excerpt(comment.content),
+    '',
+    `Read the conversation: ${commentUrl}`,
+    '',
+    '—',
+    `You are receiving this because you commented on ${siteName}.`,
+    `Stop these emails: ${unsubscribe}`,
+  ].join('\n');
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #111827; line-height: 1.5;">
+    <p>${escapeHtml(intro)}</p>
+    <blockquote style="margin: 16px 0; padding: 12px 16px; border-left: 4px solid #dc2626; background: #f9fafb;">
+      ${escapeHtml(excerpt(comment.content)).replace(/\n/g, '<br>')}
+    </blockquote>
+    <p><a href="${escapeHtml(commentUrl)}" style="color: #dc2626;">Read the conversation</a></p>
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 24px 0;">
+    <p style="font-size: 12px; color: #6b7280;">
+      You are receiving this because you commented on ${escapeHtml(siteName)}.
+      <a href="${escapeHtml(unsubscribe)}" style="color: #6b7280;">Unsubscribe</a>
+    </p>
+  </body>
+</html>`;
+
+  return {
+    to: notification.recipient_email,
+    subject,
+    text,
+    html,
+    headers: {
+      'List-Unsubscribe': `<${unsubscribe}>`,
+    },
+  };
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const respond = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status,
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const cronSecret = Deno.env.get('CRON_SECRET');
+    const siteUrl = Deno.env.get('SITE_URL');
+    const siteName = Deno.env.get('SITE_NAME') || 'our site';
+
+    const authorized =
+      req.headers.get('authorization') === `Bearer ${serviceRoleKey}` ||
+      (!!cronSecret && req.headers.get('x-cron-secret') === cronSecret);
+
+    if (!authorized) {
+      return respond({ error: { code: 'UNAUTHORIZED', message: 'Scheduler credentials required' } }, 401);
+    }
+    if (!siteUrl) {
+      throw new Error('SITE_URL is not configured');
+    }
+
+    const rest = async (path: string, init: RequestInit = {}) => {
+      const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': serviceRoleKey,
+          'Authorization': `Bearer ${serviceRoleKey}`,
+          ...init.headers,
+        },
+      });
+
+      if (!response.ok) {
+        const details = await response.text();
+        throw new Error(`Database request failed: ${details}`);
+      }
+      return response.status === 204 ? null : response.json();
+    };
+
+    const transport = createMailTransport();
+
+    // Claimed rows are this run's alone, so a run that overlaps the next cron tick
+    // cannot send them a second time
+    const claimed: { id: string }[] = await rest('rpc/claim_comment_notifications', {
+      method: 'POST',
+      body: JSON.stringify({ p_limit: BATCH_SIZE, p_max_attempts: MAX_ATTEMPTS }),
+    });
+
+    const queue: QueuedNotification[] = claimed.length === 0
+      ? []
+      : await rest(
+        `comment_notifications?id=in.(${claimed.map(n => n.id).join(',')})` +
+        '&select=id,kind,recipient_email,attempts,comment:comments(id,author_name,content,parent_id,is_approved,is_spam,article:articles(title,slug))' +
+        '&order=created_at.asc'
+      );
+
+    // A moderator may have undone the approval or marked the comment (or, for a reply,
+    // the comment it answers) as spam since it was queued
+    const parentIds = [...new Set(queue
+      .filter(n => n.kind === 'reply' && n.comment?.parent_id)
+      .map(n => n.comment!.parent_id!))];
+    const parents = new Map<string, CommentState>(
+      parentIds.length === 0
+        ? []
+        : (await rest(`comments?id=in.(${parentIds.join(',')})&select=id,is_approved,is_spam`))
+          .map((row: CommentState) => [row.id, row])
+    );
+
+    const unsubscribed = new Set<string>(
+      queue.length === 0
+        ? []
+        : (await rest(
+          `comment_email_unsubscribes?email=in.(${encodeURIComponent(queue.map(n => `"${n.recipient_email}"`).join(','))})&select=email`
+        )).map((row: { email: string }) => row.email)
+    );
+
+    let sent = 0;
+    let skipped = 0;
+    let failed = 0;
+
+    for (const notification of queue) {
+      const now = new Date().toISOString();
+
+      // Unsubscribed after it was queued, or the comment is gone or no longer public:
+      // nothing to send
+      const stillPublic = isPublic(notification.comment) &&
+        (notification.kind !== 'reply' || isPublic(parents.get(notification.comment!.parent_id || '')));
+      if (!stillPublic || unsubscribed.has(notification.recipient_email)) {
+        await rest(`comment_notifications?id=eq.${notification.id}`, {
+          method: 'PATCH',
+          headers: { 'Prefer': 'return=minimal' },
+          body: JSON.stringify({ sent_at: now, claimed_at: null, last_error: 'skipped' }),
+        });
+        skipped++;
+        continue;
+      }
+
+      try {
+        await transport.send(await buildMessage(notification, siteUrl, siteName));
+        await rest(`comment_notifications?id=eq.${notification.id}`, {
+          method: 'PATCH',
+          headers: { 'Prefer': 'return=minimal' },
+          body: JSON.stringify({ sent_at: now, claimed_at: null, attempts: notification.attempts + 1, last_error: null }),
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send notification ${notification.id}:`, error);
+        await rest(`comment_notifications?id=eq.${notification.id}`, {
+          method: 'PATCH',
+          headers: { 'Prefer': 'return=minimal' },
+          body: JSON.stringify({ claimed_at: null, attempts: notification.attempts + 1, last_error: error.message }),
+        });
+        failed++;
+      }
+    }
+
+    return respond({
+      success: true,
+      transport: transport.name,
+      sent,
+      skipped,
+      failed,
+      ranAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Comment notification error:', error);
+
+    return respond({
+      error: {
+        code: 'NOTIFICATION_ERROR',
+        message: error.message,
+      },
+    }, 500);
+  }
+});
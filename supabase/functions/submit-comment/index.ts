@@ -0,0 +1,296 @@
+// Accepts reader comments, turns away banned and over-eager senders, scores the rest
+// for spam and stores them with the service role. Browsers cannot insert comments
+// directly, so every comment passes through here.
+
+import { UUID_PATTERN, getClientIp } from '../_shared/visitor.ts';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|info|biz|ru|xyz|top|io|rs)\b/gi;
+
+const MAX_NAME_LENGTH = 100;
+const MAX_CONTENT_LENGTH = 5000;
+
+// At or above SPAM_SCORE a comment goes straight to spam; at or above HOLD_SCORE it
+// always waits for a moderator, even when clean comments are auto-approved
+const SPAM_SCORE = 10;
+const HOLD_SCORE = 4;
+
+const VELOCITY_WINDOW_MINUTES = 10;
+const REPEAT_WINDOW_DAYS = 7;
+
+// Hard limits per sender: "recent" is the velocity window, "day" the last 24 hours.
+// IP limits are looser because offices and mobile carriers share addresses.
+const RATE_LIMITS = {
+  ipRecent: 5,
+  ipDay: 50,
+  emailRecent: 3,
+  emailDay: 20,
+};
+
+interface SubmissionCounts {
+  ip_recent: number;
+  ip_day: number;
+  email_recent: number;
+  email_day: number;
+}
+
+interface SpamReason {
+  code: 'honeypot' | 'links' | 'blocklist' | 'repeated' | 'velocity';
+  message: string;
+  points: number;
+}
+
+class SubmitCommentError extends Error {
+  constructor(public code: string, message: string, public status = 400) {
+    super(message);
+  }
+}
+
+function rateLimited(window: 'recent' | 'day'): SubmitCommentError {
+  return new SubmitCommentError(
+    'RATE_LIMITED',
+    window === 'recent'
+      ? 'You are commenting too quickly. Please wait a few minutes and try again.'
+      : 'You have reached the daily comment limit. Please try again tomorrow.',
+    429
+  );
+}
+
+function normalizeContent(content: string): string {
+  return content.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+async function fingerprint(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeContent(content)));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Max-Age': '86400',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const respond = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status,
+    });
+
+  if (req.method !== 'POST') {
+    return respond({ error: { code: 'METHOD_NOT_ALLOWED', message: 'Use POST' } }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const rest = async (path: string, init: RequestInit = {}) => {
+      const response = await fetch(`${supabaseUrl}/rest/v1/${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          'apikey': serviceRoleKey,
+          'Authorization': `Bearer ${serviceRoleKey}`,
+          ...init.headers,
+        },
+      });
+
+      if (!response.ok) {
+        const details = await response.text();
+        throw new Error(`Database request failed: ${details}`);
+      }
+      return response.json();
+    };
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      throw new SubmitCommentError('INVALID_BODY', 'Request body must be a JSON object');
+    }
+
+    const { articleId, parentId, authorName, authorEmail, content, website } = body;
+
+    const name = typeof authorName === 'string' ? authorName.trim() : '';
+    const email = typeof authorEmail === 'string' ? authorEmail.trim().toLowerCase() : '';
+    const text = typeof content === 'string' ? content.trim() : '';
+
+    if (typeof articleId !== 'string' || !UUID_PATTERN.test(articleId)) {
+      throw new SubmitCommentError('INVALID_ARTICLE', 'A valid articleId is required');
+    }
+    if (parentId != null && (typeof parentId !== 'string' || !UUID_PATTERN.test(parentId))) {
+      throw new SubmitCommentError('INVALID_PARENT', 'parentId must be a comment id');
+    }
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new SubmitCommentError('INVALID_NAME', `Name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new SubmitCommentError('INVALID_EMAIL', 'Please enter a valid email address');
+    }
+    if (text.length < 10 || text.length > MAX_CONTENT_LENGTH) {
+      throw new SubmitCommentError('INVALID_CONTENT', `Comment must be between 10 and ${MAX_CONTENT_LENGTH} characters long`);
+    }
+
+    const ip = getClientIp(req);
+    const knownIp = ip !== 'unknown';
+    const rpc = (name: string, params: Record<string, unknown>) =>
+      rest(`rpc/${name}`, { method: 'POST', body: JSON.stringify(params) });
+
+    const [bans, countRows] = await Promise.all([
+      rpc('find_comment_ban', { p_email: email, p_ip: ip }),
+      rpc('comment_submission_counts', { p_email: email, p_ip: ip, p_recent_minutes: VELOCITY_WINDOW_MINUTES }),
+    ]);
+
+    // Banned senders are not told why or for how long
+    if (bans.length > 0) {
+      throw new SubmitCommentError('BANNED', 'You cannot post comments on this site.', 403);
+    }
+
+    // A first, cheap look at the counts; they are checked again under a lock when
+    // the comment is stored, so parallel requests cannot all slip in under the limit
+    const counts: SubmissionCounts = countRows[0];
+    const ipRecent = knownIp ? Number(counts.ip_recent) : 0;
+    const ipDay = knownIp ? Number(counts.ip_day) : 0;
+    const emailRecent = Number(counts.email_recent);
+    const emailDay = Number(counts.email_day);
+
+    if (ipRecent >= RATE_LIMITS.ipRecent || emailRecent >= RATE_LIMITS.emailRecent) {
+      throw rateLimited('recent');
+    }
+    if (ipDay >= RATE_LIMITS.ipDay || emailDay >= RATE_LIMITS.emailDay) {
+      throw rateLimited('day');
+    }
+
+    const articles = await rest(`articles?id=eq.${articleId}&status=eq.published&select=id`);
+    if (articles.length === 0) {
+      throw new SubmitCommentError('ARTICLE_NOT_FOUND', 'Article not found', 404);
+    }
+
+    if (parentId) {
+      const parents = await rest(`comments?id=eq.${parentId}&article_id=eq.${articleId}&select=id`);
+      if (parents.length === 0) {
+        throw new SubmitCommentError('PARENT_NOT_FOUND', 'The comment you are replying to no longer exists', 404);
+      }
+    }
+
+    const contentFingerprint = await fingerprint(text);
+    const repeatSince = new Date(Date.now() - REPEAT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const [blocklist, repeats, settings] = await Promise.all([
+      rest('comment_blocklist?select=term'),
+      rest(`comments?content_fingerprint=eq.${contentFingerprint}&created_at=gte.${encodeURIComponent(repeatSince)}&select=id&limit=20`),
+      rest('site_settings?setting_key=eq.comments_auto_approve&select=setting_value'),
+    ]);
+
+    // Scoring: every signal adds points and explains itself to the moderator
+    const reasons: SpamReason[] = [];
+
+    if (typeof website === 'string' && website.trim() !== '') {
+      reasons.push({ code: 'honeypot', message: 'Filled in the hidden form field that only bots see', points: SPAM_SCORE });
+    }
+
+    const links = text.match(LINK_PATTERN) || [];
+    if (links.length > 0) {
+      reasons.push({
+        code: 'links',
+        message: `Contains ${links.length} link${links.length === 1 ? '' : 's'}`,
+        points: Math.min(links.length * 2, 8),
+      });
+    }
+
+    const normalized = normalizeContent(`${name} ${text}`);
+    const blocked = (blocklist as { term: string }[])
+      .map(row => row.term)
+      .filter(term => new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}($|[^\\p{L}\\p{N}])`, 'u').test(normalized));
+    if (blocked.length > 0) {
+      reasons.push({
+        code: 'blocklist',
+        message: `Blocklisted words: ${blocked.join(', ')}`,
+        points: Math.min(blocked.length * 4, 12),
+      });
+    }
+
+    if (repeats.length > 0) {
+      reasons.push({
+        code: 'repeated',
+        message: `Same text already posted ${repeats.length} time${repeats.length === 1 ? '' : 's'} in the last ${REPEAT_WINDOW_DAYS} days`,
+        points: 6,
+      });
+    }
+
+    // Below the hard limit, but still busier than a person usually is
+    const recent = Math.max(ipRecent, emailRecent);
+    if (recent >= 2) {
+      reasons.push({
+        code: 'velocity',
+        message: `${recent} comments from the same IP or email in the last ${VELOCITY_WINDOW_MINUTES} minutes`,
+        points: recent >= 4 ? 6 : 3,
+      });
+    }
+
+    const score = reasons.reduce((total, reason) => total + reason.points, 0);
+    const isSpam = score >= SPAM_SCORE;
+    const held = !isSpam && score >= HOLD_SCORE;
+    const autoApprove = settings[0]?.setting_value === 'true';
+    const isApproved = !isSpam && !held && autoApprove;
+
+    const [stored] = await rpc('insert_comment_within_limits', {
+      p_comment: {
+        article_id: articleId,
+        parent_id: parentId || null,
+        author_name: name,
+        author_email: email,
+        author_ip: ip,
+        content: text,
+        is_approved: isApproved,
+        is_spam: isSpam,
+        held_for_review: held,
+        spam_score: score,
+        spam_reasons: reasons,
+        content_fingerprint: contentFingerprint,
+      },
+      p_recent_minutes: VELOCITY_WINDOW_MINUTES,
+      p_ip_recent: RATE_LIMITS.ipRecent,
+      p_ip_day: RATE_LIMITS.ipDay,
+      p_email_recent: RATE_LIMITS.emailRecent,
+      p_email_day: RATE_LIMITS.emailDay,
+    });
+
+    if (stored.limited) {
+      throw rateLimited(stored.limited);
+    }
+
+    // Spam is reported as pending so senders learn nothing about the filter
+    return respond({
+      comment: {
+        id: stored.comment_id,
+        status: isApproved ? 'published' : 'pending',
+      },
+    });
+  } catch (error) {
+    if (error instanceof SubmitCommentError) {
+      return respond({ error: { code: error.code, message: error.message } }, error.status);
+    }
+
+    console.error('Submit comment error:', error);
+
+    return respond({
+      error: {
+        code: 'COMMENT_SUBMIT_ERROR',
+        // The details are in the log; they can include database internals
+        message: 'Could not submit the comment, please try again later',
+      },
+    }, 500);
+  }
+});
@@ -0,0 +1,58 @@
+-- Daily event counts for the analytics dashboard, bucketed by local calendar day
+-- so that "Monday" means Monday in Belgrade rather than Monday in UTC.
+
+CREATE INDEX IF NOT EXISTS article_views_viewed_at_idx ON article_views (viewed_at);
+CREATE INDEX IF NOT EXISTS comments_created_at_idx ON comments (created_at);
+CREATE INDEX IF NOT EXISTS profiles_created_at_idx ON profiles (created_at);
+
+CREATE OR REPLACE FUNCTION analytics_daily_counts(
+  p_metric text,
+  p_from date,
+  p_to date,
+  p_timezone text DEFAULT 'Europe/Belgrade'
+)
+RETURNS TABLE (day date, total bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  range_start timestamptz := p_from::timestamp AT TIME ZONE p_timezone;
+  range_end timestamptz := (p_to + 1)::timestamp AT TIME ZONE p_timezone;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can read analytics' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_metric NOT IN ('views', 'comments', 'users') THEN
+    RAISE EXCEPTION 'Unknown analytics metric: %', p_metric USING ERRCODE = '22023';
+  END IF;
+
+  IF p_to < p_from OR p_to - p_from > 366 THEN
+    RAISE EXCEPTION 'Invalid analytics range: % to %', p_from, p_to USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH events AS (
+    SELECT (v.viewed_at AT TIME ZONE p_timezone)::date AS event_day
+    FROM article_views v
+    WHERE p_metric = 'views' AND v.viewed_at >= range_start AND v.viewed_at < range_end
+    UNION ALL
+    SELECT (c.created_at AT TIME ZONE p_timezone)::date
+    FROM comments c
+    WHERE p_metric = 'comments' AND c.is_approved AND c.created_at >= range_start AND c.created_at < range_end
+    UNION ALL
+    SELECT (pr.created_at AT TIME ZONE p_timezone)::date
+    FROM profiles pr
+    WHERE p_metric = 'users' AND pr.created_at >= range_start AND pr.created_at < range_end
+  )
+  SELECT d.day::date, count(e.event_day)
+  FROM generate_series(p_from, p_to, interval '1 day') AS d(day)
+  LEFT JOIN events e ON e.event_day = d.day::date
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION analytics_daily_counts(text, date, date, text) TO authenticated;
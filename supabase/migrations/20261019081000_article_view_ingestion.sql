@@ -0,0 +1,16 @@
+-- Views are recorded by the record-article-view edge function only. Readers are
+-- identified by a salted hash that rotates daily; raw IPs are no longer stored.
+
+ALTER TABLE article_views ALTER COLUMN ip_address DROP NOT NULL;
+ALTER TABLE article_views ADD COLUMN IF NOT EXISTS visitor_hash text;
+ALTER TABLE article_views ADD COLUMN IF NOT EXISTS view_day date;
+
+UPDATE article_views
+SET view_day = (viewed_at AT TIME ZONE 'Europe/Belgrade')::date
+WHERE view_day IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS article_views_daily_visitor_idx
+  ON article_views (article_id, visitor_hash, view_day);
+
+-- The service role bypasses these grants; browsers can no longer write views directly
+REVOKE INSERT, UPDATE, DELETE ON article_views FROM anon, authenticated;
@@ -0,0 +1,189 @@
+-- Editorial workflow: draft -> in_review -> approved -> scheduled -> published -> archived.
+-- Status changes go through transition_article(), which checks the caller's role
+-- against the same matrix as src/lib/workflow.ts and records every step.
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS reviewer_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS review_comment text;
+
+-- Bring existing rows in line with the legacy status column
+UPDATE articles
+SET workflow_status = CASE status
+  WHEN 'published' THEN 'published'
+  WHEN 'scheduled' THEN 'scheduled'
+  WHEN 'archived' THEN 'archived'
+  ELSE 'draft'
+END;
+
+ALTER TABLE articles ALTER COLUMN workflow_status SET DEFAULT 'draft';
+ALTER TABLE articles ALTER COLUMN workflow_status SET NOT NULL;
+ALTER TABLE articles DROP CONSTRAINT IF EXISTS articles_workflow_status_check;
+ALTER TABLE articles ADD CONSTRAINT articles_workflow_status_check
+  CHECK (workflow_status IN ('draft', 'in_review', 'approved', 'scheduled', 'published', 'archived'));
+
+CREATE INDEX IF NOT EXISTS articles_workflow_status_idx ON articles (workflow_status);
+
+CREATE TABLE IF NOT EXISTS article_workflow_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_id uuid NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  comment text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS article_workflow_events_article_idx
+  ON article_workflow_events (article_id, created_at DESC);
+
+ALTER TABLE article_workflow_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Newsroom can read workflow events" ON article_workflow_events;
+CREATE POLICY "Newsroom can read workflow events" ON article_workflow_events FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'editor', 'author')));
+
+-- Maps a workflow state onto the public-facing status column the site filters on
+CREATE OR REPLACE FUNCTION article_status_for_workflow(p_workflow_status text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_workflow_status
+    WHEN 'published' THEN 'published'
+    WHEN 'scheduled' THEN 'scheduled'
+    WHEN 'archived' THEN 'archived'
+    ELSE 'draft'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_article_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('app.workflow_transition', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- New articles always start as drafts; publishing is a separate transition
+    NEW.workflow_status := 'draft';
+    NEW.status := 'draft';
+    NEW.published_at := NULL;
+    NEW.scheduled_publish_date := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.workflow_status IS DISTINCT FROM OLD.workflow_status
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.published_at IS DISTINCT FROM OLD.published_at
+    OR NEW.scheduled_publish_date IS DISTINCT FROM OLD.scheduled_publish_date THEN
+    RAISE EXCEPTION 'Article status changes must go through transition_article()' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_article_workflow ON articles;
+CREATE TRIGGER enforce_article_workflow BEFORE INSERT OR UPDATE ON articles
+  FOR EACH ROW EXECUTE FUNCTION enforce_article_workflow();
+
+CREATE OR REPLACE FUNCTION transition_article(
+  p_article_id uuid,
+  p_to_status text,
+  p_comment text DEFAULT NULL,
+  p_scheduled_at timestamptz DEFAULT NULL,
+  p_reviewer_id uuid DEFAULT NULL
+)
+RETURNS articles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role text;
+  v_article articles;
+  v_from text;
+  v_roles text[];
+  v_requires_comment boolean;
+  v_result articles;
+BEGIN
+  SELECT role INTO v_role FROM profiles WHERE id = auth.uid();
+
+  SELECT * INTO v_article FROM articles WHERE id = p_article_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Article not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_from := v_article.workflow_status;
+
+  SELECT t.roles, t.requires_comment INTO v_roles, v_requires_comment
+  FROM (VALUES
+    ('draft', 'in_review', ARRAY['admin', 'editor', 'author'], false),
+    ('draft', 'published', ARRAY['admin', 'editor'], false),
+    ('draft', 'scheduled', ARRAY['admin', 'editor'], false),
+    ('in_review', 'approved', ARRAY['admin', 'editor'], false),
+    ('in_review', 'draft', ARRAY['admin', 'editor'], true),
+    ('approved', 'published', ARRAY['admin', 'editor'], false),
+    ('approved', 'scheduled', ARRAY['admin', 'editor'], false),
+    ('approved', 'draft', ARRAY['admin', 'editor'], true),
+    ('scheduled', 'scheduled', ARRAY['admin', 'editor'], false),
+    ('scheduled', 'published', ARRAY['admin', 'editor'], false),
+    ('scheduled', 'approved', ARRAY['admin', 'editor'], false),
+    ('published', 'archived', ARRAY['admin', 'editor'], false),
+    ('published', 'draft', ARRAY['admin', 'editor'], false),
+    ('archived', 'draft', ARRAY['admin', 'editor'], false)
+  ) AS t(from_status, to_status, roles, requires_comment)
+  WHERE t.from_status = v_from AND t.to_status = p_to_status;
+
+  IF v_roles IS NULL THEN
+    RAISE EXCEPTION 'Cannot move an article from % to %', v_from, p_to_status USING ERRCODE = '22023';
+  END IF;
+
+  IF v_role IS NULL OR NOT (v_role = ANY (v_roles)) THEN
+    RAISE EXCEPTION 'Your role cannot move an article from % to %', v_from, p_to_status USING ERRCODE = '42501';
+  END IF;
+
+  IF v_role = 'author' AND v_article.author_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authors can only submit their own articles' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_requires_comment AND coalesce(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment is required when sending an article back' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_to_status = 'scheduled' AND (p_scheduled_at IS NULL OR p_scheduled_at <= now()) THEN
+    RAISE EXCEPTION 'Scheduled articles need a publication time in the future' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.workflow_transition', 'on', true);
+
+  UPDATE articles SET
+    workflow_status = p_to_status,
+    status = article_status_for_workflow(p_to_status),
+    published_at = CASE
+      WHEN p_to_status = 'published' THEN coalesce(published_at, now())
+      WHEN p_to_status IN ('draft', 'in_review', 'approved', 'scheduled') THEN NULL
+      ELSE published_at
+    END,
+    scheduled_publish_date = CASE WHEN p_to_status = 'scheduled' THEN p_scheduled_at ELSE NULL END,
+    reviewer_id = CASE WHEN p_to_status = 'in_review' THEN coalesce(p_reviewer_id, reviewer_id) ELSE reviewer_id END,
+    review_comment = CASE
+      WHEN v_requires_comment THEN p_comment
+      WHEN p_to_status = 'in_review' THEN NULL
+      ELSE review_comment
+    END,
+    updated_at = now()
+  WHERE id = p_article_id
+  RETURNING * INTO v_result;
+
+  PERFORM set_config('app.workflow_transition', 'off', true);
+
+  INSERT INTO article_workflow_events (article_id, from_status, to_status, actor_id, comment)
+  VALUES (p_article_id, v_from, p_to_status, auth.uid(), nullif(trim(p_comment), ''));
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transition_article(uuid, text, text, timestamptz, uuid) TO authenticated;
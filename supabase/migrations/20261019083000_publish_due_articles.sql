@@ -0,0 +1,47 @@
+-- Publishes scheduled articles whose time has come. Called by the
+-- publish-scheduled-articles edge function; not exposed to signed-in users.
+
+CREATE INDEX IF NOT EXISTS articles_scheduled_publish_date_idx
+  ON articles (scheduled_publish_date)
+  WHERE workflow_status = 'scheduled';
+
+CREATE OR REPLACE FUNCTION publish_due_articles()
+RETURNS TABLE (id uuid, title text, slug text, published_at timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_article record;
+BEGIN
+  PERFORM set_config('app.workflow_transition', 'on', true);
+
+  FOR v_article IN
+    SELECT a.id, a.scheduled_publish_date
+    FROM articles a
+    WHERE a.workflow_status = 'scheduled'
+      AND a.scheduled_publish_date <= now()
+    ORDER BY a.scheduled_publish_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE articles a SET
+      workflow_status = 'published',
+      status = 'published',
+      published_at = v_article.scheduled_publish_date,
+      scheduled_publish_date = NULL,
+      updated_at = now()
+    WHERE a.id = v_article.id;
+
+    INSERT INTO article_workflow_events (article_id, from_status, to_status, actor_id, comment)
+    VALUES (v_article.id, 'scheduled', 'published', NULL, 'Published automatically at the scheduled time');
+
+    RETURN QUERY
+    SELECT a.id, a.title, a.slug, a.published_at FROM articles a WHERE a.id = v_article.id;
+  END LOOP;
+
+  PERFORM set_config('app.workflow_transition', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_due_articles() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION publish_due_articles() TO service_role;
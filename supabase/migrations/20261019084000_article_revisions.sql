@@ -0,0 +1,91 @@
+-- Snapshot of an article's editable fields after every save. Written by a trigger
+-- so no client path can skip it; restoring a revision is just another save.
+
+CREATE TABLE IF NOT EXISTS article_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_id uuid NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  title text NOT NULL,
+  slug text NOT NULL,
+  content text NOT NULL,
+  excerpt text,
+  author_name text,
+  category text,
+  featured_image_url text,
+  tags text[],
+  reading_time integer,
+  language text,
+  meta_title text,
+  meta_description text,
+  editor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  editor_name text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (article_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS article_revisions_article_idx
+  ON article_revisions (article_id, revision_number DESC);
+
+ALTER TABLE article_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Newsroom can read revisions" ON article_revisions;
+CREATE POLICY "Newsroom can read revisions" ON article_revisions FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'editor', 'author')));
+
+CREATE OR REPLACE FUNCTION record_article_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Workflow-only updates (status, reviewer, schedule) are not content revisions
+  IF TG_OP = 'UPDATE'
+    AND NEW.title IS NOT DISTINCT FROM OLD.title
+    AND NEW.slug IS NOT DISTINCT FROM OLD.slug
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.excerpt IS NOT DISTINCT FROM OLD.excerpt
+    AND NEW.author_name IS NOT DISTINCT FROM OLD.author_name
+    AND NEW.category IS NOT DISTINCT FROM OLD.category
+    AND NEW.featured_image_url IS NOT DISTINCT FROM OLD.featured_image_url
+    AND NEW.tags IS NOT DISTINCT FROM OLD.tags
+    AND NEW.reading_time IS NOT DISTINCT FROM OLD.reading_time
+    AND NEW.language IS NOT DISTINCT FROM OLD.language
+    AND NEW.meta_title IS NOT DISTINCT FROM OLD.meta_title
+    AND NEW.meta_description IS NOT DISTINCT FROM OLD.meta_description THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO article_revisions (
+    article_id, revision_number, title, slug, content, excerpt, author_name, category,
+    featured_image_url, tags, reading_time, language, meta_title, meta_description,
+    editor_id, editor_name
+  )
+  SELECT
+    NEW.id,
+    coalesce((SELECT max(r.revision_number) FROM article_revisions r WHERE r.article_id = NEW.id), 0) + 1,
+    NEW.title, NEW.slug, NEW.content, NEW.excerpt, NEW.author_name, NEW.category,
+    NEW.featured_image_url, NEW.tags, NEW.reading_time, NEW.language, NEW.meta_title, NEW.meta_description,
+    auth.uid(),
+    (SELECT coalesce(p.full_name, p.email) FROM profiles p WHERE p.id = auth.uid());
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_article_revision ON articles;
+CREATE TRIGGER record_article_revision AFTER INSERT OR UPDATE ON articles
+  FOR EACH ROW EXECUTE FUNCTION record_article_revision();
+
+-- Seed a first revision for articles written before history was kept
+INSERT INTO article_revisions (
+  article_id, revision_number, title, slug, content, excerpt, author_name, category,
+  featured_image_url, tags, reading_time, language, meta_title, meta_description,
+  editor_id, editor_name, created_at
+)
+SELECT
+  a.id, 1, a.title, a.slug, a.content, a.excerpt, a.author_name, a.category,
+  a.featured_image_url, a.tags, a.reading_time, a.language, a.meta_title, a.meta_description,
+  NULL, a.author_name, a.updated_at
+FROM articles a
+WHERE NOT EXISTS (SELECT 1 FROM article_revisions r WHERE r.article_id = a.id);
@@ -0,0 +1,303 @@
+-- Newsroom roles and what each may do. The matrix mirrors ROLE_PERMISSIONS in
+-- src/lib/permissions.ts; policies and RPCs ask has_permission() instead of
+-- comparing role names so both sides change in one place.
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_role_check
+  CHECK (role IS NULL OR role IN ('admin', 'editor_in_chief', 'editor', 'author', 'moderator', 'ad_manager', 'subscriber'))
+  NOT VALID;
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role text NOT NULL,
+  permission text NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone signed in can read role permissions" ON role_permissions;
+CREATE POLICY "Anyone signed in can read role permissions" ON role_permissions FOR SELECT
+  TO authenticated
+  USING (true);
+
+DELETE FROM role_permissions;
+INSERT INTO role_permissions (role, permission) VALUES
+  ('admin', 'dashboard.view'),
+  ('admin', 'articles.write'),
+  ('admin', 'articles.review'),
+  ('admin', 'articles.delete'),
+  ('admin', 'categories.manage'),
+  ('admin', 'breaking_news.manage'),
+  ('admin', 'comments.moderate'),
+  ('admin', 'ads.manage'),
+  ('admin', 'analytics.view'),
+  ('admin', 'site_content.manage'),
+  ('admin', 'settings.manage'),
+  ('admin', 'users.manage'),
+  ('editor_in_chief', 'dashboard.view'),
+  ('editor_in_chief', 'articles.write'),
+  ('editor_in_chief', 'articles.review'),
+  ('editor_in_chief', 'articles.delete'),
+  ('editor_in_chief', 'categories.manage'),
+  ('editor_in_chief', 'breaking_news.manage'),
+  ('editor_in_chief', 'comments.moderate'),
+  ('editor_in_chief', 'analytics.view'),
+  ('editor_in_chief', 'site_content.manage'),
+  ('editor', 'dashboard.view'),
+  ('editor', 'articles.write'),
+  ('editor', 'articles.review'),
+  ('editor', 'breaking_news.manage'),
+  ('editor', 'comments.moderate'),
+  ('author', 'dashboard.view'),
+  ('author', 'articles.write'),
+  ('moderator', 'dashboard.view'),
+  ('moderator', 'comments.moderate'),
+  ('ad_manager', 'dashboard.view'),
+  ('ad_manager', 'ads.manage');
+
+CREATE OR REPLACE FUNCTION has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM profiles p
+    JOIN role_permissions rp ON rp.role = p.role
+    WHERE p.id = auth.uid() AND rp.permission = p_permission
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_permission(text) TO authenticated;
+
+-- Policies are permissive, so these widen the existing admin-only policies to the
+-- new roles without touching public read access.
+
+DROP POLICY IF EXISTS "Newsroom can read all articles" ON articles;
+CREATE POLICY "Newsroom can read all articles" ON articles FOR SELECT
+  USING (has_permission('articles.write'));
+
+DROP POLICY IF EXISTS "Newsroom can create articles" ON articles;
+CREATE POLICY "Newsroom can create articles" ON articles FOR INSERT
+  WITH CHECK (has_permission('articles.write') AND author_id = auth.uid());
+
+DROP POLICY IF EXISTS "Editors and owners can update articles" ON articles;
+CREATE POLICY "Editors and owners can update articles" ON articles FOR UPDATE
+  USING (has_permission('articles.review') OR (has_permission('articles.write') AND author_id = auth.uid()))
+  WITH CHECK (has_permission('articles.review') OR (has_permission('articles.write') AND author_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Permitted staff can delete articles" ON articles;
+CREATE POLICY "Permitted staff can delete articles" ON articles FOR DELETE
+  USING (has_permission('articles.delete'));
+
+DROP POLICY IF EXISTS "Newsroom can read workflow events" ON article_workflow_events;
+CREATE POLICY "Newsroom can read workflow events" ON article_workflow_events FOR SELECT
+  USING (has_permission('articles.write'));
+
+DROP POLICY IF EXISTS "Newsroom can read revisions" ON article_revisions;
+CREATE POLICY "Newsroom can read revisions" ON article_revisions FOR SELECT
+  USING (has_permission('articles.write'));
+
+DROP POLICY IF EXISTS "Permitted staff can manage categories" ON categories;
+CREATE POLICY "Permitted staff can manage categories" ON categories FOR ALL
+  USING (has_permission('categories.manage'))
+  WITH CHECK (has_permission('categories.manage'));
+
+DROP POLICY IF EXISTS "Permitted staff can manage breaking news" ON breaking_news;
+CREATE POLICY "Permitted staff can manage breaking news" ON breaking_news FOR ALL
+  USING (has_permission('breaking_news.manage'))
+  WITH CHECK (has_permission('breaking_news.manage'));
+
+DROP POLICY IF EXISTS "Moderators can read all comments" ON comments;
+CREATE POLICY "Moderators can read all comments" ON comments FOR SELECT
+  USING (has_permission('comments.moderate'));
+
+DROP POLICY IF EXISTS "Moderators can update comments" ON comments;
+CREATE POLICY "Moderators can update comments" ON comments FOR UPDATE
+  USING (has_permission('comments.moderate'))
+  WITH CHECK (has_permission('comments.moderate'));
+
+DROP POLICY IF EXISTS "Moderators can delete comments" ON comments;
+CREATE POLICY "Moderators can delete comments" ON comments FOR DELETE
+  USING (has_permission('comments.moderate'));
+
+DROP POLICY IF EXISTS "Ad managers can manage advertisements" ON advertisements;
+CREATE POLICY "Ad managers can manage advertisements" ON advertisements FOR ALL
+  USING (has_permission('ads.manage'))
+  WITH CHECK (has_permission('ads.manage'));
+
+DROP POLICY IF EXISTS "Permitted staff can manage site content" ON site_content;
+CREATE POLICY "Permitted staff can manage site content" ON site_content FOR ALL
+  USING (has_permission('site_content.manage'))
+  WITH CHECK (has_permission('site_content.manage'));
+
+DROP POLICY IF EXISTS "Permitted staff can manage site settings" ON site_settings;
+CREATE POLICY "Permitted staff can manage site settings" ON site_settings FOR ALL
+  USING (has_permission('settings.manage'))
+  WITH CHECK (has_permission('settings.manage'));
+
+-- The newsroom needs names for reviewer pickers; only user managers may change profiles
+DROP POLICY IF EXISTS "Staff can read profiles" ON profiles;
+CREATE POLICY "Staff can read profiles" ON profiles FOR SELECT
+  USING (has_permission('users.manage') OR has_permission('articles.write') OR has_permission('comments.moderate'));
+
+DROP POLICY IF EXISTS "User managers can update profiles" ON profiles;
+CREATE POLICY "User managers can update profiles" ON profiles FOR UPDATE
+  USING (has_permission('users.manage'))
+  WITH CHECK (has_permission('users.manage'));
+
+DROP POLICY IF EXISTS "User managers can delete profiles" ON profiles;
+CREATE POLICY "User managers can delete profiles" ON profiles FOR DELETE
+  USING (has_permission('users.manage'));
+
+DROP POLICY IF EXISTS "Analysts can read article views" ON article_views;
+CREATE POLICY "Analysts can read article views" ON article_views FOR SELECT
+  USING (has_permission('analytics.view'));
+
+-- Same transition matrix as before, keyed by permission instead of role names
+CREATE OR REPLACE FUNCTION transition_article(
+  p_article_id uuid,
+  p_to_status text,
+  p_comment text DEFAULT NULL,
+  p_scheduled_at timestamptz DEFAULT NULL,
+  p_reviewer_id uuid DEFAULT NULL
+)
+RETURNS articles
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_article articles;
+  v_from text;
+  v_permission text;
+  v_requires_comment boolean;
+  v_result articles;
+BEGIN
+  SELECT * INTO v_article FROM articles WHERE id = p_article_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Article not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_from := v_article.workflow_status;
+
+  SELECT t.permission, t.requires_comment INTO v_permission, v_requires_comment
+  FROM (VALUES
+    ('draft', 'in_review', 'articles.write', false),
+    ('draft', 'published', 'articles.review', false),
+    ('draft', 'scheduled', 'articles.review', false),
+    ('in_review', 'approved', 'articles.review', false),
+    ('in_review', 'draft', 'articles.review', true),
+    ('approved', 'published', 'articles.review', false),
+    ('approved', 'scheduled', 'articles.review', false),
+    ('approved', 'draft', 'articles.review', true),
+    ('scheduled', 'scheduled', 'articles.review', false),
+    ('scheduled', 'published', 'articles.review', false),
+    ('scheduled', 'approved', 'articles.review', false),
+    ('published', 'archived', 'articles.review', false),
+    ('published', 'draft', 'articles.review', false),
+    ('archived', 'draft', 'articles.review', false)
+  ) AS t(from_status, to_status, permission, requires_comment)
+  WHERE t.from_status = v_from AND t.to_status = p_to_status;
+
+  IF v_permission IS NULL THEN
+    RAISE EXCEPTION 'Cannot move an article from % to %', v_from, p_to_status USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT has_permission(v_permission) THEN
+    RAISE EXCEPTION 'Your role cannot move an article from % to %', v_from, p_to_status USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT has_permission('articles.review') AND v_article.author_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Authors can only submit their own articles' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_requires_comment AND coalesce(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment is required when sending an article back' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_to_status = 'scheduled' AND (p_scheduled_at IS NULL OR p_scheduled_at <= now()) THEN
+    RAISE EXCEPTION 'Scheduled articles need a publication time in the future' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM set_config('app.workflow_transition', 'on', true);
+
+  UPDATE articles SET
+    workflow_status = p_to_status,
+    status = article_status_for_workflow(p_to_status),
+    published_at = CASE
+      WHEN p_to_status = 'published' THEN coalesce(published_at, now())
+      WHEN p_to_status IN ('draft', 'in_review', 'approved', 'scheduled') THEN NULL
+      ELSE published_at
+    END,
+    scheduled_publish_date = CASE WHEN p_to_status = 'scheduled' THEN p_scheduled_at ELSE NULL END,
+    reviewer_id = CASE WHEN p_to_status = 'in_review' THEN coalesce(p_reviewer_id, reviewer_id) ELSE reviewer_id END,
+    review_comment = CASE
+      WHEN v_requires_comment THEN p_comment
+      WHEN p_to_status = 'in_review' THEN NULL
+      ELSE review_comment
+    END,
+    updated_at = now()
+  WHERE id = p_article_id
+  RETURNING * INTO v_result;
+
+  PERFORM set_config('app.workflow_transition', 'off', true);
+
+  INSERT INTO article_workflow_events (article_id, from_status, to_status, actor_id, comment)
+  VALUES (p_article_id, v_from, p_to_status, auth.uid(), nullif(trim(p_comment), ''));
+
+  RETURN v_result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_daily_counts(
+  p_metric text,
+  p_from date,
+  p_to date,
+  p_timezone text DEFAULT 'Europe/Belgrade'
+)
+RETURNS TABLE (day date, total bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  range_start timestamptz := p_from::timestamp AT TIME ZONE p_timezone;
+  range_end timestamptz := (p_to + 1)::timestamp AT TIME ZONE p_timezone;
+BEGIN
+  IF NOT has_permission('analytics.view') THEN
+    RAISE EXCEPTION 'Your role cannot read analytics' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_metric NOT IN ('views', 'comments', 'users') THEN
+    RAISE EXCEPTION 'Unknown analytics metric: %', p_metric USING ERRCODE = '22023';
+  END IF;
+
+  IF p_to < p_from OR p_to - p_from > 366 THEN
+    RAISE EXCEPTION 'Invalid analytics range: % to %', p_from, p_to USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  WITH events AS (
+    SELECT (v.viewed_at AT TIME ZONE p_timezone)::date AS event_day
+    FROM article_views v
+    WHERE p_metric = 'views' AND v.viewed_at >= range_start AND v.viewed_at < range_end
+    UNION ALL
+    SELECT (c.created_at AT TIME ZONE p_timezone)::date
+    FROM comments c
+    WHERE p_metric = 'comments' AND c.is_approved AND c.created_at >= range_start AND c.created_at < range_end
+    UNION ALL
+    SELECT (pr.created_at AT TIME ZONE p_timezone)::date
+    FROM profiles pr
+    WHERE p_metric = 'users' AND pr.created_at >= range_start AND pr.created_at < range_end
+  )
+  SELECT d.day::date, count(e.event_day)
+  FROM generate_series(p_from, p_to, interval '1 day') AS d(day)
+  LEFT JOIN events e ON e.event_day = d.day::date
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$;
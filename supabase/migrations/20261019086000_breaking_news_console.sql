@@ -0,0 +1,52 @@
+-- Scheduling and kill support for the breaking news console. An item is live
+-- while it is active, its start time has passed and it has not expired.
+
+ALTER TABLE breaking_news
+  ADD COLUMN IF NOT EXISTS starts_at timestamptz,
+  ADD COLUMN IF NOT EXISTS killed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS created_at timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+ALTER TABLE breaking_news DROP CONSTRAINT IF EXISTS breaking_news_window_check;
+ALTER TABLE breaking_news ADD CONSTRAINT breaking_news_window_check
+  CHECK (starts_at IS NULL OR expires_at IS NULL OR starts_at < expires_at) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS breaking_news_active_priority_idx
+  ON breaking_news (priority DESC, created_at DESC)
+  WHERE is_active;
+
+CREATE OR REPLACE FUNCTION touch_breaking_news()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS breaking_news_touch ON breaking_news;
+CREATE TRIGGER breaking_news_touch
+  BEFORE UPDATE ON breaking_news
+  FOR EACH ROW EXECUTE FUNCTION touch_breaking_news();
+
+-- Readers get scheduled items too, so open banners can switch them on at their
+-- start time without a database event; staff see everything through the manage policy
+DROP POLICY IF EXISTS "Live breaking news is public" ON breaking_news;
+CREATE POLICY "Live breaking news is public" ON breaking_news FOR SELECT
+  USING (
+    is_active
+    AND (expires_at IS NULL OR expires_at > now())
+  );
+
+-- Open banners refetch on row changes, so the table has to be published
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'breaking_news'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE breaking_news;
+  END IF;
+END;
+$$;
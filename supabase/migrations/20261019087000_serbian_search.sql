@@ -0,0 +1,199 @@
+-- Full-text search that treats Cyrillic and Latin Serbian as the same language and
+-- ignores diacritics, so "cevapi", "ćevapi" and "ћевапи" all find the same articles.
+-- Everything is folded to plain ASCII Latin before it reaches the text search parser.
+
+CREATE OR REPLACE FUNCTION serbian_fold(p_text text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT translate(
+    replace(replace(replace(replace(replace(lower(coalesce(p_text, '')),
+      'ђ', 'dj'), 'đ', 'dj'), 'љ', 'lj'), 'њ', 'nj'), 'џ', 'dz'),
+    'абвгдежзијклмнопрстћуфхцчшćčšžáàâäãåéèêëíìîïóòôöõúùûüýÿñç',
+    'abvgdezzijklmnoprstcufhccsccszaaaaaaeeeeiiiiooooouuuuyync'
+  );
+$$;
+
+-- Article content is editor HTML; search and snippets only want the words
+CREATE OR REPLACE FUNCTION strip_html(p_html text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT replace(replace(replace(replace(replace(replace(
+    regexp_replace(coalesce(p_html, ''), '<[^>]*>', ' ', 'g'),
+    '&nbsp;', ' '), '&quot;', '"'), '&#39;', ''''), '&lt;', '<'), '&gt;', '>'), '&amp;', '&');
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'serbian_folded') THEN
+    CREATE TEXT SEARCH CONFIGURATION serbian_folded (COPY = simple);
+  END IF;
+
+  -- PostgreSQL 15 ships a Snowball stemmer for Serbian; older servers match whole words
+  IF EXISTS (SELECT 1 FROM pg_ts_dict WHERE dictname = 'serbian_stem') THEN
+    ALTER TEXT SEARCH CONFIGURATION serbian_folded
+      ALTER MAPPING FOR asciiword, asciihword, hword_asciipart, word, hword, hword_part
+      WITH serbian_stem;
+  END IF;
+END;
+$$;
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('serbian_folded', serbian_fold(title)), 'A') ||
+    setweight(to_tsvector('serbian_folded', serbian_fold(excerpt)), 'B') ||
+    setweight(to_tsvector('serbian_folded', serbian_fold(strip_html(content))), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS articles_search_vector_idx
+  ON articles USING gin (search_vector);
+
+-- Folded search words, e.g. 'Ћевапи у Beogradu!' -> {cevapi,u,beogradu}
+CREATE OR REPLACE FUNCTION serbian_search_terms(p_query text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(array_agg(term), ARRAY[]::text[])
+  FROM regexp_split_to_table(serbian_fold(p_query), '[^a-z0-9]+') AS term
+  WHERE term <> '';
+$$;
+
+-- Wraps the words of p_text that match p_query in chr(2) ... chr(3). It works on the
+-- original words, so highlights keep the article's script and diacritics. With
+-- p_max_words it returns a window around the first match, or NULL without one.
+CREATE OR REPLACE FUNCTION serbian_headline(p_text text, p_query tsquery, p_max_words integer DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_words text[];
+  v_count integer;
+  v_start integer := 1;
+  v_stop integer;
+  v_first integer;
+  v_parts text[] := ARRAY[]::text[];
+  i integer;
+BEGIN
+  v_words := regexp_split_to_array(btrim(translate(coalesce(p_text, ''), chr(2) || chr(3), '')), '\s+');
+  v_count := coalesce(array_length(v_words, 1), 0);
+  IF v_count = 0 OR v_words[1] = '' THEN
+    RETURN NULL;
+  END IF;
+  v_stop := v_count;
+
+  IF p_max_words IS NOT NULL THEN
+    FOR i IN 1..v_count LOOP
+      IF to_tsvector('serbian_folded', serbian_fold(v_words[i])) @@ p_query THEN
+        v_first := i;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF v_first IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    -- Give the match a little lead-in rather than starting the snippet on it
+    v_start := greatest(1, v_first - p_max_words / 4);
+    v_stop := least(v_count, v_start + p_max_words - 1);
+  END IF;
+
+  FOR i IN v_start..v_stop LOOP
+    IF to_tsvector('serbian_folded', serbian_fold(v_words[i])) @@ p_query THEN
+      v_parts := v_parts || (chr(2) || v_words[i] || chr(3));
+    ELSE
+      v_parts := v_parts || v_words[i];
+    END IF;
+  END LOOP;
+
+  RETURN CASE WHEN v_start > 1 THEN '… ' ELSE '' END
+    || array_to_string(v_parts, ' ')
+    || CASE WHEN v_stop < v_count THEN ' …' ELSE '' END;
+END;
+$$;
+
+-- Published articles matching every search word as a prefix, ranked by where the
+-- words appear (title over excerpt over body). Without a query it lists by date.
+CREATE OR REPLACE FUNCTION search_articles(
+  p_query text,
+  p_category text DEFAULT NULL,
+  p_since timestamptz DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_limit integer DEFAULT 12,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  slug text,
+  excerpt text,
+  featured_image_url text,
+  category text,
+  author_name text,
+  published_at timestamptz,
+  reading_time integer,
+  rank real,
+  title_highlight text,
+  snippet text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      to_tsquery('serbian_folded', string_agg(quote_literal(term) || ':*', ' & ')) AS match_query,
+      to_tsquery('serbian_folded', string_agg(quote_literal(term) || ':*', ' | ')) AS any_query
+    FROM unnest(serbian_search_terms(p_query)) AS term
+  ),
+  scored AS (
+    SELECT
+      a.*,
+      CASE WHEN q.match_query IS NULL THEN 0 ELSE ts_rank_cd(a.search_vector, q.match_query, 32) END AS score
+    FROM articles a
+    CROSS JOIN q
+    WHERE a.status = 'published'
+      AND (q.match_query IS NULL OR a.search_vector @@ q.match_query)
+      AND (p_category IS NULL OR a.category = p_category)
+      AND (p_since IS NULL OR a.published_at >= p_since)
+  ),
+  ordered AS (
+    SELECT
+      s.*,
+      count(*) OVER () AS total,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'relevance' THEN s.score END DESC NULLS LAST,
+          CASE WHEN p_sort = 'title' THEN s.title END ASC,
+          CASE WHEN p_sort = 'published_at-asc' THEN s.published_at END ASC,
+          s.published_at DESC NULLS LAST,
+          s.id
+      ) AS position
+    FROM scored s
+  )
+  SELECT
+    o.id,
+    o.title::text,
+    o.slug::text,
+    o.excerpt::text,
+    o.featured_image_url::text,
+    o.category::text,
+    o.author_name::text,
+    o.published_at::timestamptz,
+    o.reading_time::integer,
+    o.score::real,
+    CASE WHEN q.any_query IS NULL THEN o.title::text ELSE coalesce(serbian_headline(o.title, q.any_query), o.title::text) END,
+    CASE WHEN q.any_query IS NULL THEN NULL ELSE serbian_headline(strip_html(o.content), q.any_query, 40) END,
+    o.total
+  FROM ordered o
+  CROSS JOIN q
+  WHERE o.position > p_offset AND o.position <= p_offset + p_limit
+  ORDER BY o.position;
+$$;
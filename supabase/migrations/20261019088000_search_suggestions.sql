@@ -0,0 +1,114 @@
+-- Search-as-you-type suggestions and trending searches. Queries are logged without
+-- any reader identity: just the words, their folded form and how many results came back.
+
+CREATE TABLE IF NOT EXISTS search_queries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  term text NOT NULL,
+  folded_term text NOT NULL,
+  result_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS search_queries_created_at_idx
+  ON search_queries (created_at DESC);
+CREATE INDEX IF NOT EXISTS search_queries_folded_term_idx
+  ON search_queries (folded_term, created_at DESC);
+
+ALTER TABLE search_queries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Analysts can read search queries" ON search_queries;
+CREATE POLICY "Analysts can read search queries" ON search_queries FOR SELECT
+  USING (has_permission('analytics.view'));
+
+-- Readers cannot insert directly; this is the only write path
+CREATE OR REPLACE FUNCTION log_search(p_term text, p_result_count integer)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_term text := left(btrim(regexp_replace(coalesce(p_term, ''), '\s+', ' ', 'g')), 100);
+  v_id uuid;
+BEGIN
+  IF v_term = '' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO search_queries (term, folded_term, result_count)
+  VALUES (v_term, serbian_fold(v_term), greatest(coalesce(p_result_count, 0), 0))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Only queries that found something and were repeated a few times, so one-off
+-- searches (names, typos, anything personal) never show up publicly
+CREATE OR REPLACE FUNCTION trending_searches(p_days integer DEFAULT 7, p_limit integer DEFAULT 5)
+RETURNS TABLE (term text, searches bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT mode() WITHIN GROUP (ORDER BY sq.term) AS term, count(*) AS searches
+  FROM search_queries sq
+  WHERE sq.created_at >= now() - make_interval(days => p_days)
+    AND sq.result_count > 0
+  GROUP BY sq.folded_term
+  HAVING count(*) >= 3
+  ORDER BY count(*) DESC
+  LIMIT p_limit;
+$$;
+
+-- Article titles, categories and tags for the search box, folded the same way as
+-- search_articles so any script or spelling suggests the same things
+CREATE OR REPLACE FUNCTION search_suggestions(p_query text, p_limit integer DEFAULT 5)
+RETURNS TABLE (kind text, label text, value text)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      serbian_fold(btrim(p_query)) AS folded,
+      to_tsquery('serbian_folded', string_agg(quote_literal(term) || ':*', ' & ')) AS match_query
+    FROM unnest(serbian_search_terms(p_query)) AS term
+  )
+  (
+    SELECT 'article'::text, a.title::text, a.slug::text
+    FROM articles a
+    CROSS JOIN q
+    WHERE q.match_query IS NOT NULL
+      AND a.status = 'published'
+      AND a.search_vector @@ q.match_query
+    ORDER BY ts_rank_cd(a.search_vector, q.match_query, 32) DESC, a.published_at DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'category'::text, c.name::text, c.slug::text
+    FROM categories c
+    CROSS JOIN q
+    WHERE q.folded <> ''
+      AND c.is_active
+      AND position(q.folded IN serbian_fold(c.name)) > 0
+    ORDER BY c.sort_order
+    LIMIT 3
+  )
+  UNION ALL
+  (
+    SELECT 'tag'::text, t.tag, t.tag
+    FROM (
+      SELECT tag::text AS tag, count(*) AS uses
+      FROM articles a, unnest(a.tags) AS tag
+      WHERE a.status = 'published'
+      GROUP BY tag
+    ) t
+    CROSS JOIN q
+    WHERE q.folded <> ''
+      AND starts_with(serbian_fold(t.tag), q.folded)
+    ORDER BY t.uses DESC
+    LIMIT p_limit
+  );
+$$;
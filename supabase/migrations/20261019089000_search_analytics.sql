@@ -0,0 +1,135 @@
+-- Search analytics for the desk: which terms readers search for, which find nothing,
+-- and how often a search ends in a click. Logged terms are scrubbed of anything that
+-- looks like an email address or phone number before they are stored.
+
+ALTER TABLE search_queries ADD COLUMN IF NOT EXISTS clicked_article_id uuid
+  REFERENCES articles(id) ON DELETE SET NULL;
+ALTER TABLE search_queries ADD COLUMN IF NOT EXISTS clicked_position integer;
+ALTER TABLE search_queries ADD COLUMN IF NOT EXISTS clicked_at timestamptz;
+
+CREATE OR REPLACE FUNCTION log_search(p_term text, p_result_count integer)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_term text := coalesce(p_term, '');
+  v_id uuid;
+BEGIN
+  v_term := regexp_replace(v_term, '[^\s@]+@[^\s@]+', '[email]', 'g');
+  v_term := regexp_replace(v_term, '\+?\d(?:[\s/().-]?\d){8,}', '[number]', 'g');
+  v_term := left(btrim(regexp_replace(v_term, '\s+', ' ', 'g')), 100);
+
+  IF v_term = '' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO search_queries (term, folded_term, result_count)
+  VALUES (v_term, serbian_fold(v_term), greatest(coalesce(p_result_count, 0), 0))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Only the first click of a fresh search counts, so a reader going back and forth
+-- through the results (or anyone replaying ids) cannot inflate the click-through rate
+CREATE OR REPLACE FUNCTION log_search_click(p_query_id uuid, p_article_id uuid, p_position integer)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE search_queries
+  SET clicked_article_id = p_article_id,
+      clicked_position = greatest(p_position, 1),
+      clicked_at = now()
+  WHERE id = p_query_id
+    AND clicked_at IS NULL
+    AND created_at > now() - interval '1 hour'
+    AND EXISTS (SELECT 1 FROM articles a WHERE a.id = p_article_id AND a.status = 'published');
+$$;
+
+-- Per-term figures for the analytics tab, grouped by folded term so every spelling
+-- of a query is counted together and shown in its most common form
+CREATE OR REPLACE FUNCTION search_query_report(
+  p_from date,
+  p_to date,
+  p_timezone text DEFAULT 'Europe/Belgrade',
+  p_limit integer DEFAULT 200
+)
+RETURNS TABLE (
+  term text,
+  searches bigint,
+  zero_result_searches bigint,
+  clicks bigint,
+  last_result_count integer,
+  last_searched_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  range_start timestamptz := p_from::timestamp AT TIME ZONE p_timezone;
+  range_end timestamptz := (p_to + 1)::timestamp AT TIME ZONE p_timezone;
+BEGIN
+  IF NOT has_permission('analytics.view') THEN
+    RAISE EXCEPTION 'Your role cannot read analytics' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_to < p_from OR p_to - p_from > 366 THEN
+    RAISE EXCEPTION 'Invalid analytics range: % to %', p_from, p_to USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    mode() WITHIN GROUP (ORDER BY sq.term),
+    count(*),
+    count(*) FILTER (WHERE sq.result_count = 0),
+    count(sq.clicked_at),
+    (array_agg(sq.result_count ORDER BY sq.created_at DESC))[1],
+    max(sq.created_at)
+  FROM search_queries sq
+  WHERE sq.created_at >= range_start AND sq.created_at < range_end
+  GROUP BY sq.folded_term
+  ORDER BY count(*) DESC, max(sq.created_at) DESC
+  LIMIT p_limit;
+END;
+$$;
+
+-- Range totals, which the per-term report cannot give once it is truncated
+CREATE OR REPLACE FUNCTION search_query_totals(
+  p_from date,
+  p_to date,
+  p_timezone text DEFAULT 'Europe/Belgrade'
+)
+RETURNS TABLE (searches bigint, zero_result_searches bigint, clicks bigint, unique_terms bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  range_start timestamptz := p_from::timestamp AT TIME ZONE p_timezone;
+  range_end timestamptz := (p_to + 1)::timestamp AT TIME ZONE p_timezone;
+BEGIN
+  IF NOT has_permission('analytics.view') THEN
+    RAISE EXCEPTION 'Your role cannot read analytics' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE sq.result_count = 0),
+    count(sq.clicked_at),
+    count(DISTINCT sq.folded_term)
+  FROM search_queries sq
+  WHERE sq.created_at >= range_start AND sq.created_at < range_end;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_query_report(date, date, text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_query_totals(date, date, text) TO authenticated;
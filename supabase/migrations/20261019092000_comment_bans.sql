@@ -0,0 +1,81 @@
+-- Commenter ban list and per-sender submission counts for the submit-comment edge
+-- function. Bans match an email address, a single IP or an IP range, and can expire.
+
+CREATE TABLE IF NOT EXISTS comment_bans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('email', 'ip', 'ip_range')),
+  email text,
+  ip_range cidr,
+  reason text,
+  expires_at timestamptz,
+  -- The comment the ban was issued from, if any
+  comment_id uuid REFERENCES comments(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT comment_bans_target_check CHECK (
+    (kind = 'email' AND email IS NOT NULL AND email = lower(btrim(email)) AND ip_range IS NULL) OR
+    (kind = 'ip' AND ip_range IS NOT NULL AND masklen(ip_range) = CASE WHEN family(ip_range) = 4 THEN 32 ELSE 128 END AND email IS NULL) OR
+    (kind = 'ip_range' AND ip_range IS NOT NULL AND email IS NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS comment_bans_email_idx ON comment_bans (email) WHERE email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS comment_bans_ip_range_idx ON comment_bans USING gist (ip_range inet_ops) WHERE ip_range IS NOT NULL;
+
+ALTER TABLE comment_bans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Moderators manage comment bans" ON comment_bans;
+CREATE POLICY "Moderators manage comment bans" ON comment_bans FOR ALL
+  USING (has_permission('comments.moderate'))
+  WITH CHECK (has_permission('comments.moderate'));
+
+-- The ban that currently applies to a sender, if any. IPs that do not parse (the
+-- edge function reports 'unknown' when there is no forwarding header) match nothing.
+CREATE OR REPLACE FUNCTION find_comment_ban(p_email text, p_ip text)
+RETURNS TABLE (id uuid, kind text, expires_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_ip inet;
+BEGIN
+  BEGIN
+    v_ip := p_ip::inet;
+  EXCEPTION WHEN invalid_text_representation THEN
+    v_ip := NULL;
+  END;
+
+  RETURN QUERY
+  SELECT b.id, b.kind, b.expires_at
+  FROM comment_bans b
+  WHERE (b.expires_at IS NULL OR b.expires_at > now())
+    AND (
+      (b.kind = 'email' AND b.email = lower(btrim(p_email))) OR
+      (b.kind IN ('ip', 'ip_range') AND v_ip IS NOT NULL AND b.ip_range >>= v_ip)
+    )
+  ORDER BY b.expires_at DESC NULLS FIRST
+  LIMIT 1;
+END;
+$$;
+
+-- How many comments a sender has submitted recently, for rate limiting and scoring
+CREATE OR REPLACE FUNCTION comment_submission_counts(p_email text, p_ip text, p_recent_minutes integer DEFAULT 10)
+RETURNS TABLE (ip_recent bigint, ip_day bigint, email_recent bigint, email_day bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*) FILTER (WHERE c.author_ip = p_ip AND c.created_at > now() - make_interval(mins => p_recent_minutes)),
+    count(*) FILTER (WHERE c.author_ip = p_ip),
+    count(*) FILTER (WHERE c.author_email = lower(btrim(p_email)) AND c.created_at > now() - make_interval(mins => p_recent_minutes)),
+    count(*) FILTER (WHERE c.author_email = lower(btrim(p_email)))
+  FROM comments c
+  WHERE c.created_at > now() - interval '1 day'
+    AND (c.author_ip = p_ip OR c.author_email = lower(btrim(p_email)));
+$$;
+
+-- Only the edge function (service role) needs these
+REVOKE EXECUTE ON FUNCTION find_comment_ban(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION comment_submission_counts(text, text, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,18 @@
+-- Article pages listen for comments being approved, so readers see new comments
+-- without reloading. Realtime applies RLS per subscriber: anonymous readers only
+-- receive rows they could select, i.e. approved comments that are not spam.
+
+DROP POLICY IF EXISTS "Approved comments are public" ON comments;
+CREATE POLICY "Approved comments are public" ON comments FOR SELECT
+  USING (is_approved AND NOT is_spam);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'comments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE comments;
+  END IF;
+END;
+$$;
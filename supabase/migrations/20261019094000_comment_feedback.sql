@@ -0,0 +1,88 @@
+-- Readers can upvote and report comments through the comment-feedback edge function.
+-- Readers are anonymous, so votes and reports are keyed by a salted hash of the
+-- sender (one vote and one report per comment each) rather than by user.
+
+CREATE TABLE IF NOT EXISTS comment_votes (
+  comment_id uuid NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  voter_hash text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (comment_id, voter_hash)
+);
+
+CREATE TABLE IF NOT EXISTS comment_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id uuid NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('spam', 'abuse', 'harassment', 'misinformation', 'off_topic', 'other')),
+  details text CHECK (char_length(details) <= 500),
+  reporter_hash text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- Set when a moderator deals with the report
+  resolution text CHECK (resolution IN ('dismissed', 'actioned')),
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  UNIQUE (comment_id, reporter_hash)
+);
+
+CREATE INDEX IF NOT EXISTS comment_reports_open_idx
+  ON comment_reports (comment_id, created_at DESC) WHERE resolved_at IS NULL;
+
+-- Denormalized so articles can sort by votes and the queue can sort by reports
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS upvotes integer NOT NULL DEFAULT 0;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS open_reports integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION sync_comment_upvotes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE comments
+  SET upvotes = (SELECT count(*) FROM comment_votes v WHERE v.comment_id = comments.id)
+  WHERE id = COALESCE(NEW.comment_id, OLD.comment_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comment_votes_sync_upvotes ON comment_votes;
+CREATE TRIGGER comment_votes_sync_upvotes
+  AFTER INSERT OR DELETE ON comment_votes
+  FOR EACH ROW EXECUTE FUNCTION sync_comment_upvotes();
+
+CREATE OR REPLACE FUNCTION sync_comment_open_reports()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE comments
+  SET open_reports = (
+    SELECT count(*) FROM comment_reports r
+    WHERE r.comment_id = comments.id AND r.resolved_at IS NULL
+  )
+  WHERE id = COALESCE(NEW.comment_id, OLD.comment_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comment_reports_sync_open_reports ON comment_reports;
+CREATE TRIGGER comment_reports_sync_open_reports
+  AFTER INSERT OR UPDATE OF resolved_at OR DELETE ON comment_reports
+  FOR EACH ROW EXECUTE FUNCTION sync_comment_open_reports();
+
+CREATE INDEX IF NOT EXISTS comments_article_upvotes_idx
+  ON comments (article_id, upvotes DESC);
+
+ALTER TABLE comment_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comment_reports ENABLE ROW LEVEL SECURITY;
+
+-- Votes and reports are written by the edge function only; moderators review reports
+DROP POLICY IF EXISTS "Moderators can read comment reports" ON comment_reports;
+CREATE POLICY "Moderators can read comment reports" ON comment_reports FOR SELECT
+  USING (has_permission('comments.moderate'));
+
+DROP POLICY IF EXISTS "Moderators can resolve comment reports" ON comment_reports;
+CREATE POLICY "Moderators can resolve comment reports" ON comment_reports FOR UPDATE
+  USING (has_permission('comments.moderate'))
+  WITH CHECK (has_permission('comments.moderate'));
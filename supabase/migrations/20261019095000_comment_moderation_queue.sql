@@ -0,0 +1,14 @@
+-- Rejected comments looked exactly like pending ones (not approved, not spam), so the
+-- moderation queue could never empty. moderated_at records when a moderator decided;
+-- pending comments are the ones nobody has decided on yet.
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS moderated_at timestamptz;
+
+-- Anything already approved or marked as spam has been decided
+UPDATE comments
+SET moderated_at = updated_at
+WHERE moderated_at IS NULL AND (is_approved OR is_spam);
+
+CREATE INDEX IF NOT EXISTS comments_pending_queue_idx
+  ON comments (created_at)
+  WHERE moderated_at IS NULL AND NOT is_approved AND NOT is_spam;
@@ -0,0 +1,76 @@
+-- Emails to commenters: one when a moderator approves their comment and one when an
+-- approved reply lands under it. A trigger queues them in comment_notifications and
+-- the send-comment-notifications edge function delivers the queue.
+
+CREATE TABLE IF NOT EXISTS comment_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- For 'approved' the comment itself; for 'reply' the new reply
+  comment_id uuid NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('approved', 'reply')),
+  recipient_email text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  sent_at timestamptz,
+  -- Approving, undoing and approving again must not send twice
+  UNIQUE (comment_id, kind, recipient_email)
+);
+
+CREATE INDEX IF NOT EXISTS comment_notifications_unsent_idx
+  ON comment_notifications (created_at) WHERE sent_at IS NULL;
+
+-- Addresses that used the unsubscribe link in one of our emails
+CREATE TABLE IF NOT EXISTS comment_email_unsubscribes (
+  email text PRIMARY KEY CHECK (email = lower(btrim(email))),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Only the edge functions (service role) touch these
+ALTER TABLE comment_notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comment_email_unsubscribes ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION queue_comment_notifications()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parent comments%ROWTYPE;
+BEGIN
+  IF NOT NEW.is_approved OR NEW.is_spam THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.is_approved AND NOT OLD.is_spam THEN
+    RETURN NEW;
+  END IF;
+
+  -- Auto-approved comments appear straight away, so only a moderator's approval is news
+  IF TG_OP = 'UPDATE' AND NOT EXISTS (SELECT 1 FROM comment_email_unsubscribes WHERE email = lower(NEW.author_email)) THEN
+    INSERT INTO comment_notifications (comment_id, kind, recipient_email)
+    VALUES (NEW.id, 'approved', lower(NEW.author_email))
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT * INTO v_parent FROM comments WHERE id = NEW.parent_id;
+
+    IF FOUND
+      AND v_parent.is_approved AND NOT v_parent.is_spam
+      AND lower(v_parent.author_email) <> lower(NEW.author_email)
+      AND NOT EXISTS (SELECT 1 FROM comment_email_unsubscribes WHERE email = lower(v_parent.author_email))
+    THEN
+      INSERT INTO comment_notifications (comment_id, kind, recipient_email)
+      VALUES (NEW.id, 'reply', lower(v_parent.author_email))
+      ON CONFLICT DO NOTHING;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_queue_notifications ON comments;
+CREATE TRIGGER comments_queue_notifications
+  AFTER INSERT OR UPDATE OF is_approved, is_spam ON comments
+  FOR EACH ROW EXECUTE FUNCTION queue_comment_notifications();
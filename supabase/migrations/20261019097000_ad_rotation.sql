@@ -0,0 +1,22 @@
+-- Ad rotation settings. weight is the ad's share of its placement relative to the
+-- other eligible ads; frequency_cap limits how many times one visitor sees it per
+-- day; impression_goal lets delivery be paced evenly between start_date and
+-- end_date. House ads only fill slots no paid ad is eligible for.
+
+ALTER TABLE advertisements
+  ADD COLUMN IF NOT EXISTS weight integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS frequency_cap integer,
+  ADD COLUMN IF NOT EXISTS impression_goal integer,
+  ADD COLUMN IF NOT EXISTS is_house_ad boolean NOT NULL DEFAULT false;
+
+ALTER TABLE advertisements DROP CONSTRAINT IF EXISTS advertisements_weight_check;
+ALTER TABLE advertisements ADD CONSTRAINT advertisements_weight_check
+  CHECK (weight BETWEEN 1 AND 100);
+
+ALTER TABLE advertisements DROP CONSTRAINT IF EXISTS advertisements_frequency_cap_check;
+ALTER TABLE advertisements ADD CONSTRAINT advertisements_frequency_cap_check
+  CHECK (frequency_cap IS NULL OR frequency_cap > 0);
+
+ALTER TABLE advertisements DROP CONSTRAINT IF EXISTS advertisements_impression_goal_check;
+ALTER TABLE advertisements ADD CONSTRAINT advertisements_impression_goal_check
+  CHECK (impression_goal IS NULL OR impression_goal > 0);
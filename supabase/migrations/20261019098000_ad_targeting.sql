@@ -0,0 +1,18 @@
+-- Ad targeting. Each list narrows where an ad may run; an empty list places no
+-- restriction. Categories are category slugs, tags match article tags
+-- case-insensitively, languages are the site languages and devices are the
+-- reader's screen class.
+
+ALTER TABLE advertisements
+  ADD COLUMN IF NOT EXISTS target_categories text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS target_tags text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS target_languages text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS target_devices text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE advertisements DROP CONSTRAINT IF EXISTS advertisements_target_languages_check;
+ALTER TABLE advertisements ADD CONSTRAINT advertisements_target_languages_check
+  CHECK (target_languages <@ ARRAY['sr', 'en']::text[]);
+
+ALTER TABLE advertisements DROP CONSTRAINT IF EXISTS advertisements_target_devices_check;
+ALTER TABLE advertisements ADD CONSTRAINT advertisements_target_devices_check
+  CHECK (target_devices <@ ARRAY['mobile', 'tablet', 'desktop']::text[]);
@@ -0,0 +1,89 @@
+-- Ad impressions and clicks are recorded by the ad-event edge function only. Every
+-- page view that shows ads gets a random view id, so an ad counts at most one
+-- impression and one click per view. ad_daily_stats and the advertisements
+-- counters follow ad_events by trigger and can no longer be written by browsers.
+
+CREATE TABLE IF NOT EXISTS ad_events (
+  id bigserial PRIMARY KEY,
+  ad_id uuid NOT NULL REFERENCES advertisements(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN ('impression', 'click')),
+  view_id uuid NOT NULL,
+  visitor_hash text NOT NULL,
+  event_day date NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (ad_id, event_type, view_id)
+);
+
+-- Per-visitor daily limits in the edge function look events up by this
+CREATE INDEX IF NOT EXISTS ad_events_visitor_day_idx
+  ON ad_events (ad_id, visitor_hash, event_day, event_type);
+
+CREATE TABLE IF NOT EXISTS ad_daily_stats (
+  ad_id uuid NOT NULL REFERENCES advertisements(id) ON DELETE CASCADE,
+  day date NOT NULL,
+  impressions integer NOT NULL DEFAULT 0,
+  clicks integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (ad_id, day)
+);
+
+CREATE OR REPLACE FUNCTION count_ad_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_impression integer := (NEW.event_type = 'impression')::integer;
+  is_click integer := (NEW.event_type = 'click')::integer;
+BEGIN
+  INSERT INTO ad_daily_stats (ad_id, day, impressions, clicks)
+  VALUES (NEW.ad_id, NEW.event_day, is_impression, is_click)
+  ON CONFLICT (ad_id, day) DO UPDATE
+  SET impressions = ad_daily_stats.impressions + EXCLUDED.impressions,
+      clicks = ad_daily_stats.clicks + EXCLUDED.clicks;
+
+  UPDATE advertisements
+  SET impressions = impressions + is_impression,
+      clicks = clicks + is_click
+  WHERE id = NEW.ad_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ad_events_count ON ad_events;
+CREATE TRIGGER ad_events_count
+  AFTER INSERT ON ad_events
+  FOR EACH ROW EXECUTE FUNCTION count_ad_event();
+
+-- New ads start at zero and direct updates (the admin form, or anyone with
+-- ads.manage) keep the counters as they were; only count_ad_event, running one
+-- trigger level down, moves them
+CREATE OR REPLACE FUNCTION protect_ad_counters()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.impressions := 0;
+    NEW.clicks := 0;
+  ELSIF pg_trigger_depth() = 1 THEN
+    NEW.impressions := OLD.impressions;
+    NEW.clicks := OLD.clicks;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS advertisements_protect_counters ON advertisements;
+CREATE TRIGGER advertisements_protect_counters
+  BEFORE INSERT OR UPDATE OF impressions, clicks ON advertisements
+  FOR EACH ROW EXECUTE FUNCTION protect_ad_counters();
+
+ALTER TABLE ad_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ad_daily_stats ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by the edge function only; ad managers read the aggregates
+DROP POLICY IF EXISTS "Ad managers can read ad stats" ON ad_daily_stats;
+CREATE POLICY "Ad managers can read ad stats" ON ad_daily_stats FOR SELECT
+  USING (has_permission('ads.manage'));
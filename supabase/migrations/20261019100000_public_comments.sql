@@ -0,0 +1,59 @@
+-- Readers only ever see the public part of a comment. The row-level policy from
+-- 20261019093000 let anonymous readers select (and stream) whole approved rows,
+-- author_email, author_ip and the spam scoring included. Readers now go through the
+-- public_comments view, and article pages hear about changes from a broadcast that
+-- carries nothing but the comment id.
+
+DROP POLICY IF EXISTS "Approved comments are public" ON comments;
+REVOKE SELECT ON comments FROM anon;
+
+-- Owned by postgres, so it reads past RLS; the WHERE clause is the access rule
+CREATE OR REPLACE VIEW public_comments AS
+  SELECT id, article_id, parent_id, author_name, content, created_at, upvotes
+  FROM comments
+  WHERE is_approved AND NOT is_spam;
+
+GRANT SELECT ON public_comments TO anon, authenticated;
+
+-- Moderators keep postgres_changes on comments (their SELECT policy still applies);
+-- article pages subscribe to article-comments:<article_id> and refetch the comment
+-- from public_comments, so a message on that public topic can't put anything on the
+-- page that the view would not show anyway.
+CREATE OR REPLACE FUNCTION broadcast_public_comment_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row comments%ROWTYPE;
+  v_was_public boolean := false;
+  v_is_public boolean := false;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_row := OLD;
+    v_was_public := OLD.is_approved AND NOT OLD.is_spam;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_row := NEW;
+    v_is_public := NEW.is_approved AND NOT NEW.is_spam;
+  END IF;
+
+  -- Pending and spam comments never reach readers, so neither does news of them
+  IF v_was_public OR v_is_public THEN
+    PERFORM realtime.send(
+      jsonb_build_object('id', v_row.id),
+      'comment_changed',
+      'article-comments:' || v_row.article_id,
+      false
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS comments_broadcast_public_change ON comments;
+CREATE TRIGGER comments_broadcast_public_change
+  AFTER INSERT OR DELETE OR UPDATE OF is_approved, is_spam, content, upvotes ON comments
+  FOR EACH ROW EXECUTE FUNCTION broadcast_public_comment_change();
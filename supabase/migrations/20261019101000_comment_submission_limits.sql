@@ -0,0 +1,59 @@
+-- submit-comment used to count a sender's recent comments and insert the new one in
+-- two separate requests, so a burst of parallel submissions all saw the same count
+-- and all got in. This does both under a per-sender lock: a second request from the
+-- same email or IP waits until the first has committed and then counts it.
+
+CREATE OR REPLACE FUNCTION insert_comment_within_limits(
+  p_comment jsonb,
+  p_recent_minutes integer,
+  p_ip_recent integer,
+  p_ip_day integer,
+  p_email_recent integer,
+  p_email_day integer
+)
+RETURNS TABLE (comment_id uuid, limited text)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(btrim(p_comment->>'author_email'));
+  v_ip text := p_comment->>'author_ip';
+  -- 'unknown' means the function could not tell; it stands for many readers
+  v_known_ip boolean := v_ip IS NOT NULL AND v_ip <> 'unknown';
+  v_counts record;
+  v_id uuid;
+BEGIN
+  -- Email first, then IP, so two requests never wait on each other in a cycle
+  PERFORM pg_advisory_xact_lock(hashtext('comment-sender:email:' || v_email));
+  IF v_known_ip THEN
+    PERFORM pg_advisory_xact_lock(hashtext('comment-sender:ip:' || v_ip));
+  END IF;
+
+  SELECT * INTO v_counts FROM comment_submission_counts(v_email, v_ip, p_recent_minutes);
+
+  IF (v_known_ip AND v_counts.ip_recent >= p_ip_recent) OR v_counts.email_recent >= p_email_recent THEN
+    RETURN QUERY SELECT NULL::uuid, 'recent'::text;
+    RETURN;
+  END IF;
+  IF (v_known_ip AND v_counts.ip_day >= p_ip_day) OR v_counts.email_day >= p_email_day THEN
+    RETURN QUERY SELECT NULL::uuid, 'day'::text;
+    RETURN;
+  END IF;
+
+  INSERT INTO comments (
+    article_id, parent_id, author_name, author_email, author_ip, content,
+    is_approved, is_spam, held_for_review, spam_score, spam_reasons, content_fingerprint
+  )
+  SELECT
+    c.article_id, c.parent_id, c.author_name, v_email, c.author_ip, c.content,
+    c.is_approved, c.is_spam, c.held_for_review, c.spam_score, c.spam_reasons, c.content_fingerprint
+  FROM jsonb_populate_record(NULL::comments, p_comment) c
+  RETURNING id INTO v_id;
+
+  RETURN QUERY SELECT v_id, NULL::text;
+END;
+$$;
+
+-- Only the edge function (service role) needs this
+REVOKE EXECUTE ON FUNCTION insert_comment_within_limits(jsonb, integer, integer, integer, integer, integer)
+  FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,110 @@
+-- log_search used to take the result count from the browser, and trending counted
+-- log rows, so three calls from one script could put any text at all into the public
+-- trending list. The count is now worked out here, from the term alone (no filters),
+-- and trending needs three different senders. A sender is a salted hash of the
+-- trusted client address and user agent; the salt is random per day and never leaves
+-- the database, so hashes cannot be reversed or linked across days.
+
+CREATE TABLE IF NOT EXISTS search_sender_salts (
+  day date PRIMARY KEY,
+  salt text NOT NULL DEFAULT (gen_random_uuid()::text || gen_random_uuid()::text)
+);
+
+-- Nobody reads the salts; only the SECURITY DEFINER functions below
+ALTER TABLE search_sender_salts ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE search_queries ADD COLUMN IF NOT EXISTS sender_hash text;
+
+-- The gateway appends the address it accepted the connection from as the last
+-- X-Forwarded-For entry; earlier entries come from the client and can be forged
+CREATE OR REPLACE FUNCTION search_sender_hash()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers json := nullif(current_setting('request.headers', true), '')::json;
+  v_forwarded text[] := string_to_array(coalesce(v_headers->>'x-forwarded-for', ''), ',');
+  v_ip text := btrim(coalesce(v_forwarded[cardinality(v_forwarded)], ''));
+  v_day date := (now() AT TIME ZONE 'Europe/Belgrade')::date;
+  v_salt text;
+BEGIN
+  INSERT INTO search_sender_salts (day) VALUES (v_day) ON CONFLICT (day) DO NOTHING;
+  SELECT salt INTO v_salt FROM search_sender_salts WHERE day = v_day;
+
+  RETURN encode(sha256(convert_to(
+    v_salt || ':' || v_ip || ':' || coalesce(v_headers->>'user-agent', ''), 'UTF8'
+  )), 'hex');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION search_sender_hash() FROM PUBLIC, anon, authenticated;
+
+-- How many published articles a term finds, with no filters applied; the same
+-- matching as search_articles
+CREATE OR REPLACE FUNCTION search_match_count(p_query text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('serbian_folded', string_agg(quote_literal(term) || ':*', ' & ')) AS match_query
+    FROM unnest(serbian_search_terms(p_query)) AS term
+  )
+  SELECT count(*)::integer
+  FROM articles a
+  CROSS JOIN q
+  WHERE q.match_query IS NOT NULL
+    AND a.status = 'published'
+    AND a.search_vector @@ q.match_query;
+$$;
+
+DROP FUNCTION IF EXISTS log_search(text, integer);
+
+CREATE OR REPLACE FUNCTION log_search(p_term text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_term text := coalesce(p_term, '');
+  v_id uuid;
+BEGIN
+  v_term := regexp_replace(v_term, '[^\s@]+@[^\s@]+', '[email]', 'g');
+  v_term := regexp_replace(v_term, '\+?\d(?:[\s/().-]?\d){8,}', '[number]', 'g');
+  v_term := left(btrim(regexp_replace(v_term, '\s+', ' ', 'g')), 100);
+
+  IF v_term = '' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO search_queries (term, folded_term, result_count, sender_hash)
+  VALUES (v_term, serbian_fold(v_term), search_match_count(p_term), search_sender_hash())
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Only queries that found something and that several different readers searched
+-- for, so one-off searches (names, typos, anything personal) and one person's
+-- repeated calls never show up publicly
+CREATE OR REPLACE FUNCTION trending_searches(p_days integer DEFAULT 7, p_limit integer DEFAULT 5)
+RETURNS TABLE (term text, searches bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT mode() WITHIN GROUP (ORDER BY sq.term) AS term, count(DISTINCT sq.sender_hash) AS searches
+  FROM search_queries sq
+  WHERE sq.created_at >= now() - make_interval(days => p_days)
+    AND sq.result_count > 0
+  GROUP BY sq.folded_term
+  HAVING count(DISTINCT sq.sender_hash) >= 3
+  ORDER BY count(DISTINCT sq.sender_hash) DESC
+  LIMIT p_limit;
+$$;
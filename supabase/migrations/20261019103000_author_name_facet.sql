@@ -0,0 +1,178 @@
+-- The author facet grouped by author_id and labelled each group with one of its
+-- bylines, but articles carry a free-text byline: two names from one account merged
+-- under whichever came first, and readers filtered by something they could not see.
+-- Both search functions now filter and facet on author_name, the byline itself.
+
+DROP FUNCTION IF EXISTS search_articles(text, text, timestamptz, text, integer, integer, text[], uuid, text, timestamptz);
+DROP FUNCTION IF EXISTS search_facets(text, text, text[], uuid, text, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION search_articles(
+  p_query text,
+  p_category text DEFAULT NULL,
+  p_since timestamptz DEFAULT NULL,
+  p_sort text DEFAULT 'relevance',
+  p_limit integer DEFAULT 12,
+  p_offset integer DEFAULT 0,
+  p_tags text[] DEFAULT NULL,
+  p_author text DEFAULT NULL,
+  p_language text DEFAULT NULL,
+  p_until timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  slug text,
+  excerpt text,
+  featured_image_url text,
+  category text,
+  author_name text,
+  published_at timestamptz,
+  reading_time integer,
+  rank real,
+  title_highlight text,
+  snippet text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      to_tsquery('serbian_folded', string_agg(quote_literal(term) || ':*', ' & ')) AS match_query,
+      to_tsquery('serbian_folded', string_agg(quote_literal(term) || ':*', ' | ')) AS any_query
+    FROM unnest(serbian_search_terms(p_query)) AS term
+  ),
+  scored AS (
+    SELECT
+      a.*,
+      CASE WHEN q.match_query IS NULL THEN 0 ELSE ts_rank_cd(a.search_vector, q.match_query, 32) END AS score
+    FROM articles a
+    CROSS JOIN q
+    WHERE a.status = 'published'
+      AND (q.match_query IS NULL OR a.search_vector @@ q.match_query)
+      AND (p_category IS NULL OR a.category = p_category)
+      AND (coalesce(cardinality(p_tags), 0) = 0 OR a.tags @> p_tags)
+      AND (p_author IS NULL OR a.author_name = p_author)
+      AND (p_language IS NULL OR a.language = p_language)
+      AND (p_since IS NULL OR a.published_at >= p_since)
+      AND (p_until IS NULL OR a.published_at < p_until)
+  ),
+  ordered AS (
+    SELECT
+      s.*,
+      count(*) OVER () AS total,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'relevance' THEN s.score END DESC NULLS LAST,
+          CASE WHEN p_sort = 'title' THEN s.title END ASC,
+          CASE WHEN p_sort = 'published_at-asc' THEN s.published_at END ASC,
+          s.published_at DESC NULLS LAST,
+          s.id
+      ) AS position
+    FROM scored s
+  )
+  SELECT
+    o.id,
+    o.title::text,
+    o.slug::text,
+    o.excerpt::text,
+    o.featured_image_url::text,
+    o.category::text,
+    o.author_name::text,
+    o.published_at::timestamptz,
+    o.reading_time::integer,
+    o.score::real,
+    CASE WHEN q.any_query IS NULL THEN o.title::text ELSE coalesce(serbian_headline(o.title, q.any_query), o.title::text) END,
+    CASE WHEN q.any_query IS NULL THEN NULL ELSE serbian_headline(strip_html(o.content), q.any_query, 40) END,
+    o.total
+  FROM ordered o
+  CROSS JOIN q
+  WHERE o.position > p_offset AND o.position <= p_offset + p_limit
+  ORDER BY o.position;
+$$;
+
+-- Result counts per facet value for the current search. Date counts are for the
+-- preset windows (days back from now); selected tags and author always come back,
+-- even when they would fall outside the top of their list.
+CREATE OR REPLACE FUNCTION search_facets(
+  p_query text,
+  p_category text DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  p_author text DEFAULT NULL,
+  p_language text DEFAULT NULL,
+  p_since timestamptz DEFAULT NULL,
+  p_until timestamptz DEFAULT NULL
+)
+RETURNS TABLE (facet text, value text, label text, hits bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('serbian_folded', string_agg(quote_literal(term) || ':*', ' & ')) AS match_query
+    FROM unnest(serbian_search_terms(p_query)) AS term
+  ),
+  matches AS (
+    SELECT
+      a.category::text AS category,
+      a.tags,
+      a.author_name::text AS author_name,
+      a.language::text AS language,
+      a.published_at,
+      (p_category IS NULL OR a.category = p_category) AS category_ok,
+      (coalesce(cardinality(p_tags), 0) = 0 OR a.tags @> p_tags) AS tags_ok,
+      (p_author IS NULL OR a.author_name = p_author) AS author_ok,
+      (p_language IS NULL OR a.language = p_language) AS language_ok,
+      ((p_since IS NULL OR a.published_at >= p_since) AND (p_until IS NULL OR a.published_at < p_until)) AS date_ok
+    FROM articles a
+    CROSS JOIN q
+    WHERE a.status = 'published'
+      AND (q.match_query IS NULL OR a.search_vector @@ q.match_query)
+  )
+  (
+    SELECT 'category'::text, m.category, coalesce(min(c.name)::text, m.category), count(*)
+    FROM matches m
+    LEFT JOIN categories c ON c.slug = m.category
+    WHERE m.category IS NOT NULL AND m.tags_ok AND m.author_ok AND m.language_ok AND m.date_ok
+    GROUP BY m.category
+    ORDER BY min(c.sort_order) NULLS LAST, count(*) DESC
+  )
+  UNION ALL
+  (
+    -- Tags narrow the results together, so their counts include the tags already picked
+    SELECT 'tag'::text, tag::text, tag::text, count(*)
+    FROM matches m, unnest(m.tags) AS tag
+    WHERE m.category_ok AND m.tags_ok AND m.author_ok AND m.language_ok AND m.date_ok
+    GROUP BY tag
+    ORDER BY tag = ANY(coalesce(p_tags, ARRAY[]::text[])) DESC, count(*) DESC, tag
+    LIMIT 15
+  )
+  UNION ALL
+  (
+    -- The byline readers see is what they filter by, so one account writing under
+    -- several names shows each of them
+    SELECT 'author'::text, m.author_name, m.author_name, count(*)
+    FROM matches m
+    WHERE m.author_name IS NOT NULL AND m.category_ok AND m.tags_ok AND m.language_ok AND m.date_ok
+    GROUP BY m.author_name
+    ORDER BY m.author_name = p_author DESC NULLS LAST, count(*) DESC
+    LIMIT 10
+  )
+  UNION ALL
+  (
+    SELECT 'language'::text, m.language, m.language, count(*)
+    FROM matches m
+    WHERE m.language IS NOT NULL AND m.category_ok AND m.tags_ok AND m.author_ok AND m.date_ok
+    GROUP BY m.language
+    ORDER BY count(*) DESC
+  )
+  UNION ALL
+  (
+    SELECT 'date'::text, d.days::text, d.days::text, count(m.published_at)
+    FROM unnest(ARRAY[7, 30, 90, 365]) AS d(days)
+    LEFT JOIN matches m
+      ON m.published_at >= now() - make_interval(days => d.days)
+      AND m.category_ok AND m.tags_ok AND m.author_ok AND m.language_ok
+    GROUP BY d.days
+    ORDER BY d.days
+  );
+$$;
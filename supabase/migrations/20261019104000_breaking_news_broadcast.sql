@@ -0,0 +1,27 @@
+-- Readers stop receiving postgres_changes for an item as soon as it is switched off,
+-- because RLS no longer lets them see the row. The console used to cover that with a
+-- 'kill' broadcast sent from the browser, which anyone holding the anon key could send
+-- too. The database now announces every change itself; banners take the message as
+-- a cue to refetch, so a forged one cannot hide anything that is still live.
+
+CREATE OR REPLACE FUNCTION broadcast_breaking_news_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object('id', CASE WHEN TG_OP = 'DELETE' THEN OLD.id ELSE NEW.id END),
+    'changed',
+    'breaking-news',
+    false
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS breaking_news_broadcast_change ON breaking_news;
+CREATE TRIGGER breaking_news_broadcast_change
+  AFTER INSERT OR UPDATE OR DELETE ON breaking_news
+  FOR EACH ROW EXECUTE FUNCTION broadcast_breaking_news_change();
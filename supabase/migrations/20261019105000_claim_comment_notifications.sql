@@ -0,0 +1,34 @@
+-- send-comment-notifications read unsent rows and marked them sent only after
+-- delivery, so two overlapping runs (a slow batch and the next minute's cron) sent
+-- the same emails twice. A run now claims its batch first; rows claimed by another
+-- run are skipped until the claim goes stale, which only happens when a run died
+-- half way through.
+
+ALTER TABLE comment_notifications ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+
+CREATE OR REPLACE FUNCTION claim_comment_notifications(
+  p_limit integer DEFAULT 50,
+  p_max_attempts integer DEFAULT 5,
+  p_stale_after interval DEFAULT interval '10 minutes'
+)
+RETURNS SETOF comment_notifications
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE comment_notifications
+  SET claimed_at = now()
+  WHERE id IN (
+    SELECT id
+    FROM comment_notifications
+    WHERE sent_at IS NULL
+      AND attempts < p_max_attempts
+      AND (claimed_at IS NULL OR claimed_at < now() - p_stale_after)
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Only the edge function (service role) needs this
+REVOKE EXECUTE ON FUNCTION claim_comment_notifications(integer, integer, interval) FROM PUBLIC, anon, authenticated;
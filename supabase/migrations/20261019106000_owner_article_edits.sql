@@ -0,0 +1,17 @@
+-- Authors could edit the title and content of their own article at any stage, so
+-- an article already in review, approved or live could be changed without anyone
+-- reviewing it. enforce_article_workflow only guards the status columns; the owner
+-- branch of the update policy now only covers drafts. Editors (articles.review)
+-- still edit at any stage, and transition_article runs as definer, so authors can
+-- still submit their drafts.
+
+DROP POLICY IF EXISTS "Editors and owners can update articles" ON articles;
+CREATE POLICY "Editors and owners can update articles" ON articles FOR UPDATE
+  USING (
+    has_permission('articles.review')
+    OR (has_permission('articles.write') AND author_id = auth.uid() AND workflow_status = 'draft')
+  )
+  WITH CHECK (
+    has_permission('articles.review')
+    OR (has_permission('articles.write') AND author_id = auth.uid() AND workflow_status = 'draft')
+  );
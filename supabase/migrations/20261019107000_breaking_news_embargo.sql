@@ -0,0 +1,31 @@
+-- "Live breaking news is public" let readers select scheduled items, so anyone with
+-- the anon key could read embargoed news before its start time. Readers now only see
+-- items that have started. Since no database event marks a start time passing, open
+-- banners ask how long until the next item starts (the time only, nothing about the
+-- item) and refetch then.
+
+DROP POLICY IF EXISTS "Live breaking news is public" ON breaking_news;
+CREATE POLICY "Live breaking news is public" ON breaking_news FOR SELECT
+  USING (
+    is_active
+    AND (starts_at IS NULL OR starts_at <= now())
+    AND (expires_at IS NULL OR expires_at > now())
+  );
+
+-- Measured on the database clock, so a reader's skewed clock cannot make a banner
+-- refetch too early and miss the start; NULL when nothing is scheduled
+CREATE OR REPLACE FUNCTION seconds_until_next_breaking_news()
+RETURNS double precision
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXTRACT(EPOCH FROM min(starts_at) - now())::double precision
+  FROM breaking_news
+  WHERE is_active
+    AND starts_at > now()
+    AND (expires_at IS NULL OR expires_at > starts_at);
+$$;
+
+GRANT EXECUTE ON FUNCTION seconds_until_next_breaking_news() TO anon, authenticated;
@@ -0,0 +1,25 @@
+-- search_sender_hash mixed in the user agent, which the client chooses freely, so
+-- one reader sending three different User-Agent headers counted as three senders
+-- towards the trending threshold. The sender is now the salted client address alone.
+
+CREATE OR REPLACE FUNCTION search_sender_hash()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers json := nullif(current_setting('request.headers', true), '')::json;
+  v_forwarded text[] := string_to_array(coalesce(v_headers->>'x-forwarded-for', ''), ',');
+  v_ip text := btrim(coalesce(v_forwarded[cardinality(v_forwarded)], ''));
+  v_day date := (now() AT TIME ZONE 'Europe/Belgrade')::date;
+  v_salt text;
+BEGIN
+  INSERT INTO search_sender_salts (day) VALUES (v_day) ON CONFLICT (day) DO NOTHING;
+  SELECT salt INTO v_salt FROM search_sender_salts WHERE day = v_day;
+
+  RETURN encode(sha256(convert_to(v_salt || ':' || v_ip, 'UTF8')), 'hex');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION search_sender_hash() FROM PUBLIC, anon, authenticated;
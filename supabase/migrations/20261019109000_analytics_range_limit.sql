@@ -0,0 +1,111 @@
+-- The dashboard caps a range at MAX_RANGE_DAYS (366) calendar days, both ends
+-- included, but the functions checked p_to - p_from > 366 and so accepted 367. The
+-- limit now lives in one place, with the same meaning as on the client. The search
+-- report used the same check and follows along.
+
+CREATE OR REPLACE FUNCTION assert_analytics_range(p_from date, p_to date)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  -- Keep in sync with MAX_RANGE_DAYS in src/hooks/useAnalytics.ts
+  IF p_to < p_from OR p_to - p_from + 1 > 366 THEN
+    RAISE EXCEPTION 'Invalid analytics range: % to %', p_from, p_to USING ERRCODE = '22023';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION analytics_daily_counts(
+  p_metric text,
+  p_from date,
+  p_to date,
+  p_timezone text DEFAULT 'Europe/Belgrade'
+)
+RETURNS TABLE (day date, total bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  range_start timestamptz := p_from::timestamp AT TIME ZONE p_timezone;
+  range_end timestamptz := (p_to + 1)::timestamp AT TIME ZONE p_timezone;
+BEGIN
+  IF NOT has_permission('analytics.view') THEN
+    RAISE EXCEPTION 'Your role cannot read analytics' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_metric NOT IN ('views', 'comments', 'users') THEN
+    RAISE EXCEPTION 'Unknown analytics metric: %', p_metric USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM assert_analytics_range(p_from, p_to);
+
+  RETURN QUERY
+  WITH events AS (
+    SELECT (v.viewed_at AT TIME ZONE p_timezone)::date AS event_day
+    FROM article_views v
+    WHERE p_metric = 'views' AND v.viewed_at >= range_start AND v.viewed_at < range_end
+    UNION ALL
+    SELECT (c.created_at AT TIME ZONE p_timezone)::date
+    FROM comments c
+    WHERE p_metric = 'comments' AND c.is_approved AND c.created_at >= range_start AND c.created_at < range_end
+    UNION ALL
+    SELECT (pr.created_at AT TIME ZONE p_timezone)::date
+    FROM profiles pr
+    WHERE p_metric = 'users' AND pr.created_at >= range_start AND pr.created_at < range_end
+  )
+  SELECT d.day::date, count(e.event_day)
+  FROM generate_series(p_from, p_to, interval '1 day') AS d(day)
+  LEFT JOIN events e ON e.event_day = d.day::date
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_query_report(
+  p_from date,
+  p_to date,
+  p_timezone text DEFAULT 'Europe/Belgrade',
+  p_limit integer DEFAULT 200
+)
+RETURNS TABLE (
+  term text,
+  searches bigint,
+  zero_result_searches bigint,
+  clicks bigint,
+  last_result_count integer,
+  last_searched_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  range_start timestamptz := p_from::timestamp AT TIME ZONE p_timezone;
+  range_end timestamptz := (p_to + 1)::timestamp AT TIME ZONE p_timezone;
+BEGIN
+  IF NOT has_permission('analytics.view') THEN
+    RAISE EXCEPTION 'Your role cannot read analytics' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM assert_analytics_range(p_from, p_to);
+
+  RETURN QUERY
+  SELECT
+    mode() WITHIN GROUP (ORDER BY sq.term),
+    count(*),
+    count(*) FILTER (WHERE sq.result_count = 0),
+    count(sq.clicked_at),
+    (array_agg(sq.result_count ORDER BY sq.created_at DESC))[1],
+    max(sq.created_at)
+  FROM search_queries sq
+  WHERE sq.created_at >= range_start AND sq.created_at < range_end
+  GROUP BY sq.folded_term
+  ORDER BY count(*) DESC, max(sq.created_at) DESC
+  LIMIT p_limit;
+END;
+$$;
@@ -0,0 +1,34 @@
+-- search_query_totals never checked its range, unlike search_query_report, so any
+-- caller with analytics access could scan the whole search log in one request.
+
+CREATE OR REPLACE FUNCTION search_query_totals(
+  p_from date,
+  p_to date,
+  p_timezone text DEFAULT 'Europe/Belgrade'
+)
+RETURNS TABLE (searches bigint, zero_result_searches bigint, clicks bigint, unique_terms bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  range_start timestamptz := p_from::timestamp AT TIME ZONE p_timezone;
+  range_end timestamptz := (p_to + 1)::timestamp AT TIME ZONE p_timezone;
+BEGIN
+  IF NOT has_permission('analytics.view') THEN
+    RAISE EXCEPTION 'Your role cannot read analytics' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM assert_analytics_range(p_from, p_to);
+
+  RETURN QUERY
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE sq.result_count = 0),
+    count(sq.clicked_at),
+    count(DISTINCT sq.folded_term)
+  FROM search_queries sq
+  WHERE sq.created_at >= range_start AND sq.created_at < range_end;
+END;
+$$;